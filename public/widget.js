@@ -0,0 +1,366 @@
+/*
+ * AI Desk chat widget. Embed on a site listed in the org's allowed origins:
+ *
+ *   <script src="https://acme.yourapp.com/widget.js" data-org="acme" async></script>
+ *
+ * Conversations become tickets. New messages arrive over server-sent events,
+ * falling back to polling when the stream can't be kept open.
+ */
+(function () {
+  "use strict"
+
+  var script = document.currentScript
+  var orgSlug = script && script.getAttribute("data-org")
+  if (!orgSlug || window.__aiDeskChatLoaded) return
+  window.__aiDeskChatLoaded = true
+
+  var apiBase = new URL(script.src).origin + "/api/widget/" + encodeURIComponent(orgSlug)
+  var storageKey = "aidesk-chat:" + orgSlug
+  var POLL_INTERVAL_MS = 4000
+  // Consecutive stream failures before switching to polling
+  var MAX_STREAM_ERRORS = 3
+  var HANDOFF_MESSAGE = "I'd like to talk to a person"
+
+  var STATE_LABELS = {
+    ai: "Answered by our AI assistant",
+    waiting: "Waiting for an agent to join...",
+    agent: "You're chatting with our team",
+    closed: "This conversation has ended",
+  }
+
+  var config = null
+  var session = loadSession()
+  var conversation = null
+  var messageIds = {}
+  var lastMessageId = null
+  var eventSource = null
+  var pollTimer = null
+  var streamErrors = 0
+
+  function loadSession() {
+    try {
+      return JSON.parse(window.localStorage.getItem(storageKey) || "null")
+    } catch {
+      return null
+    }
+  }
+
+  function saveSession(value) {
+    session = value
+    try {
+      if (value) window.localStorage.setItem(storageKey, JSON.stringify(value))
+      else window.localStorage.removeItem(storageKey)
+    } catch {
+      // Storage may be blocked; the chat still works until the page reloads
+    }
+  }
+
+  function request(method, path, body) {
+    var headers = { "Content-Type": "application/json" }
+    if (session) headers["x-chat-token"] = session.token
+    return fetch(apiBase + path, {
+      method: method,
+      headers: headers,
+      body: body ? JSON.stringify(body) : undefined,
+    }).then(function (response) {
+      return response.json().then(function (data) {
+        if (!response.ok) {
+          var error = new Error(data.error || "Request failed")
+          error.status = response.status
+          throw error
+        }
+        return data
+      })
+    })
+  }
+
+  function el(tag, attributes, children) {
+    var node = document.createElement(tag)
+    Object.keys(attributes || {}).forEach(function (name) {
+      if (name === "text") node.textContent = attributes[name]
+      else node.setAttribute(name, attributes[name])
+    })
+    ;(children || []).forEach(function (child) {
+      node.appendChild(child)
+    })
+    return node
+  }
+
+  // UI, rendered in a shadow root so the host page's styles don't leak in
+  var host = el("div", { id: "aidesk-chat" })
+  var root = host.attachShadow ? host.attachShadow({ mode: "open" }) : host
+  var style = el("style")
+  var launcher = el("button", { class: "launcher", "aria-label": "Open chat", text: "Chat" })
+  var title = el("strong")
+  var closeButton = el("button", { class: "close", "aria-label": "Close chat", text: "×" })
+  var stateBar = el("div", { class: "state" })
+  var messageList = el("div", { class: "messages" })
+  var errorBar = el("div", { class: "error" })
+  var startForm = el("form", { class: "start" }, [
+    el("input", { name: "name", placeholder: "Your name", required: "", maxlength: "100" }),
+    el("input", { name: "email", type: "email", placeholder: "Your email", required: "" }),
+    el("textarea", { name: "message", placeholder: "How can we help?", rows: "3", required: "" }),
+    el("button", { type: "submit", text: "Start chat" }),
+  ])
+  var replyInput = el("textarea", { placeholder: "Type a message", rows: "2" })
+  var handoffButton = el("button", { type: "button", class: "secondary", text: "Talk to a person" })
+  var newChatButton = el("button", { type: "button", class: "secondary", text: "Start a new chat" })
+  var replyForm = el("form", { class: "reply" }, [
+    replyInput,
+    el("div", { class: "actions" }, [handoffButton, newChatButton, el("button", { type: "submit", text: "Send" })]),
+  ])
+  var panel = el("div", { class: "panel", hidden: "" }, [
+    el("div", { class: "header" }, [title, closeButton]),
+    stateBar,
+    messageList,
+    errorBar,
+    startForm,
+    replyForm,
+  ])
+
+  function applyStyles(color) {
+    style.textContent = [
+      ":host { all: initial; }",
+      "* { box-sizing: border-box; font-family: Arial, Helvetica, sans-serif; font-size: 14px; }",
+      ".launcher { position: fixed; right: 20px; bottom: 20px; z-index: 2147483000; border: 0; border-radius: 999px; padding: 14px 20px; background: " + color + "; color: #fff; cursor: pointer; box-shadow: 0 4px 12px rgba(0,0,0,.2); }",
+      ".panel { position: fixed; right: 20px; bottom: 80px; z-index: 2147483000; width: 340px; max-width: calc(100vw - 40px); height: 480px; max-height: calc(100vh - 100px); display: flex; flex-direction: column; background: #fff; border-radius: 12px; box-shadow: 0 8px 24px rgba(0,0,0,.2); overflow: hidden; color: #18181b; }",
+      ".panel[hidden] { display: none; }",
+      ".header { display: flex; justify-content: space-between; align-items: center; padding: 12px 16px; background: " + color + "; color: #fff; }",
+      ".close { border: 0; background: none; color: #fff; font-size: 20px; cursor: pointer; }",
+      ".state { padding: 6px 16px; background: #f4f4f5; color: #52525b; font-size: 12px; }",
+      ".state:empty, .error:empty { display: none; }",
+      ".messages { flex: 1; overflow-y: auto; padding: 12px 16px; display: flex; flex-direction: column; gap: 8px; }",
+      ".message { max-width: 85%; padding: 8px 12px; border-radius: 10px; white-space: pre-wrap; word-wrap: break-word; }",
+      ".message.visitor { align-self: flex-end; background: " + color + "; color: #fff; }",
+      ".message.support { align-self: flex-start; background: #f4f4f5; }",
+      ".author { display: block; font-size: 11px; opacity: .7; margin-bottom: 2px; }",
+      ".error { padding: 6px 16px; color: #b91c1c; font-size: 12px; }",
+      "form { display: flex; flex-direction: column; gap: 8px; padding: 12px 16px; border-top: 1px solid #e4e4e7; }",
+      "form[hidden] { display: none; }",
+      "input, textarea { width: 100%; padding: 8px; border: 1px solid #d4d4d8; border-radius: 6px; resize: none; }",
+      "button[type=submit] { border: 0; border-radius: 6px; padding: 8px 12px; background: " + color + "; color: #fff; cursor: pointer; }",
+      "button:disabled { opacity: .6; cursor: default; }",
+      ".actions { display: flex; gap: 8px; justify-content: flex-end; }",
+      ".secondary { border: 1px solid #d4d4d8; border-radius: 6px; padding: 8px 12px; background: #fff; cursor: pointer; }",
+      ".secondary[hidden] { display: none; }",
+    ].join("\n")
+  }
+
+  function showError(message) {
+    errorBar.textContent = message || ""
+  }
+
+  function scrollToBottom() {
+    messageList.scrollTop = messageList.scrollHeight
+  }
+
+  function addBubble(fromVisitor, author, body) {
+    var bubble = el("div", { class: "message " + (fromVisitor ? "visitor" : "support") })
+    if (author) bubble.appendChild(el("span", { class: "author", text: author }))
+    bubble.appendChild(document.createTextNode(body))
+    messageList.appendChild(bubble)
+    scrollToBottom()
+  }
+
+  function addMessage(message) {
+    if (messageIds[message.id]) return
+    messageIds[message.id] = true
+    lastMessageId = message.id
+    var fromVisitor = message.authorType === "requester"
+    var author = fromVisitor ? null : message.ai ? "AI assistant" : message.authorName || "Support"
+    addBubble(fromVisitor, author, message.body)
+  }
+
+  function render() {
+    var inChat = !!conversation
+    startForm.hidden = inChat
+    replyForm.hidden = !inChat
+    stateBar.textContent = inChat ? STATE_LABELS[conversation.state] || "" : ""
+    handoffButton.hidden = !inChat || conversation.state !== "ai"
+    newChatButton.hidden = !inChat || conversation.state !== "closed"
+    replyInput.disabled = inChat && conversation.state === "closed"
+  }
+
+  function updateConversation(value) {
+    conversation = value
+    render()
+    if (value.state === "closed") disconnect()
+  }
+
+  function resetChat() {
+    disconnect()
+    saveSession(null)
+    conversation = null
+    messageIds = {}
+    lastMessageId = null
+    messageList.textContent = ""
+    if (config && config.greeting) addBubble(false, null, config.greeting)
+    render()
+  }
+
+  function showConversation(data) {
+    messageList.textContent = ""
+    messageIds = {}
+    addBubble(true, null, data.conversation.openingMessage)
+    data.messages.forEach(addMessage)
+    updateConversation(data.conversation)
+  }
+
+  // Live updates: event stream first, polling when streams keep failing
+  function connect() {
+    disconnect()
+    if (!session || (conversation && conversation.state === "closed")) return
+    if (!window.EventSource || streamErrors >= MAX_STREAM_ERRORS) {
+      startPolling()
+      return
+    }
+
+    var url = apiBase + "/conversations/" + session.id + "/stream?token=" + encodeURIComponent(session.token)
+    if (lastMessageId) url += "&after=" + lastMessageId
+    eventSource = new EventSource(url)
+    eventSource.addEventListener("open", function () {
+      streamErrors = 0
+    })
+    eventSource.addEventListener("message", function (event) {
+      addMessage(JSON.parse(event.data))
+    })
+    eventSource.addEventListener("conversation", function (event) {
+      updateConversation(JSON.parse(event.data))
+    })
+    eventSource.addEventListener("error", function () {
+      streamErrors += 1
+      // The browser reconnects on its own unless the stream was refused
+      if (eventSource.readyState === EventSource.CLOSED || streamErrors >= MAX_STREAM_ERRORS) {
+        connect()
+      }
+    })
+  }
+
+  function startPolling() {
+    pollTimer = window.setInterval(function () {
+      var query = lastMessageId ? "?after=" + lastMessageId : ""
+      request("GET", "/conversations/" + session.id + "/messages" + query)
+        .then(function (data) {
+          data.messages.forEach(addMessage)
+          updateConversation(data.conversation)
+        })
+        .catch(function (error) {
+          if (error.status === 404) resetChat()
+        })
+    }, POLL_INTERVAL_MS)
+  }
+
+  function disconnect() {
+    if (eventSource) eventSource.close()
+    if (pollTimer) window.clearInterval(pollTimer)
+    eventSource = null
+    pollTimer = null
+  }
+
+  function resumeConversation() {
+    request("GET", "/conversations/" + session.id + "/messages")
+      .then(function (data) {
+        showConversation(data)
+        connect()
+      })
+      .catch(function (error) {
+        // Expired token or deleted conversation: start over
+        if (error.status === 404) resetChat()
+        else showError(error.message)
+      })
+  }
+
+  function sendMessage(body) {
+    showError("")
+    return request("POST", "/conversations/" + session.id + "/messages", { body: body })
+      .then(function (data) {
+        addMessage(data.chatMessage)
+        updateConversation(data.conversation)
+      })
+      .catch(function (error) {
+        showError(error.message)
+        throw error
+      })
+  }
+
+  startForm.addEventListener("submit", function (event) {
+    event.preventDefault()
+    var button = startForm.querySelector("button")
+    var data = {
+      name: startForm.elements.name.value,
+      email: startForm.elements.email.value,
+      message: startForm.elements.message.value,
+    }
+    button.disabled = true
+    showError("")
+    request("POST", "/conversations", data)
+      .then(function (result) {
+        saveSession({ id: result.conversation.id, token: result.token })
+        startForm.reset()
+        showConversation(result)
+        connect()
+      })
+      .catch(function (error) {
+        showError(error.message)
+      })
+      .then(function () {
+        button.disabled = false
+      })
+  })
+
+  replyForm.addEventListener("submit", function (event) {
+    event.preventDefault()
+    var body = replyInput.value.trim()
+    if (!body) return
+    replyInput.disabled = true
+    sendMessage(body)
+      .then(function () {
+        replyInput.value = ""
+      })
+      .catch(function () {})
+      .then(function () {
+        render()
+        replyInput.focus()
+      })
+  })
+
+  replyInput.addEventListener("keydown", function (event) {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault()
+      replyForm.requestSubmit()
+    }
+  })
+
+  handoffButton.addEventListener("click", function () {
+    sendMessage(HANDOFF_MESSAGE).catch(function () {})
+  })
+
+  newChatButton.addEventListener("click", resetChat)
+
+  launcher.addEventListener("click", function () {
+    panel.hidden = !panel.hidden
+    if (!panel.hidden) scrollToBottom()
+  })
+
+  closeButton.addEventListener("click", function () {
+    panel.hidden = true
+  })
+
+  request("GET", "/config")
+    .then(function (data) {
+      config = data.config
+      title.textContent = config.title
+      applyStyles(/^#[0-9a-fA-F]{6}$/.test(config.primaryColor) ? config.primaryColor : "#2563eb")
+      root.appendChild(style)
+      root.appendChild(launcher)
+      root.appendChild(panel)
+      document.body.appendChild(host)
+
+      if (session) resumeConversation()
+      else resetChat()
+    })
+    .catch(function (error) {
+      // Chat is off for this org or this site isn't allowed to embed it
+      console.warn("AI Desk chat unavailable:", error.message)
+    })
+})()
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import { connectToDB } from '@/app/lib/db';
+import Attachment, { type AttachmentDocument } from '@/models/Attachment';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { findAttachmentForOrg, verifyAttachmentSignature } from '@/lib/attachments';
+import { getStorage } from '@/lib/storage';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/attachments/[id]
+ * Download an attachment, either with a signed URL (?expires=&signature=)
+ * or as an authenticated user of the attachment's organization
+ * Requires: valid signature, or AGENT role or higher
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    const { id } = await params;
+    const { searchParams } = request.nextUrl;
+    let attachment: AttachmentDocument | null = null;
+    
+    if (searchParams.has('signature')) {
+      // Signed URL - the signature is bound to this attachment id
+      if (!verifyAttachmentSignature(id, searchParams.get('expires'), searchParams.get('signature'))) {
+        return NextResponse.json({ error: 'Invalid or expired link' }, { status: 403 });
+      }
+      attachment = isValidObjectId(id) ? await Attachment.findById(id) : null;
+    } else {
+      // Verify authentication
+      const token = getTokenFromRequest(request);
+      if (!token) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      
+      const payload = verifyToken(token);
+      if (!payload) {
+        return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+      }
+      
+      // Validate org context
+      const orgValidation = await validateOrgContext(request);
+      if ('error' in orgValidation) {
+        return orgValidation.error;
+      }
+      const { org } = orgValidation;
+      
+      // Check user role (minimum AGENT)
+      const { userRole } = getUserFromRequest(request);
+      const roleCheck = validateMinimumRole(userRole, 'AGENT');
+      if (!roleCheck.authorized) {
+        return roleCheck.error;
+      }
+      
+      attachment = await findAttachmentForOrg(id, org.orgId);
+    }
+    
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+    
+    const object = await getStorage().get(attachment.storageKey);
+    if (!object) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+    
+    return new NextResponse(new Uint8Array(object.body), {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Length': String(object.body.length),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(attachment.filename)}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
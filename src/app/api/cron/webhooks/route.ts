@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { retryDueWebhookDeliveries } from '@/lib/webhooks';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+// Deliveries attempted per run; anything left over goes on the next run
+const SWEEP_LIMIT = 50;
+
+/**
+ * Check the scheduler's bearer token against CRON_SECRET
+ */
+function isAuthorizedCron(request: NextRequest, secret: string): boolean {
+  const authorization = request.headers.get('authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+  
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(authorization.slice('Bearer '.length));
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * GET /api/cron/webhooks
+ * Retry webhook deliveries whose backoff has elapsed. Run it every minute from
+ * a scheduler (e.g. Vercel Cron); in-process retry timers don't survive
+ * restarts or serverless instances.
+ * Requires: CRON_SECRET (no user session)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json({ error: 'Cron jobs are not configured' }, { status: 503 });
+    }
+    if (!isAuthorizedCron(request, secret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    await connectToDB();
+    
+    const attempted = await retryDueWebhookDeliveries(SWEEP_LIMIT);
+    
+    return NextResponse.json({
+      message: 'Webhook retries processed',
+      attempted
+    });
+    
+  } catch (error) {
+    console.error('Error retrying webhook deliveries:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = GET;
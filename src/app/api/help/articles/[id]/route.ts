@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { validatePublicOrgContext } from '@/lib/multi-tenant';
+import { findKbArticleForOrg, serializePublicKbArticle } from '@/lib/knowledge-base';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/help/articles/[id]
+ * Get a published knowledge-base article
+ * Requires: nothing (public help center)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    const { id } = await params;
+    const article = await findKbArticleForOrg(id, org.orgId);
+    // Drafts are never visible outside the app
+    if (!article || article.status !== 'published') {
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({
+      message: 'Article retrieved successfully',
+      org: org.orgName,
+      article: serializePublicKbArticle(article, { full: true })
+    });
+    
+  } catch (error) {
+    console.error('Error fetching help center article:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
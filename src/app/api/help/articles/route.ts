@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { validatePublicOrgContext } from '@/lib/multi-tenant';
+import KbArticle from '@/models/KbArticle';
+import { helpArticleQuerySchema } from '@/lib/validations';
+import { listPublishedKbArticles, serializePublicKbArticle } from '@/lib/knowledge-base';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/help/articles
+ * List the org's published knowledge-base articles, optionally by category or text
+ * Requires: nothing (public help center)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    const { searchParams } = new URL(request.url);
+    
+    // Validate input
+    const query = helpArticleQuerySchema.parse({
+      category: searchParams.get('category') ?? undefined,
+      q: searchParams.get('q') ?? undefined
+    });
+    
+    const [articles, categories] = await Promise.all([
+      listPublishedKbArticles(org.orgId, query),
+      KbArticle.distinct('category', { orgId: org.orgId, status: 'published', category: { $ne: null } })
+    ]);
+    
+    return NextResponse.json({
+      message: 'Articles retrieved successfully',
+      org: org.orgName,
+      categories: (categories as string[]).sort(),
+      articles: articles.map((article) => serializePublicKbArticle(article))
+    });
+    
+  } catch (error) {
+    console.error('Error fetching help center articles:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
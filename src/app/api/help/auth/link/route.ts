@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import Org from '@/models/Org';
+import { validatePublicOrgContext } from '@/lib/multi-tenant';
+import { customerLoginSchema } from '@/lib/validations';
+import { consumeIpSubmission, getClientIp } from '@/lib/help-center';
+import { getHelpCenterUrl, sendCustomerLoginLink } from '@/lib/customer-auth';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/help/auth/link
+ * Email a one-time sign-in link to a customer. Any address gets a link (the
+ * response doesn't reveal whether it has requests); its inbox is the proof.
+ * Requires: nothing (public help center)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = customerLoginSchema.parse(body);
+    
+    if (!await consumeIpSubmission(org.orgId, getClientIp(request), 'login-link')) {
+      return NextResponse.json(
+        { error: 'Too many requests, please try again later' },
+        { status: 429 }
+      );
+    }
+    
+    const orgDoc = await Org.findById(org.orgId);
+    const helpCenterUrl = getHelpCenterUrl(org.orgSlug, request);
+    if (!orgDoc || !helpCenterUrl || !await sendCustomerLoginLink(orgDoc, validatedData.email, helpCenterUrl)) {
+      return NextResponse.json(
+        { error: 'Sign-in by email is not available for this help center' },
+        { status: 503 }
+      );
+    }
+    
+    return NextResponse.json({
+      message: 'Sign-in link sent successfully',
+      org: org.orgName
+    });
+    
+  } catch (error) {
+    console.error('Error sending customer sign-in link:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { clearCustomerCookie } from '@/lib/customer-auth';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/help/auth/logout
+ * End the customer session
+ * Requires: nothing (public help center)
+ */
+export async function POST() {
+  const response = NextResponse.json({ message: 'Signed out successfully' });
+  clearCustomerCookie(response);
+  return response;
+}
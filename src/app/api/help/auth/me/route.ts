@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { validatePublicOrgContext } from '@/lib/multi-tenant';
+import { getCustomerFromRequest } from '@/lib/customer-auth';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/help/auth/me
+ * The signed-in customer
+ * Requires: customer session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    const customer = await getCustomerFromRequest(request, org.orgId);
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    return NextResponse.json({
+      message: 'Customer retrieved successfully',
+      org: org.orgName,
+      customer: { email: customer.email, name: customer.name }
+    });
+    
+  } catch (error) {
+    console.error('Error fetching customer:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { validatePublicOrgContext } from '@/lib/multi-tenant';
+import { customerVerifySchema } from '@/lib/validations';
+import {
+  redeemCustomerLoginToken,
+  setCustomerCookie,
+  signCustomerToken
+} from '@/lib/customer-auth';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/help/auth/verify
+ * Redeem a sign-in link and start a customer session (customer-token cookie)
+ * Requires: nothing (public help center)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = customerVerifySchema.parse(body);
+    
+    const customer = await redeemCustomerLoginToken(org.orgId, validatedData.token);
+    if (!customer) {
+      return NextResponse.json(
+        { error: 'This sign-in link is invalid or has expired' },
+        { status: 401 }
+      );
+    }
+    
+    const response = NextResponse.json({
+      message: 'Signed in successfully',
+      org: org.orgName,
+      customer: { email: customer.email, name: customer.name }
+    });
+    setCustomerCookie(response, signCustomerToken(customer));
+    return response;
+    
+  } catch (error) {
+    console.error('Error verifying customer sign-in link:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
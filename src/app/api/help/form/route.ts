@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { validatePublicOrgContext } from '@/lib/multi-tenant';
+import { createHelpFormToken } from '@/lib/help-center';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/help/form
+ * Issue the signed token the ticket form must be submitted with
+ * Requires: nothing (public help center)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    return NextResponse.json({
+      message: 'Form token issued successfully',
+      org: org.orgName,
+      formToken: createHelpFormToken(org.orgId)
+    });
+    
+  } catch (error) {
+    console.error('Error issuing help form token:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { validatePublicOrgContext } from '@/lib/multi-tenant';
+import { customerReplySchema } from '@/lib/validations';
+import { getCustomerFromRequest } from '@/lib/customer-auth';
+import { findCustomerTicket, serializeCustomerTicketMessage } from '@/lib/tickets';
+import { addCustomerReply } from '@/lib/ticket-intake';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/help/tickets/[id]/messages
+ * Reply on one of the signed-in customer's requests
+ * Requires: customer session
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    const customer = await getCustomerFromRequest(request, org.orgId);
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const { id } = await params;
+    const ticket = await findCustomerTicket(id, org.orgId, customer.email);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    // Closed tickets are final
+    if (ticket.status === 'closed') {
+      return NextResponse.json(
+        { error: 'This request is closed. Please open a new request.' },
+        { status: 409 }
+      );
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = customerReplySchema.parse(body);
+    
+    const message = await addCustomerReply(ticket, {
+      name: customer.name ?? ticket.requester?.name,
+      email: customer.email,
+      body: validatedData.body
+    });
+    
+    return NextResponse.json({
+      message: 'Reply added successfully',
+      org: org.orgName,
+      reply: {
+        ...serializeCustomerTicketMessage(message),
+        attachments: []
+      }
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error adding customer reply:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { validatePublicOrgContext } from '@/lib/multi-tenant';
+import { getCustomerFromRequest } from '@/lib/customer-auth';
+import {
+  findCustomerTicket,
+  listTicketMessages,
+  serializeCustomerTicket,
+  serializeCustomerTicketMessage
+} from '@/lib/tickets';
+import { listMessageAttachments, listTicketRequestAttachments } from '@/lib/attachments';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/help/tickets/[id]
+ * One of the signed-in customer's requests with its public conversation
+ * (internal notes are never included)
+ * Requires: customer session
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    const customer = await getCustomerFromRequest(request, org.orgId);
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const { id } = await params;
+    const ticket = await findCustomerTicket(id, org.orgId, customer.email);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    const messages = await listTicketMessages(id, org.orgId, 'customer');
+    const [attachments, requestAttachments] = await Promise.all([
+      listMessageAttachments(org.orgId, messages.map((message) => message._id)),
+      listTicketRequestAttachments(org.orgId, ticket._id)
+    ]);
+    
+    return NextResponse.json({
+      message: 'Ticket retrieved successfully',
+      org: org.orgName,
+      ticket: {
+        ...serializeCustomerTicket(ticket),
+        attachments: requestAttachments
+      },
+      messages: messages.map((message) => ({
+        ...serializeCustomerTicketMessage(message),
+        attachments: attachments.get(message._id.toString()) ?? []
+      }))
+    });
+    
+  } catch (error) {
+    console.error('Error fetching customer ticket:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
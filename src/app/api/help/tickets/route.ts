@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { validatePublicOrgContext } from '@/lib/multi-tenant';
+import { helpTicketSchema } from '@/lib/validations';
+import {
+  checkHelpFormToken,
+  consumeIpSubmission,
+  getClientIp,
+  isEmailOverSubmissionLimit
+} from '@/lib/help-center';
+import { createCustomerTicket } from '@/lib/ticket-intake';
+import { getCustomerFromRequest } from '@/lib/customer-auth';
+import { listCustomerTickets, serializeCustomerTicket } from '@/lib/tickets';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/help/tickets
+ * The signed-in customer's requests, most recently active first
+ * Requires: customer session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    const customer = await getCustomerFromRequest(request, org.orgId);
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const tickets = await listCustomerTickets(org.orgId, customer.email);
+    
+    return NextResponse.json({
+      message: 'Tickets retrieved successfully',
+      org: org.orgName,
+      tickets: tickets.map(serializeCustomerTicket)
+    });
+    
+  } catch (error) {
+    console.error('Error fetching customer tickets:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/help/tickets
+ * Submit a support request from the help center form
+ * Requires: nothing (public help center)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the subdomain (no user session)
+    const orgValidation = await validatePublicOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = helpTicketSchema.parse(body);
+    
+    // Bots fill in the hidden field; answer as if it worked so they don't adapt
+    if (validatedData.website) {
+      return NextResponse.json({
+        message: 'Request submitted successfully',
+        org: org.orgName
+      }, { status: 201 });
+    }
+    
+    const tokenError = checkHelpFormToken(org.orgId, validatedData.formToken);
+    if (tokenError) {
+      return NextResponse.json({ error: tokenError }, { status: 400 });
+    }
+    
+    if (
+      !await consumeIpSubmission(org.orgId, getClientIp(request)) ||
+      await isEmailOverSubmissionLimit(org.orgId, validatedData.email)
+    ) {
+      return NextResponse.json(
+        { error: 'Too many requests, please try again later' },
+        { status: 429 }
+      );
+    }
+    
+    await createCustomerTicket({
+      orgId: org.orgId,
+      subject: validatedData.subject,
+      description: validatedData.description,
+      requester: { name: validatedData.name, email: validatedData.email },
+      channel: 'help-center'
+    });
+    
+    // The ticket itself isn't returned: the submitter isn't signed in
+    return NextResponse.json({
+      message: 'Request submitted successfully',
+      org: org.orgName
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error submitting help center ticket:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { inboundEmailSchema } from '@/lib/validations';
+import { parseMimeMessage, type ParsedEmail } from '@/lib/email/mime';
+import { inboundEmailFromJson, processInboundEmail } from '@/lib/inbound-email';
+import { serializeTicket, serializeTicketMessage } from '@/lib/tickets';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+// Larger than any plan's attachment limit, allowing for base64 overhead
+const MAX_EMAIL_BYTES = 40 * 1024 * 1024;
+
+/**
+ * Check the shared webhook secret, sent as a bearer token or ?secret= for
+ * providers that can only configure a URL
+ */
+function isAuthorizedWebhook(request: NextRequest, secret: string): boolean {
+  const authorization = request.headers.get('authorization');
+  const provided = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : request.nextUrl.searchParams.get('secret');
+  if (!provided) {
+    return false;
+  }
+  
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Read the email from the request: a parsed JSON payload, a raw RFC 822 message,
+ * or a form upload with the raw message in an `email` field
+ */
+async function readInboundEmail(request: NextRequest): Promise<ParsedEmail> {
+  const contentType = request.headers.get('content-type') ?? '';
+  
+  if (contentType.includes('application/json')) {
+    return inboundEmailFromJson(inboundEmailSchema.parse(await request.json()));
+  }
+  
+  if (contentType.includes('multipart/form-data')) {
+    const form = await request.formData();
+    const raw = form.get('email');
+    if (raw instanceof File) {
+      return parseMimeMessage(Buffer.from(await raw.arrayBuffer()));
+    }
+    return parseMimeMessage(Buffer.from(raw ?? '', 'utf8'));
+  }
+  
+  return parseMimeMessage(Buffer.from(await request.arrayBuffer()));
+}
+
+/**
+ * POST /api/inbound/email
+ * Receive an email for support@<org>.<domain>: replies are threaded onto their
+ * ticket and anything else opens a new ticket
+ * Requires: INBOUND_EMAIL_SECRET (no user session)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.INBOUND_EMAIL_SECRET;
+    if (!secret) {
+      return NextResponse.json({ error: 'Inbound email is not configured' }, { status: 503 });
+    }
+    if (!isAuthorizedWebhook(request, secret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const contentLength = Number(request.headers.get('content-length') ?? 0);
+    if (contentLength > MAX_EMAIL_BYTES) {
+      return NextResponse.json({ error: 'Email is too large' }, { status: 413 });
+    }
+    
+    await connectToDB();
+    
+    const email = await readInboundEmail(request);
+    const result = await processInboundEmail(email);
+    
+    // Unroutable email is acknowledged so the provider doesn't retry it
+    if (result.status === 'ignored') {
+      return NextResponse.json({
+        message: 'Email ignored',
+        reason: result.reason
+      });
+    }
+    
+    if (result.status === 'replied') {
+      return NextResponse.json({
+        message: 'Reply added successfully',
+        ticket: serializeTicket(result.ticket),
+        ticketMessage: serializeTicketMessage(result.message),
+        rejectedAttachments: result.rejectedAttachments
+      }, { status: 201 });
+    }
+    
+    return NextResponse.json({
+      message: 'Ticket created successfully',
+      ticket: serializeTicket(result.ticket),
+      rejectedAttachments: result.rejectedAttachments
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error processing inbound email:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
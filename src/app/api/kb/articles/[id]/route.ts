@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { updateKbArticleSchema } from '@/lib/validations';
+import {
+  findKbArticleForOrg,
+  indexKbArticle,
+  removeKbArticleFromIndex,
+  serializeKbArticle
+} from '@/lib/knowledge-base';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/kb/articles/[id]
+ * Get a knowledge base article
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { id } = await params;
+    const article = await findKbArticleForOrg(id, org.orgId);
+    if (!article) {
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({
+      message: 'Article retrieved successfully',
+      org: org.orgName,
+      article: serializeKbArticle(article)
+    });
+    
+  } catch (error) {
+    console.error('Error fetching article:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/kb/articles/[id]
+ * Edit, publish or unpublish an article
+ * Requires: ADMIN role or higher
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = updateKbArticleSchema.parse(body);
+    
+    const { id } = await params;
+    const article = await findKbArticleForOrg(id, org.orgId);
+    if (!article) {
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+    }
+    
+    const wasPublished = article.status === 'published';
+    article.set({ ...validatedData, updatedBy: payload.userId });
+    if (article.status === 'published' && !wasPublished) {
+      article.publishedAt = new Date();
+    }
+    await article.save();
+    
+    // Re-embed on every change; unpublishing removes the article from search
+    const indexed = await indexKbArticle(article, payload.userId);
+    
+    return NextResponse.json({
+      message: 'Article updated successfully',
+      org: org.orgName,
+      article: serializeKbArticle(article),
+      indexed
+    });
+    
+  } catch (error) {
+    console.error('Error updating article:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/kb/articles/[id]
+ * Delete an article and its search index entries
+ * Requires: ADMIN role or higher
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { id } = await params;
+    const article = await findKbArticleForOrg(id, org.orgId);
+    if (!article) {
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+    }
+    
+    await removeKbArticleFromIndex(article);
+    await article.deleteOne();
+    
+    return NextResponse.json({
+      message: 'Article deleted successfully',
+      org: org.orgName
+    });
+    
+  } catch (error) {
+    console.error('Error deleting article:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
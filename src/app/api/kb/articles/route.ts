@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import KbArticle from '@/models/KbArticle';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { createKbArticleSchema, kbArticleQuerySchema } from '@/lib/validations';
+import { indexKbArticle, serializeKbArticle } from '@/lib/knowledge-base';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/kb/articles
+ * List knowledge base articles (filter with ?status= and ?category=)
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { searchParams } = request.nextUrl;
+    const filter = kbArticleQuerySchema.parse({
+      status: searchParams.get('status') ?? undefined,
+      category: searchParams.get('category') ?? undefined
+    });
+    
+    const articles = await KbArticle.find({ orgId: org.orgId, ...filter }).sort({ updatedAt: -1 });
+    
+    return NextResponse.json({
+      message: 'Articles retrieved successfully',
+      org: org.orgName,
+      articles: articles.map(serializeKbArticle)
+    });
+    
+  } catch (error) {
+    console.error('Error fetching articles:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/kb/articles
+ * Create a knowledge base article (draft unless status is "published")
+ * Requires: ADMIN role or higher
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = createKbArticleSchema.parse(body);
+    
+    const article = await KbArticle.create({
+      ...validatedData,
+      orgId: org.orgId,
+      publishedAt: validatedData.status === 'published' ? new Date() : null,
+      createdBy: payload.userId
+    });
+    
+    // Published articles are embedded right away so they are searchable
+    const indexed = await indexKbArticle(article, payload.userId);
+    
+    return NextResponse.json({
+      message: 'Article created successfully',
+      org: org.orgName,
+      article: serializeKbArticle(article),
+      indexed
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error creating article:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
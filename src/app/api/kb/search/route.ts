@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { kbSearchSchema } from '@/lib/validations';
+import { searchKnowledgeBase } from '@/lib/knowledge-base';
+import { getOrgAIProvider } from '@/lib/org-ai';
+import { AIQuotaExceededError } from '@/lib/ai-usage';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/kb/search
+ * Semantic search over published knowledge base articles (?q=...&limit=5)
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { searchParams } = request.nextUrl;
+    const { q, limit } = kbSearchSchema.parse({
+      q: searchParams.get('q') ?? '',
+      limit: searchParams.get('limit') ?? undefined
+    });
+    
+    const provider = await getOrgAIProvider(org.orgId, { feature: 'kb-search', userId: payload.userId });
+    if (!provider) {
+      return NextResponse.json({ error: 'AI features are not configured' }, { status: 503 });
+    }
+    
+    const results = await searchKnowledgeBase(provider, org.orgId, q, limit);
+    
+    return NextResponse.json({
+      message: 'Search completed successfully',
+      org: org.orgName,
+      results
+    });
+    
+  } catch (error) {
+    console.error('Error searching knowledge base:', error);
+    
+    if (error instanceof AIQuotaExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 429 });
+    }
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import Org from '@/models/Org';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { aiSettingsSchema } from '@/lib/validations';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type ModelSettings = { model?: string | null; temperature?: number | null; fallbackModels?: string[] | null };
+
+type OrgAISettings = {
+  autoTriage?: boolean | null;
+  autoSummarize?: boolean | null;
+  autoResponse?: { enabled?: boolean | null; confidenceThreshold?: number | null } | null;
+  translation?: { enabled?: boolean | null; agentLanguage?: string | null } | null;
+  models?: ModelSettings | null;
+  featureModels?: Map<string, ModelSettings> | null;
+  redaction?: { enabled?: boolean | null; rules?: { name: string; pattern: string; flags?: string | null }[] } | null;
+  tone?: { style?: string | null; instructions?: string | null; signature?: string | null } | null;
+} | null | undefined;
+
+function serializeModelSettings(settings: ModelSettings | null | undefined) {
+  return {
+    model: settings?.model ?? null,
+    temperature: settings?.temperature ?? null,
+    fallbackModels: settings?.fallbackModels ?? []
+  };
+}
+
+function serializeAISettings(ai: OrgAISettings) {
+  return {
+    autoTriage: ai?.autoTriage ?? true,
+    autoSummarize: ai?.autoSummarize ?? true,
+    autoResponse: {
+      enabled: ai?.autoResponse?.enabled ?? false,
+      confidenceThreshold: ai?.autoResponse?.confidenceThreshold ?? 0.7
+    },
+    translation: {
+      enabled: ai?.translation?.enabled ?? true,
+      agentLanguage: ai?.translation?.agentLanguage ?? 'en'
+    },
+    redaction: {
+      enabled: ai?.redaction?.enabled ?? true,
+      rules: (ai?.redaction?.rules ?? []).map(({ name, pattern, flags }) => ({ name, pattern, flags: flags ?? '' }))
+    },
+    models: serializeModelSettings(ai?.models),
+    featureModels: Object.fromEntries(
+      [...(ai?.featureModels ?? new Map<string, ModelSettings>())].map(([feature, settings]) => [
+        feature,
+        serializeModelSettings(settings)
+      ])
+    ),
+    tone: {
+      style: ai?.tone?.style ?? 'friendly',
+      instructions: ai?.tone?.instructions ?? '',
+      signature: ai?.tone?.signature ?? ''
+    }
+  };
+}
+
+/**
+ * GET /api/settings/ai
+ * Get the organization's AI settings (features, models, PII redaction, reply tone)
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const orgDetails = await Org.findById(org.orgId);
+    
+    return NextResponse.json({
+      message: 'AI settings retrieved successfully',
+      org: org.orgName,
+      ai: serializeAISettings(orgDetails?.ai)
+    });
+    
+  } catch (error) {
+    console.error('Error fetching AI settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/settings/ai
+ * Update AI settings. Only the provided fields are changed.
+ * Requires: ADMIN role or higher
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = aiSettingsSchema.parse(body);
+    
+    const update: Record<string, unknown> = {};
+    if (validatedData.autoTriage !== undefined) {
+      update['ai.autoTriage'] = validatedData.autoTriage;
+    }
+    if (validatedData.autoSummarize !== undefined) {
+      update['ai.autoSummarize'] = validatedData.autoSummarize;
+    }
+    for (const [key, value] of Object.entries(validatedData.autoResponse ?? {})) {
+      update[`ai.autoResponse.${key}`] = value;
+    }
+    for (const [key, value] of Object.entries(validatedData.translation ?? {})) {
+      update[`ai.translation.${key}`] = value;
+    }
+    for (const [key, value] of Object.entries(validatedData.redaction ?? {})) {
+      update[`ai.redaction.${key}`] = value;
+    }
+    for (const [key, value] of Object.entries(validatedData.models ?? {})) {
+      update[`ai.models.${key}`] = value;
+    }
+    // Per-feature overrides are replaced as a whole for each feature given
+    for (const [feature, settings] of Object.entries(validatedData.featureModels ?? {})) {
+      update[`ai.featureModels.${feature}`] = settings;
+    }
+    for (const [key, value] of Object.entries(validatedData.tone ?? {})) {
+      update[`ai.tone.${key}`] = value;
+    }
+    
+    const orgDetails = await Org.findByIdAndUpdate(
+      org.orgId,
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+    
+    return NextResponse.json({
+      message: 'AI settings updated successfully',
+      org: org.orgName,
+      ai: serializeAISettings(orgDetails?.ai)
+    });
+    
+  } catch (error) {
+    console.error('Error updating AI settings:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import Org from '@/models/Org';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { autoAssignmentSchema } from '@/lib/validations';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/settings/assignment
+ * Get the organization's automatic ticket assignment setting
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const orgDetails = await Org.findById(org.orgId);
+    
+    return NextResponse.json({
+      message: 'Assignment settings retrieved successfully',
+      org: org.orgName,
+      autoAssignment: {
+        enabled: orgDetails?.autoAssignment?.enabled ?? false,
+        strategy: orgDetails?.autoAssignment?.strategy ?? 'round-robin'
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error fetching assignment settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/settings/assignment
+ * Turn automatic assignment of new tickets on/off and choose the strategy
+ * Requires: ADMIN role or higher
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = autoAssignmentSchema.parse(body);
+    
+    const orgDetails = await Org.findByIdAndUpdate(
+      org.orgId,
+      {
+        'autoAssignment.enabled': validatedData.enabled,
+        'autoAssignment.strategy': validatedData.strategy
+      },
+      { new: true, runValidators: true }
+    );
+    
+    return NextResponse.json({
+      message: 'Assignment settings updated successfully',
+      org: org.orgName,
+      autoAssignment: {
+        enabled: orgDetails?.autoAssignment?.enabled ?? false,
+        strategy: orgDetails?.autoAssignment?.strategy ?? 'round-robin'
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error updating assignment settings:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import Org from '@/models/Org';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { chatWidgetSettingsSchema } from '@/lib/validations';
+import { getChatWidgetSettings, getWidgetScriptUrl, type ChatWidgetSettings } from '@/lib/chat-widget';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+function serializeChatWidgetSettings(settings: ChatWidgetSettings, scriptUrl: string, orgSlug: string) {
+  return {
+    ...settings,
+    // Paste before </body> on every page that should show the chat
+    embedSnippet: `<script src="${scriptUrl}" data-org="${orgSlug}" async></script>`
+  };
+}
+
+/**
+ * GET /api/settings/chat-widget
+ * Get the organization's chat widget settings and embed snippet
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const orgDetails = await Org.findById(org.orgId);
+    
+    return NextResponse.json({
+      message: 'Chat widget settings retrieved successfully',
+      org: org.orgName,
+      chatWidget: serializeChatWidgetSettings(
+        getChatWidgetSettings(orgDetails),
+        getWidgetScriptUrl(org.orgSlug, request),
+        org.orgSlug
+      )
+    });
+    
+  } catch (error) {
+    console.error('Error fetching chat widget settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/settings/chat-widget
+ * Update the chat widget: on/off, the sites allowed to embed it, and its look
+ * Requires: ADMIN role or higher
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = chatWidgetSettingsSchema.parse(body);
+    
+    // Only the fields provided are changed
+    const update: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(validatedData)) {
+      update[`chatWidget.${key}`] = value;
+    }
+    
+    const orgDetails = await Org.findByIdAndUpdate(
+      org.orgId,
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+    
+    return NextResponse.json({
+      message: 'Chat widget settings updated successfully',
+      org: org.orgName,
+      chatWidget: serializeChatWidgetSettings(
+        getChatWidgetSettings(orgDetails),
+        getWidgetScriptUrl(org.orgSlug, request),
+        org.orgSlug
+      )
+    });
+    
+  } catch (error) {
+    console.error('Error updating chat widget settings:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
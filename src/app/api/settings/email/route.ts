@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import Org from '@/models/Org';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { emailSettingsSchema } from '@/lib/validations';
+import { getOrgSupportAddress } from '@/lib/email/addresses';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type OrgEmailSettings = {
+  branding?: {
+    fromName?: string | null;
+    logoUrl?: string | null;
+    primaryColor?: string | null;
+    signature?: string | null;
+    footer?: string | null;
+  } | null;
+  notifyOn?: { ticketCreated?: boolean | null; agentReply?: boolean | null; statusChange?: boolean | null } | null;
+} | null | undefined;
+
+function serializeEmailSettings(email: OrgEmailSettings, orgSlug: string) {
+  return {
+    // Where customers can write in (null until inbound email is configured)
+    supportAddress: getOrgSupportAddress(orgSlug),
+    branding: {
+      fromName: email?.branding?.fromName ?? '',
+      logoUrl: email?.branding?.logoUrl ?? '',
+      primaryColor: email?.branding?.primaryColor ?? '#2563eb',
+      signature: email?.branding?.signature ?? '',
+      footer: email?.branding?.footer ?? ''
+    },
+    notifyOn: {
+      ticketCreated: email?.notifyOn?.ticketCreated ?? true,
+      agentReply: email?.notifyOn?.agentReply ?? true,
+      statusChange: email?.notifyOn?.statusChange ?? true
+    }
+  };
+}
+
+/**
+ * GET /api/settings/email
+ * Get the organization's customer email branding and notification settings
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const orgDetails = await Org.findById(org.orgId);
+    
+    return NextResponse.json({
+      message: 'Email settings retrieved successfully',
+      org: org.orgName,
+      email: serializeEmailSettings(orgDetails?.email, org.orgSlug)
+    });
+    
+  } catch (error) {
+    console.error('Error fetching email settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/settings/email
+ * Update customer email branding and which ticket events email the requester
+ * Requires: ADMIN role or higher
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = emailSettingsSchema.parse(body);
+    
+    // Only the fields provided are changed
+    const update: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(validatedData.branding ?? {})) {
+      update[`email.branding.${key}`] = value;
+    }
+    for (const [key, value] of Object.entries(validatedData.notifyOn ?? {})) {
+      update[`email.notifyOn.${key}`] = value;
+    }
+    
+    const orgDetails = await Org.findByIdAndUpdate(
+      org.orgId,
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+    
+    return NextResponse.json({
+      message: 'Email settings updated successfully',
+      org: org.orgName,
+      email: serializeEmailSettings(orgDetails?.email, org.orgSlug)
+    });
+    
+  } catch (error) {
+    console.error('Error updating email settings:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
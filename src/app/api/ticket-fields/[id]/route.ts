@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import { connectToDB } from '@/app/lib/db';
+import TicketField from '@/models/TicketField';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { updateTicketFieldSchema } from '@/lib/validations';
+import { serializeTicketField } from '@/lib/ticket-fields';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/ticket-fields/[id]
+ * Update a custom field's label, options, required flag or position
+ * (key and type are fixed once tickets may hold values for the field)
+ * Requires: ADMIN role or higher
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = updateTicketFieldSchema.parse(body);
+    
+    const { id } = await params;
+    const field = isValidObjectId(id)
+      ? await TicketField.findOne({ _id: id, orgId: org.orgId })
+      : null;
+    if (!field) {
+      return NextResponse.json({ error: 'Ticket field not found' }, { status: 404 });
+    }
+    
+    if (field.type === 'dropdown' && validatedData.options?.length === 0) {
+      return NextResponse.json(
+        { error: 'Dropdown fields need at least one option' },
+        { status: 400 }
+      );
+    }
+    
+    field.set(validatedData);
+    await field.save();
+    
+    return NextResponse.json({
+      message: 'Ticket field updated successfully',
+      org: org.orgName,
+      field: serializeTicketField(field)
+    });
+    
+  } catch (error) {
+    console.error('Error updating ticket field:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/ticket-fields/[id]
+ * Remove a custom field definition (existing ticket values are left in place)
+ * Requires: ADMIN role or higher
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { id } = await params;
+    const field = isValidObjectId(id)
+      ? await TicketField.findOneAndDelete({ _id: id, orgId: org.orgId })
+      : null;
+    if (!field) {
+      return NextResponse.json({ error: 'Ticket field not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({
+      message: 'Ticket field deleted successfully',
+      org: org.orgName
+    });
+    
+  } catch (error) {
+    console.error('Error deleting ticket field:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import TicketField from '@/models/TicketField';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { createTicketFieldSchema } from '@/lib/validations';
+import { listTicketFields, serializeTicketField } from '@/lib/ticket-fields';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/ticket-fields
+ * Get the organization's custom ticket field definitions
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const fields = await listTicketFields(org.orgId);
+    
+    return NextResponse.json({
+      message: 'Ticket fields retrieved successfully',
+      org: org.orgName,
+      fields: fields.map(serializeTicketField)
+    });
+    
+  } catch (error) {
+    console.error('Error fetching ticket fields:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/ticket-fields
+ * Define a new custom ticket field
+ * Requires: ADMIN role or higher
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = createTicketFieldSchema.parse(body);
+    
+    // Field keys are unique per organization
+    const existingField = await TicketField.findOne({ orgId: org.orgId, key: validatedData.key });
+    if (existingField) {
+      return NextResponse.json(
+        { error: 'A field with this key already exists' },
+        { status: 400 }
+      );
+    }
+    
+    const field = await TicketField.create({
+      ...validatedData,
+      orgId: org.orgId
+    });
+    
+    return NextResponse.json({
+      message: 'Ticket field created successfully',
+      org: org.orgName,
+      field: serializeTicketField(field)
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error creating ticket field:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { Types } from 'mongoose';
+import Ticket, { type TicketDocument } from '@/models/Ticket';
+
+const state = { ticket: null as TicketDocument | null };
+
+vi.mock('@/app/lib/db', () => ({ connectToDB: vi.fn() }));
+vi.mock('@/lib/auth', () => ({
+  getTokenFromRequest: () => 'token',
+  verifyToken: () => ({ userId: '65f0000000000000000000aa' })
+}));
+vi.mock('@/lib/multi-tenant', () => ({
+  validateOrgContext: async () => ({ org: { orgId: 'org-1', orgName: 'Acme' } }),
+  getUserFromRequest: () => ({ userRole: 'ADMIN' }),
+  validateMinimumRole: () => ({ authorized: true }),
+  hasMinimumRole: () => true,
+  validateUserBelongsToOrg: async () => true
+}));
+vi.mock('@/models/Org', () => ({ default: { findById: async () => null } }));
+vi.mock('@/lib/tickets', () => ({
+  findTicketForOrg: async () => state.ticket,
+  serializeTicket: (ticket: TicketDocument) => ({ id: ticket._id })
+}));
+vi.mock('@/lib/ticket-notifications', () => ({ notifyStatusChange: vi.fn() }));
+vi.mock('@/lib/webhooks', () => ({ emitTicketWebhook: vi.fn() }));
+
+const { PATCH, DELETE } = await import('@/app/api/tickets/[id]/route');
+const { emitTicketWebhook } = await import('@/lib/webhooks');
+
+const ticketId = '65f000000000000000000001';
+const context = { params: Promise.resolve({ id: ticketId }) };
+
+function loadTicket(): TicketDocument {
+  const ticket: TicketDocument = Ticket.hydrate({
+    _id: new Types.ObjectId(ticketId),
+    orgId: new Types.ObjectId(),
+    subject: 'Broken checkout',
+    description: 'It fails',
+    requester: { name: 'Jane', email: 'jane@example.com' },
+    status: 'open',
+    priority: 'normal',
+    tags: ['billing'],
+    assigneeId: null,
+    statusHistory: []
+  });
+  vi.spyOn(ticket, 'save').mockResolvedValue(ticket);
+  return ticket;
+}
+
+async function send(handler: typeof PATCH, init: { method: string; body?: string }): Promise<Response> {
+  const response = await handler(new NextRequest(`http://acme.localhost:3000/api/tickets/${ticketId}`, init), context);
+  if (!response) {
+    throw new Error('No response');
+  }
+  return response;
+}
+
+function patchTicket(body: unknown) {
+  return send(PATCH, { method: 'PATCH', body: JSON.stringify(body) });
+}
+
+describe('PATCH /api/tickets/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.ticket = loadTicket();
+  });
+
+  it('reports only the fields that changed', async () => {
+    const response = await patchTicket({ subject: 'Broken checkout', priority: 'high', tags: ['billing'] });
+
+    expect(response.status).toBe(200);
+    expect(emitTicketWebhook).toHaveBeenCalledWith('ticket.updated', state.ticket, ['priority']);
+  });
+
+  it('reports a status change without its history entry', async () => {
+    await patchTicket({ status: 'solved' });
+
+    expect(emitTicketWebhook).toHaveBeenCalledWith('ticket.updated', state.ticket, ['status']);
+  });
+
+  it('emits nothing when the update changes nothing', async () => {
+    const response = await patchTicket({ subject: 'Broken checkout', status: 'open', priority: 'normal' });
+
+    expect(response.status).toBe(200);
+    expect(emitTicketWebhook).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /api/tickets/[id]', () => {
+  it('tells integrations the ticket was deleted', async () => {
+    const ticket = state.ticket = loadTicket();
+
+    const response = await send(DELETE, { method: 'DELETE' });
+
+    expect(response.status).toBe(200);
+    expect(ticket.deletedAt).toBeInstanceOf(Date);
+    expect(emitTicketWebhook).toHaveBeenCalledWith('ticket.deleted', ticket);
+  });
+});
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import Org from '@/models/Org';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { findTicketForOrg } from '@/lib/tickets';
+import {
+  validateAttachmentUpload,
+  storeAttachment,
+  serializeAttachment
+} from '@/lib/attachments';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/tickets/[id]/attachments
+ * Upload a file (multipart/form-data, field "file") to attach to a message on this ticket.
+ * Pass the returned id in `attachmentIds` when posting the message.
+ * Requires: AGENT role or higher
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { id } = await params;
+    const ticket = await findTicketForOrg(id, org.orgId);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 });
+    }
+    
+    // Size and content-type limits depend on the org's plan
+    const orgDetails = await Org.findById(org.orgId);
+    const uploadError = validateAttachmentUpload(orgDetails?.plan, file.size, file.type);
+    if (uploadError) {
+      return NextResponse.json({ error: uploadError }, { status: 400 });
+    }
+    
+    const attachment = await storeAttachment({
+      orgId: org.orgId,
+      ticketId: ticket._id,
+      filename: file.name,
+      contentType: file.type,
+      body: Buffer.from(await file.arrayBuffer()),
+      uploadedBy: payload.userId
+    });
+    
+    return NextResponse.json({
+      message: 'Attachment uploaded successfully',
+      org: org.orgName,
+      attachment: serializeAttachment(attachment)
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import User from '@/models/User';
+import TicketMessage from '@/models/TicketMessage';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { createTicketMessageSchema } from '@/lib/validations';
+import {
+  findTicketForOrg,
+  listTicketMessages,
+  serializeTicketMessage
+} from '@/lib/tickets';
+import {
+  validatePendingAttachments,
+  linkAttachmentsToMessage,
+  listMessageAttachments
+} from '@/lib/attachments';
+import { refreshTicketSummary } from '@/lib/ticket-summary';
+import { translateAgentReply } from '@/lib/message-translation';
+import { AIQuotaExceededError } from '@/lib/ai-usage';
+import { notifyAgentReply } from '@/lib/ticket-notifications';
+import { emitMessageWebhook } from '@/lib/webhooks';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/tickets/[id]/messages
+ * Get the ticket's conversation thread, including internal notes.
+ * Customer messages in another language include the translation for agents
+ * made when they arrived.
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { id } = await params;
+    const ticket = await findTicketForOrg(id, org.orgId);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    const messages = await listTicketMessages(id, org.orgId, 'agent');
+    
+    const attachments = await listMessageAttachments(
+      org.orgId,
+      messages.map((message) => message._id)
+    );
+    
+    return NextResponse.json({
+      message: 'Messages retrieved successfully',
+      org: org.orgName,
+      messages: messages.map((message) => ({
+        ...serializeTicketMessage(message),
+        attachments: attachments.get(message._id.toString()) ?? []
+      }))
+    });
+    
+  } catch (error) {
+    console.error('Error fetching ticket messages:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tickets/[id]/messages
+ * Post a public reply or an internal note on the ticket.
+ * With { translate: true } a public reply is sent in the ticket's language;
+ * the original and the translation are both stored.
+ * Requires: AGENT role or higher
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = createTicketMessageSchema.parse(body);
+    
+    const { id } = await params;
+    const ticket = await findTicketForOrg(id, org.orgId);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    // Author must be a user of this organization
+    const author = await User.findOne({ _id: payload.userId, orgId: org.orgId });
+    if (!author) {
+      return NextResponse.json(
+        { error: 'User not found in this organization' },
+        { status: 404 }
+      );
+    }
+    
+    // Attachments must be uploaded to this ticket and not yet used
+    const attachmentsValid = await validatePendingAttachments(
+      org.orgId,
+      ticket._id,
+      validatedData.attachmentIds
+    );
+    if (!attachmentsValid) {
+      return NextResponse.json(
+        { error: 'Invalid attachments for this ticket' },
+        { status: 400 }
+      );
+    }
+    
+    // Optionally send a public reply in the customer's language
+    let language: string | null = null;
+    let translation = null;
+    if (validatedData.translate && validatedData.visibility === 'public') {
+      const translated = await translateAgentReply(ticket, validatedData.body, payload.userId);
+      if ('error' in translated) {
+        return NextResponse.json({ error: translated.error }, { status: translated.status });
+      }
+      ({ language, translation } = translated);
+    }
+    
+    const message = await TicketMessage.create({
+      orgId: org.orgId,
+      ticketId: ticket._id,
+      authorType: 'agent',
+      authorId: author._id,
+      authorName: author.name,
+      authorEmail: author.email,
+      body: validatedData.body,
+      visibility: validatedData.visibility,
+      language,
+      translation
+    });
+    await linkAttachmentsToMessage(org.orgId, ticket._id, message._id, validatedData.attachmentIds);
+    const messageAttachments = await listMessageAttachments(org.orgId, [message._id]);
+    
+    // The first public agent reply stops the first-response SLA clock
+    if (message.visibility === 'public' && !ticket.firstRespondedAt) {
+      ticket.firstRespondedAt = message.createdAt;
+      await ticket.save();
+    }
+    
+    await emitMessageWebhook(ticket, message);
+    
+    // Public replies are emailed to the requester
+    await notifyAgentReply(ticket, message);
+    
+    // Keep the AI handoff summary in step with the conversation, without
+    // holding up the response
+    after(() => refreshTicketSummary(ticket, message));
+    
+    return NextResponse.json({
+      message: 'Message created successfully',
+      org: org.orgName,
+      ticketMessage: {
+        ...serializeTicketMessage(message),
+        attachments: messageAttachments.get(message._id.toString()) ?? []
+      }
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error creating ticket message:', error);
+    
+    if (error instanceof AIQuotaExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 429 });
+    }
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
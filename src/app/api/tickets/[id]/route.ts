@@ -0,0 +1,268 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import Org from '@/models/Org';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import {
+  validateOrgContext,
+  validateMinimumRole,
+  validateUserBelongsToOrg,
+  getUserFromRequest
+} from '@/lib/multi-tenant';
+import { updateTicketSchema } from '@/lib/validations';
+import { findTicketForOrg, serializeTicket } from '@/lib/tickets';
+import {
+  getOrgTransitions,
+  validateStatusTransition,
+  applyStatusTransition,
+  computeTimeInStatus,
+  type TicketStatus
+} from '@/lib/ticket-workflow';
+import { getOrgSlaPolicy, computeTicketSla } from '@/lib/sla';
+import { validateCustomFields, applyCustomFields } from '@/lib/ticket-fields';
+import { listTicketRequestAttachments } from '@/lib/attachments';
+import { notifyStatusChange } from '@/lib/ticket-notifications';
+import { emitTicketWebhook } from '@/lib/webhooks';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/tickets/[id]
+ * Get a single ticket in the organization
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    // Query with BOTH id AND orgId to prevent cross-org access
+    const { id } = await params;
+    const ticket = await findTicketForOrg(id, org.orgId);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    const orgDetails = await Org.findById(org.orgId);
+    const attachments = await listTicketRequestAttachments(org.orgId, ticket._id);
+    
+    return NextResponse.json({
+      message: 'Ticket retrieved successfully',
+      org: org.orgName,
+      ticket: {
+        ...serializeTicket(ticket),
+        statusHistory: ticket.statusHistory,
+        timeInStatus: computeTimeInStatus(ticket),
+        sla: computeTicketSla(ticket, getOrgSlaPolicy(orgDetails)),
+        attachments
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error fetching ticket:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/tickets/[id]
+ * Update a ticket's fields
+ * Requires: AGENT role or higher
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = updateTicketSchema.parse(body);
+    
+    const { id } = await params;
+    const ticket = await findTicketForOrg(id, org.orgId);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    const { status, customFields, ...fields } = validatedData;
+    const previousStatus = ticket.status as TicketStatus;
+    
+    // Assignee must belong to this organization (null unassigns)
+    if (fields.assigneeId) {
+      const belongs = await validateUserBelongsToOrg(fields.assigneeId, org.orgId);
+      if (!belongs) {
+        return NextResponse.json(
+          { error: 'Assignee not found in this organization' },
+          { status: 400 }
+        );
+      }
+    }
+    
+    // Status changes go through the org's workflow
+    if (status && status !== ticket.status) {
+      const orgDetails = await Org.findById(org.orgId);
+      const transitionCheck = validateStatusTransition(
+        getOrgTransitions(orgDetails),
+        ticket.status as TicketStatus,
+        status,
+        userRole
+      );
+      if (!transitionCheck.allowed) {
+        return transitionCheck.error;
+      }
+      applyStatusTransition(ticket, status, payload.userId);
+    }
+    
+    // Custom field values must match the org's field definitions
+    if (customFields) {
+      const customFieldCheck = await validateCustomFields(org.orgId, customFields, ticket.customFields);
+      if ('errors' in customFieldCheck) {
+        return NextResponse.json(
+          { error: 'Invalid custom fields', details: customFieldCheck.errors },
+          { status: 400 }
+        );
+      }
+      applyCustomFields(ticket.customFields, customFieldCheck.values);
+    }
+    
+    ticket.set(fields);
+    // Top-level fields whose values actually changed; the status history
+    // follows from the status
+    const changes = ticket.modifiedPaths()
+      .filter((path) => !path.includes('.') && path !== 'statusHistory');
+    await ticket.save();
+    
+    if (changes.length > 0) {
+      await emitTicketWebhook('ticket.updated', ticket, changes);
+    }
+    
+    if (status && status !== previousStatus) {
+      await notifyStatusChange(ticket, previousStatus, status);
+    }
+    
+    return NextResponse.json({
+      message: 'Ticket updated successfully',
+      org: org.orgName,
+      ticket: serializeTicket(ticket)
+    });
+    
+  } catch (error) {
+    console.error('Error updating ticket:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/tickets/[id]
+ * Soft-delete a ticket (hidden from all ticket queries)
+ * Requires: ADMIN role or higher
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { id } = await params;
+    const ticket = await findTicketForOrg(id, org.orgId);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    ticket.deletedAt = new Date();
+    await ticket.save();
+    
+    await emitTicketWebhook('ticket.deleted', ticket);
+    
+    return NextResponse.json({
+      message: 'Ticket deleted successfully',
+      org: org.orgName
+    });
+    
+  } catch (error) {
+    console.error('Error deleting ticket:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
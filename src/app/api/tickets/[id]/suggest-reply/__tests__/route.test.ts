@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { FakeAIProvider } from '@/lib/ai/fake';
+import { RedactingAIProvider } from '@/lib/ai/redacting';
+import { BUILT_IN_REDACTION_RULES } from '@/lib/ai/redaction';
+import type { AIProvider, ChatCompletionRequest, ChatCompletionResult } from '@/lib/ai/provider';
+
+const state: { provider: AIProvider | null } = { provider: null };
+
+vi.mock('@/app/lib/db', () => ({ connectToDB: vi.fn() }));
+vi.mock('@/lib/auth', () => ({
+  getTokenFromRequest: () => 'token',
+  verifyToken: () => ({ userId: 'user-1' })
+}));
+vi.mock('@/lib/multi-tenant', () => ({
+  validateOrgContext: async () => ({ org: { orgId: 'org-1', orgName: 'Acme' } }),
+  getUserFromRequest: () => ({ userRole: 'AGENT' }),
+  validateMinimumRole: () => ({ authorized: true })
+}));
+vi.mock('@/lib/tickets', () => ({ findTicketForOrg: async () => ({ _id: 'ticket-1' }) }));
+vi.mock('@/lib/reply-suggestions', () => ({
+  buildSuggestionPrompt: async () => [{ role: 'user', content: 'Reply to jane@example.com' }]
+}));
+vi.mock('@/lib/org-ai', () => ({ getOrgAIProvider: async () => state.provider }));
+vi.mock('@/lib/ai-usage', () => ({ AIQuotaExceededError: class extends Error {} }));
+
+const { POST } = await import('@/app/api/tickets/[id]/suggest-reply/route');
+
+/**
+ * Streams in three-character chunks, so placeholders arrive split
+ */
+class ChunkingProvider extends FakeAIProvider {
+  async chatStream(
+    request: ChatCompletionRequest,
+    onDelta: (text: string) => void
+  ): Promise<ChatCompletionResult> {
+    const result = await this.chat(request);
+    for (let i = 0; i < result.content.length; i += 3) {
+      onDelta(result.content.slice(i, i + 3));
+    }
+    return result;
+  }
+}
+
+async function suggestReply(body: unknown, signal?: AbortSignal): Promise<Response> {
+  const request = new NextRequest('http://acme.localhost:3000/api/tickets/ticket-1/suggest-reply', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    signal
+  });
+  const response = await POST(request, { params: Promise.resolve({ id: 'ticket-1' }) });
+  if (!response) {
+    throw new Error('No response');
+  }
+  return response;
+}
+
+function parseEvents(text: string): { event: string; data: Record<string, unknown> }[] {
+  return text.trim().split('\n\n').map((block) => {
+    const [eventLine, dataLine] = block.split('\n');
+    return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+  });
+}
+
+describe('POST /api/tickets/[id]/suggest-reply', () => {
+  beforeEach(() => {
+    state.provider = null;
+    vi.restoreAllMocks();
+  });
+
+  it('returns drafts made with distinct temperatures', async () => {
+    const fake = new FakeAIProvider(['First', 'Second']);
+    state.provider = fake;
+
+    const response = await suggestReply({ count: 2 });
+
+    expect(await response.json()).toMatchObject({ drafts: [{ content: 'First' }, { content: 'Second' }] });
+    expect(fake.requests.map((request) => request.temperature)).toEqual([0.4, 0.7]);
+  });
+
+  it('streams delta, draft and done events, restoring redacted values split across chunks', async () => {
+    const fake = new ChunkingProvider([
+      (request) => `Hi, we wrote to ${request.messages[0].content.replace('Reply to ', '')} today.`
+    ]);
+    state.provider = new RedactingAIProvider(fake, BUILT_IN_REDACTION_RULES);
+
+    const response = await suggestReply({ stream: true });
+    const events = parseEvents(await response.text());
+
+    // The model only ever saw the placeholder
+    expect(fake.requests[0].messages[0].content).toBe('Reply to [EMAIL_1]');
+    const deltas = events.filter((e) => e.event === 'delta').map((e) => e.data.text).join('');
+    expect(deltas).toBe('Hi, we wrote to jane@example.com today.');
+    expect(events.slice(-2)).toEqual([
+      { event: 'draft', data: { draft: 0, content: 'Hi, we wrote to jane@example.com today.' } },
+      { event: 'done', data: {} }
+    ]);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+  });
+
+  it('ends the stream with an error event when the model fails', async () => {
+    state.provider = new FakeAIProvider([
+      () => {
+        throw new Error('model down');
+      }
+    ]);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await suggestReply({ stream: true });
+
+    expect(parseEvents(await response.text())).toEqual([
+      { event: 'error', data: { error: 'Failed to generate reply suggestions' } }
+    ]);
+  });
+
+  it('stops generating drafts once the client disconnects', async () => {
+    const abort = new AbortController();
+    const fake = new FakeAIProvider([
+      () => {
+        abort.abort();
+        return 'First draft';
+      }
+    ]);
+    state.provider = fake;
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await suggestReply({ stream: true, count: 3 }, abort.signal);
+    const reader = response.body!.getReader();
+    await reader.cancel();
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(fake.requests).toHaveLength(1);
+    // Writing to the closed stream would have thrown and been logged
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('reports a missing AI provider', async () => {
+    const response = await suggestReply({});
+    expect(response.status).toBe(503);
+  });
+});
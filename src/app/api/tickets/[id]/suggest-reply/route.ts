@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { suggestReplySchema } from '@/lib/validations';
+import { findTicketForOrg } from '@/lib/tickets';
+import { buildSuggestionPrompt } from '@/lib/reply-suggestions';
+import { getOrgAIProvider } from '@/lib/org-ai';
+import { AIQuotaExceededError } from '@/lib/ai-usage';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Slightly varied temperatures so multiple drafts differ
+const DRAFT_TEMPERATURES = [0.4, 0.7, 0.9];
+
+/**
+ * POST /api/tickets/[id]/suggest-reply
+ * Draft one or more replies for the agent to edit and send.
+ * With { stream: true } the drafts are streamed as server-sent events:
+ *   delta { draft, text } ... draft { draft, content } ... done
+ * Requires: AGENT role or higher
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json().catch(() => ({}));
+    
+    // Validate input
+    const { count, stream, instructions } = suggestReplySchema.parse(body);
+    
+    const provider = await getOrgAIProvider(org.orgId, {
+      feature: 'reply-suggestion',
+      userId: payload.userId
+    });
+    if (!provider) {
+      return NextResponse.json({ error: 'AI features are not configured' }, { status: 503 });
+    }
+    
+    const { id } = await params;
+    const ticket = await findTicketForOrg(id, org.orgId);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    const messages = await buildSuggestionPrompt(provider, ticket, org.orgId, instructions);
+    
+    if (!stream) {
+      const drafts = [];
+      for (let i = 0; i < count; i++) {
+        const completion = await provider.chat({ messages, temperature: DRAFT_TEMPERATURES[i] });
+        drafts.push({ content: completion.content.trim() });
+      }
+      
+      return NextResponse.json({
+        message: 'Reply suggestions generated successfully',
+        org: org.orgName,
+        drafts
+      });
+    }
+    
+    // Stream drafts one after another as server-sent events. Once the client
+    // disconnects, writes are dropped and no further drafts are generated.
+    const encoder = new TextEncoder();
+    let closed = false;
+    const eventStream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (closed || request.signal.aborted) {
+            return;
+          }
+          try {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          } catch {
+            closed = true;
+          }
+        };
+        
+        try {
+          for (let draft = 0; draft < count && !closed && !request.signal.aborted; draft++) {
+            const completion = await provider.chatStream(
+              { messages, temperature: DRAFT_TEMPERATURES[draft] },
+              (text) => send('delta', { draft, text })
+            );
+            send('draft', { draft, content: completion.content.trim() });
+          }
+          send('done', {});
+        } catch (error) {
+          console.error('Error streaming reply suggestions:', error);
+          send('error', {
+            error: error instanceof AIQuotaExceededError
+              ? error.message
+              : 'Failed to generate reply suggestions'
+          });
+        } finally {
+          if (!closed) {
+            closed = true;
+            try {
+              controller.close();
+            } catch {
+              // Already closed by the client going away
+            }
+          }
+        }
+      },
+      cancel() {
+        closed = true;
+      }
+    });
+    
+    return new NextResponse(eventStream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error generating reply suggestions:', error);
+    
+    if (error instanceof AIQuotaExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 429 });
+    }
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { findTicketForOrg } from '@/lib/tickets';
+import { generateTicketSummary } from '@/lib/ticket-summary';
+import { getOrgAIProvider } from '@/lib/org-ai';
+import { AIQuotaExceededError } from '@/lib/ai-usage';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/tickets/[id]/summary
+ * Regenerate the AI handoff summary of the ticket thread (stored as ticket.aiSummary)
+ * Requires: AGENT role or higher
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const provider = await getOrgAIProvider(org.orgId, {
+      feature: 'summary',
+      userId: payload.userId
+    });
+    if (!provider) {
+      return NextResponse.json({ error: 'AI features are not configured' }, { status: 503 });
+    }
+    
+    const { id } = await params;
+    const ticket = await findTicketForOrg(id, org.orgId);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    const summary = await generateTicketSummary(provider, ticket);
+    
+    return NextResponse.json({
+      message: 'Ticket summary generated successfully',
+      org: org.orgName,
+      summary
+    });
+    
+  } catch (error) {
+    console.error('Error summarizing ticket:', error);
+    
+    if (error instanceof AIQuotaExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 429 });
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { triageOverrideSchema } from '@/lib/validations';
+import { findTicketForOrg, serializeTicket } from '@/lib/tickets';
+import { applyTriageOverride } from '@/lib/ticket-triage';
+import { translateTicketThread } from '@/lib/message-translation';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/tickets/[id]/triage
+ * Override AI triage results (category, tags, priority, sentiment, language)
+ * Requires: AGENT role or higher
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = triageOverrideSchema.parse(body);
+    
+    const { id } = await params;
+    const ticket = await findTicketForOrg(id, org.orgId);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+    
+    const overrideError = await applyTriageOverride(ticket, validatedData);
+    if (overrideError) {
+      return NextResponse.json({ error: overrideError }, { status: 400 });
+    }
+    await ticket.save();
+    
+    // Customer messages are translated when they arrive; catch up on those
+    // that came in before the language was known
+    if (validatedData.language !== undefined) {
+      after(() => translateTicketThread(ticket, payload.userId));
+    }
+    
+    return NextResponse.json({
+      message: 'Triage updated successfully',
+      org: org.orgName,
+      ticket: serializeTicket(ticket)
+    });
+    
+  } catch (error) {
+    console.error('Error updating ticket triage:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
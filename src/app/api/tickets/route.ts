@@ -1,14 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connectToDB } from '@/app/lib/db';
+import Ticket from '@/models/Ticket';
+import Org from '@/models/Org';
 import { verifyToken, getTokenFromRequest } from '@/lib/auth';
-import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import {
+  validateOrgContext,
+  validateMinimumRole,
+  validateUserBelongsToOrg,
+  getUserFromRequest
+} from '@/lib/multi-tenant';
+import { createTicketSchema, ticketQuerySchema } from '@/lib/validations';
+import { serializeTicket } from '@/lib/tickets';
+import { getOrgSlaPolicy, computeTicketSla } from '@/lib/sla';
+import { autoAssignTicket } from '@/lib/assignment';
+import { searchTickets, searchParamsToObject } from '@/lib/ticket-search';
+import { findAccessibleView } from '@/lib/saved-views';
+import { validateCustomFields } from '@/lib/ticket-fields';
+import { scheduleNewTicketAutomation } from '@/lib/ticket-intake';
 
 // Force Node.js runtime
 export const runtime = 'nodejs';
 
 /**
  * GET /api/tickets
- * Get all tickets for the organization
+ * Search the organization's tickets
+ * Query: status, priority, assignee (id | me | none), tag, createdAfter, createdBefore,
+ *        q (text over subject/description/messages), sort, limit, cursor,
+ *        view (saved view id whose filter is applied under any explicit params)
  * Requires: AGENT role or higher
  */
 export async function GET(request: NextRequest) {
@@ -40,17 +58,53 @@ export async function GET(request: NextRequest) {
       return roleCheck.error;
     }
     
-    // TODO: Query tickets collection scoped to org.orgId
-    // Example: const tickets = await Ticket.find({ orgId: org.orgId });
+    const rawParams = searchParamsToObject(request.nextUrl.searchParams);
+    
+    // Start from a saved view's filter when one is requested
+    let viewFilter = {};
+    if (rawParams.view) {
+      const view = await findAccessibleView(rawParams.view, org.orgId, payload.userId);
+      if (!view) {
+        return NextResponse.json({ error: 'View not found' }, { status: 404 });
+      }
+      viewFilter = view.filter ?? {};
+    }
+    
+    // Validate query params
+    const params = ticketQuerySchema.parse({ ...viewFilter, ...rawParams });
+    
+    // Search tickets in this organization (scoped query)
+    const result = await searchTickets(org.orgId, payload.userId, params);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    const { tickets, nextCursor } = result;
+    
+    // Attach SLA due dates and breach flags
+    const orgDetails = await Org.findById(org.orgId);
+    const slaPolicy = getOrgSlaPolicy(orgDetails);
+    const now = new Date();
     
     return NextResponse.json({
       message: 'Tickets retrieved successfully',
       org: org.orgName,
-      tickets: [] // Replace with actual tickets
+      tickets: tickets.map((ticket) => ({
+        ...serializeTicket(ticket),
+        sla: computeTicketSla(ticket, slaPolicy, now)
+      })),
+      nextCursor
     });
     
   } catch (error) {
     console.error('Error fetching tickets:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.message },
+        { status: 400 }
+      );
+    }
+    
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
@@ -91,17 +145,66 @@ export async function POST(request: NextRequest) {
     
     const body = await request.json();
     
-    // TODO: Create ticket with orgId
-    // Example: const ticket = await Ticket.create({ ...body, orgId: org.orgId });
+    // Validate input
+    const validatedData = createTicketSchema.parse(body);
+    
+    // Explicit assignee must belong to this organization; otherwise try auto-assignment
+    let assigneeId = validatedData.assigneeId ?? null;
+    if (assigneeId) {
+      const belongs = await validateUserBelongsToOrg(assigneeId, org.orgId);
+      if (!belongs) {
+        return NextResponse.json(
+          { error: 'Assignee not found in this organization' },
+          { status: 400 }
+        );
+      }
+    } else if (validatedData.assigneeId === undefined) {
+      assigneeId = (await autoAssignTicket(org.orgId))?.toString() ?? null;
+    }
+    
+    // Custom field values must match the org's field definitions
+    const customFieldCheck = await validateCustomFields(org.orgId, validatedData.customFields ?? {});
+    if ('errors' in customFieldCheck) {
+      return NextResponse.json(
+        { error: 'Invalid custom fields', details: customFieldCheck.errors },
+        { status: 400 }
+      );
+    }
+    const customFields = Object.fromEntries(
+      Object.entries(customFieldCheck.values).filter(([, value]) => value !== null)
+    );
+    
+    // Create ticket scoped to this organization
+    const ticket = await Ticket.create({
+      ...validatedData,
+      customFields,
+      assigneeId,
+      orgId: org.orgId,
+      createdBy: payload.userId,
+      status: 'new',
+      statusHistory: [{ from: null, to: 'new', actorId: payload.userId }]
+    });
+    
+    // AI triage, webhook, acknowledgement email and AI first response run
+    // after the response is sent
+    scheduleNewTicketAutomation(ticket, { priorityProvided: validatedData.priority !== undefined });
     
     return NextResponse.json({
       message: 'Ticket created successfully',
       org: org.orgName,
-      ticket: { ...body, orgId: org.orgId } // Replace with actual ticket
+      ticket: serializeTicket(ticket)
     }, { status: 201 });
     
   } catch (error) {
     console.error('Error creating ticket:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { aiUsageQuerySchema } from '@/lib/validations';
+import { getAIQuota, getAIUsageReport } from '@/lib/ai-usage';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * GET /api/usage
+ * AI token usage and estimated cost, with daily and per-feature breakdowns
+ * (?from=YYYY-MM-DD&to=YYYY-MM-DD, defaults to the current month)
+ * Requires: OWNER role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum OWNER)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'OWNER');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { searchParams } = request.nextUrl;
+    const query = aiUsageQuerySchema.parse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined
+    });
+    
+    // Default to the current month so far
+    const now = new Date();
+    const from = query.from
+      ? new Date(`${query.from}T00:00:00Z`)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const to = query.to ? new Date(`${query.to}T00:00:00Z`) : now;
+    // `to` is inclusive, so report up to the start of the following day
+    const until = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate() + 1));
+    
+    if (until.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json(
+        { error: `Date range must be at most ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+    
+    const [quota, report] = await Promise.all([
+      getAIQuota(org.orgId, now),
+      getAIUsageReport(org.orgId, from, until)
+    ]);
+    
+    return NextResponse.json({
+      message: 'AI usage retrieved successfully',
+      org: org.orgName,
+      period: {
+        from: from.toISOString().slice(0, 10),
+        to: to.toISOString().slice(0, 10)
+      },
+      quota,
+      ...report
+    });
+    
+  } catch (error) {
+    console.error('Error fetching AI usage:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
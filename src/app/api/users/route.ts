@@ -3,6 +3,7 @@ import { connectToDB } from '@/app/lib/db';
 import User from '@/models/User';
 import { verifyToken, getTokenFromRequest } from '@/lib/auth';
 import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 // Force Node.js runtime
 export const runtime = 'nodejs';
@@ -121,6 +122,11 @@ export async function POST(request: NextRequest) {
     // 2. Send an invitation email
     // 3. Create the user with a pending status
     
+    await emitWebhookEvent(org.orgId, 'user.invited', {
+      user: { name, email, role },
+      invitedBy: payload.userId
+    });
+    
     return NextResponse.json({
       message: 'User invitation sent successfully',
       org: org.orgName,
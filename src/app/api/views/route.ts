@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import SavedView from '@/models/SavedView';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import { createSavedViewSchema } from '@/lib/validations';
+import { listAccessibleViews, countViewTickets, serializeSavedView } from '@/lib/saved-views';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/views
+ * List the user's personal views and the org's shared views, with ticket counts
+ * Requires: AGENT role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const views = await listAccessibleViews(org.orgId, payload.userId);
+    
+    // Counts are evaluated per user (e.g. "assignee: me")
+    const counts = await Promise.all(
+      views.map((view) => countViewTickets(view, org.orgId, payload.userId))
+    );
+    
+    return NextResponse.json({
+      message: 'Views retrieved successfully',
+      org: org.orgName,
+      views: views.map((view, index) => ({
+        ...serializeSavedView(view),
+        ticketCount: counts[index]
+      }))
+    });
+    
+  } catch (error) {
+    console.error('Error fetching views:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/views
+ * Create a saved view (shared views require ADMIN role or higher)
+ * Requires: AGENT role or higher
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum AGENT)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'AGENT');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = createSavedViewSchema.parse(body);
+    
+    // Shared views are visible to everyone, so only ADMIN+ can create them
+    if (validatedData.scope === 'shared') {
+      const sharedCheck = validateMinimumRole(userRole, 'ADMIN');
+      if (!sharedCheck.authorized) {
+        return sharedCheck.error;
+      }
+    }
+    
+    const view = await SavedView.create({
+      ...validatedData,
+      orgId: org.orgId,
+      ownerId: payload.userId
+    });
+    
+    return NextResponse.json({
+      message: 'View created successfully',
+      org: org.orgName,
+      view: serializeSavedView(view)
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error creating view:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import WebhookDelivery, { type WebhookDeliveryDocument } from '@/models/WebhookDelivery';
+import { findWebhookEndpoint, redeliverWebhook, serializeWebhookDelivery } from '@/lib/webhooks';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string; deliveryId: string }> };
+
+/**
+ * POST /api/webhooks/[id]/deliveries/[deliveryId]/redeliver
+ * Send a logged delivery again now and record the attempt
+ * Requires: ADMIN role or higher
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { id, deliveryId } = await params;
+    const endpoint = await findWebhookEndpoint(id, org.orgId);
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+    
+    const delivery: WebhookDeliveryDocument | null = isValidObjectId(deliveryId)
+      ? await WebhookDelivery.findOne({ _id: deliveryId, orgId: org.orgId, endpointId: endpoint._id })
+      : null;
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+    
+    // Sent now, even if the endpoint is disabled, so it can be tested
+    await redeliverWebhook(delivery, endpoint);
+    
+    return NextResponse.json({
+      message: 'Webhook redelivered successfully',
+      org: org.orgName,
+      delivery: serializeWebhookDelivery(delivery, { withPayload: true })
+    });
+    
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import WebhookDelivery, { type WebhookDeliveryDocument } from '@/models/WebhookDelivery';
+import { webhookDeliveryQuerySchema } from '@/lib/validations';
+import { findWebhookEndpoint, serializeWebhookDelivery } from '@/lib/webhooks';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/webhooks/[id]/deliveries
+ * Delivery log for a webhook endpoint, newest first: status codes and every attempt (last 30 days)
+ * Requires: ADMIN role or higher
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    // Validate input
+    const { status, event, limit } = webhookDeliveryQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    
+    const { id } = await params;
+    const endpoint = await findWebhookEndpoint(id, org.orgId);
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+    
+    const query: Record<string, unknown> = { orgId: org.orgId, endpointId: endpoint._id };
+    if (status) {
+      query.status = status;
+    }
+    if (event) {
+      query.event = event;
+    }
+    const deliveries: WebhookDeliveryDocument[] = await WebhookDelivery.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit);
+    
+    return NextResponse.json({
+      message: 'Webhook deliveries retrieved successfully',
+      org: org.orgName,
+      deliveries: deliveries.map((delivery) => serializeWebhookDelivery(delivery, { withPayload: true }))
+    });
+    
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import WebhookDelivery from '@/models/WebhookDelivery';
+import { updateWebhookSchema } from '@/lib/validations';
+import {
+  checkWebhookUrl,
+  createWebhookSecret,
+  findWebhookEndpoint,
+  serializeWebhookEndpoint
+} from '@/lib/webhooks';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/webhooks/[id]
+ * Get a webhook endpoint
+ * Requires: ADMIN role or higher
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { id } = await params;
+    const endpoint = await findWebhookEndpoint(id, org.orgId);
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({
+      message: 'Webhook retrieved successfully',
+      org: org.orgName,
+      webhook: serializeWebhookEndpoint(endpoint)
+    });
+    
+  } catch (error) {
+    console.error('Error fetching webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/webhooks/[id]
+ * Update a webhook endpoint, or rotate its signing secret with { rotateSecret: true }
+ * Requires: ADMIN role or higher
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = updateWebhookSchema.parse(body);
+    
+    const { id } = await params;
+    const endpoint = await findWebhookEndpoint(id, org.orgId);
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+    
+    if (validatedData.url) {
+      const urlError = checkWebhookUrl(validatedData.url);
+      if (urlError) {
+        return NextResponse.json({ error: urlError }, { status: 400 });
+      }
+    }
+    
+    const { rotateSecret, ...fields } = validatedData;
+    endpoint.set(fields);
+    if (rotateSecret) {
+      endpoint.secret = createWebhookSecret();
+    }
+    await endpoint.save();
+    
+    return NextResponse.json({
+      message: 'Webhook updated successfully',
+      org: org.orgName,
+      webhook: serializeWebhookEndpoint(endpoint, { withSecret: rotateSecret })
+    });
+    
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[id]
+ * Delete a webhook endpoint and its delivery log
+ * Requires: ADMIN role or higher
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const { id } = await params;
+    const endpoint = await findWebhookEndpoint(id, org.orgId);
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+    
+    await WebhookDelivery.deleteMany({ orgId: org.orgId, endpointId: endpoint._id });
+    await endpoint.deleteOne();
+    
+    return NextResponse.json({
+      message: 'Webhook deleted successfully',
+      org: org.orgName
+    });
+    
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
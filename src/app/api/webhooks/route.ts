@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { verifyToken, getTokenFromRequest } from '@/lib/auth';
+import { validateOrgContext, validateMinimumRole, getUserFromRequest } from '@/lib/multi-tenant';
+import WebhookEndpoint, { type WebhookEndpointDocument } from '@/models/WebhookEndpoint';
+import { createWebhookSchema } from '@/lib/validations';
+import {
+  WEBHOOK_EVENTS,
+  checkWebhookUrl,
+  createWebhookSecret,
+  serializeWebhookEndpoint
+} from '@/lib/webhooks';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/webhooks
+ * List the organization's webhook endpoints and the events they can subscribe to
+ * Requires: ADMIN role or higher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const endpoints: WebhookEndpointDocument[] = await WebhookEndpoint.find({ orgId: org.orgId })
+      .sort({ createdAt: 1 });
+    
+    return NextResponse.json({
+      message: 'Webhooks retrieved successfully',
+      org: org.orgName,
+      webhooks: endpoints.map((endpoint) => serializeWebhookEndpoint(endpoint)),
+      events: WEBHOOK_EVENTS
+    });
+    
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Register a webhook endpoint. The response includes its signing secret, which is not shown again.
+ * Requires: ADMIN role or higher
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectToDB();
+    
+    // Verify authentication
+    const token = getTokenFromRequest(request);
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    
+    // Validate org context
+    const orgValidation = await validateOrgContext(request);
+    if ('error' in orgValidation) {
+      return orgValidation.error;
+    }
+    const { org } = orgValidation;
+    
+    // Check user role (minimum ADMIN)
+    const { userRole } = getUserFromRequest(request);
+    const roleCheck = validateMinimumRole(userRole, 'ADMIN');
+    if (!roleCheck.authorized) {
+      return roleCheck.error;
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = createWebhookSchema.parse(body);
+    
+    const urlError = checkWebhookUrl(validatedData.url);
+    if (urlError) {
+      return NextResponse.json({ error: urlError }, { status: 400 });
+    }
+    
+    const endpoint = await WebhookEndpoint.create({
+      ...validatedData,
+      orgId: org.orgId,
+      secret: createWebhookSecret(),
+      createdBy: payload.userId
+    });
+    
+    // The secret is shown this once; store it to verify signatures
+    return NextResponse.json({
+      message: 'Webhook created successfully',
+      org: org.orgName,
+      webhook: serializeWebhookEndpoint(endpoint, { withSecret: true })
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
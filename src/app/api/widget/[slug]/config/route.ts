@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import Org from '@/models/Org';
+import { getChatWidgetSettings, validateWidgetRequest, widgetPreflight } from '@/lib/chat-widget';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+/**
+ * OPTIONS /api/widget/[slug]/config
+ * CORS preflight
+ * Requires: an allowed origin
+ */
+export async function OPTIONS(request: NextRequest, { params }: RouteContext) {
+  await connectToDB();
+  const { slug } = await params;
+  return widgetPreflight(request, slug);
+}
+
+/**
+ * GET /api/widget/[slug]/config
+ * How the chat widget looks for this org
+ * Requires: an allowed origin
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the embed snippet and check the calling site
+    const { slug } = await params;
+    const widgetValidation = await validateWidgetRequest(request, slug);
+    if ('error' in widgetValidation) {
+      return widgetValidation.error;
+    }
+    const { org, headers } = widgetValidation;
+    
+    const orgDetails = await Org.findById(org.orgId);
+    const settings = getChatWidgetSettings(orgDetails);
+    
+    return NextResponse.json({
+      message: 'Widget config retrieved successfully',
+      org: org.orgName,
+      config: {
+        title: settings.title || org.orgName,
+        greeting: settings.greeting,
+        primaryColor: settings.primaryColor
+      }
+    }, { headers });
+    
+  } catch (error) {
+    console.error('Error fetching widget config:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { chatMessagesQuerySchema, customerReplySchema } from '@/lib/validations';
+import { addCustomerReply } from '@/lib/ticket-intake';
+import { consumeIpSubmission, getClientIp } from '@/lib/help-center';
+import { serializeCustomerTicketMessage } from '@/lib/tickets';
+import {
+  findChatConversation,
+  listChatMessages,
+  serializeChatConversation,
+  validateWidgetRequest,
+  widgetPreflight
+} from '@/lib/chat-widget';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ slug: string; id: string }> };
+
+/**
+ * OPTIONS /api/widget/[slug]/conversations/[id]/messages
+ * CORS preflight
+ * Requires: an allowed origin
+ */
+export async function OPTIONS(request: NextRequest, { params }: RouteContext) {
+  await connectToDB();
+  const { slug } = await params;
+  return widgetPreflight(request, slug);
+}
+
+/**
+ * GET /api/widget/[slug]/conversations/[id]/messages
+ * The conversation and its messages (only those after ?after=<message id> when
+ * given). Polling fallback for widgets that can't keep an event stream open.
+ * Requires: an allowed origin and the conversation's token
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  // Errors after the origin check still need CORS headers to be readable
+  let corsHeaders: Record<string, string> = {};
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the embed snippet and check the calling site
+    const { slug, id } = await params;
+    const widgetValidation = await validateWidgetRequest(request, slug);
+    if ('error' in widgetValidation) {
+      return widgetValidation.error;
+    }
+    const { org, headers } = widgetValidation;
+    corsHeaders = headers;
+    
+    const ticket = await findChatConversation(request, org.orgId, id);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404, headers });
+    }
+    
+    // Validate input
+    const { after } = chatMessagesQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    
+    const messages = await listChatMessages(org.orgId, id, after);
+    
+    return NextResponse.json({
+      message: 'Messages retrieved successfully',
+      org: org.orgName,
+      conversation: serializeChatConversation(ticket),
+      messages: messages.map(serializeCustomerTicketMessage)
+    }, { headers });
+    
+  } catch (error) {
+    console.error('Error fetching chat messages:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500, headers: corsHeaders });
+  }
+}
+
+/**
+ * POST /api/widget/[slug]/conversations/[id]/messages
+ * Send the visitor's next message. Asking for a person ("talk to a human")
+ * hands an AI-answered chat to an agent. Rate-limited per client IP.
+ * Requires: an allowed origin and the conversation's token
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  // Errors after the origin check still need CORS headers to be readable
+  let corsHeaders: Record<string, string> = {};
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the embed snippet and check the calling site
+    const { slug, id } = await params;
+    const widgetValidation = await validateWidgetRequest(request, slug);
+    if ('error' in widgetValidation) {
+      return widgetValidation.error;
+    }
+    const { org, headers } = widgetValidation;
+    corsHeaders = headers;
+    
+    const ticket = await findChatConversation(request, org.orgId, id);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404, headers });
+    }
+    
+    // Closed tickets are final
+    if (ticket.status === 'closed') {
+      return NextResponse.json(
+        { error: 'This conversation has ended. Please start a new chat.' },
+        { status: 409, headers }
+      );
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = customerReplySchema.parse(body);
+    
+    if (!await consumeIpSubmission(org.orgId, getClientIp(request), 'chat-message')) {
+      return NextResponse.json(
+        { error: 'Too many messages, please wait a moment' },
+        { status: 429, headers }
+      );
+    }
+    
+    const message = await addCustomerReply(ticket, {
+      name: ticket.requester?.name,
+      email: ticket.requester?.email ?? '',
+      body: validatedData.body
+    });
+    
+    return NextResponse.json({
+      message: 'Message sent successfully',
+      org: org.orgName,
+      conversation: serializeChatConversation(ticket),
+      chatMessage: serializeCustomerTicketMessage(message)
+    }, { status: 201, headers });
+    
+  } catch (error) {
+    console.error('Error sending chat message:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500, headers: corsHeaders });
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { serializeCustomerTicketMessage } from '@/lib/tickets';
+import {
+  findChatConversation,
+  pollChatConversation,
+  serializeChatConversation,
+  validateWidgetRequest
+} from '@/lib/chat-widget';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ slug: string; id: string }> };
+
+// How often the stream checks for new messages. Each check is one database
+// query per open widget, so load grows with the number of visitors chatting:
+// every 2 seconds while the chat is active, backing off to every 15 seconds
+// while nothing changes.
+const POLL_INTERVAL_MS = 2000;
+const IDLE_POLL_INTERVAL_MS = 15000;
+// Streams end after a while and the browser reconnects (resuming from
+// Last-Event-ID), so no connection is held open indefinitely
+const STREAM_DURATION_MS = 5 * 60 * 1000;
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * GET /api/widget/[slug]/conversations/[id]/stream?token=...
+ * New messages and conversation state as server-sent events: `message` for
+ * each new public message, `conversation` when the status or who is answering
+ * (AI, waiting, agent) changes. The token goes in the query string because
+ * EventSource can't send headers.
+ * Requires: an allowed origin and the conversation's token
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the embed snippet and check the calling site
+    const { slug, id } = await params;
+    const widgetValidation = await validateWidgetRequest(request, slug);
+    if ('error' in widgetValidation) {
+      return widgetValidation.error;
+    }
+    const { org, headers } = widgetValidation;
+    
+    const ticket = await findChatConversation(request, org.orgId, id);
+    if (!ticket) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404, headers });
+    }
+    
+    // Resume after the last message the browser received
+    const resumeFrom = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('after');
+    let lastMessageId = resumeFrom && /^[a-f\d]{24}$/i.test(resumeFrom) ? resumeFrom : undefined;
+    
+    const encoder = new TextEncoder();
+    const eventStream = new ReadableStream({
+      async start(controller) {
+        const write = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+        const send = (event: string, data: unknown, eventId?: string) => {
+          write(`${eventId ? `id: ${eventId}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+        
+        write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+        send('conversation', serializeChatConversation(ticket));
+        let lastState = JSON.stringify(serializeChatConversation(ticket));
+        
+        const startedAt = Date.now();
+        let pollInterval = POLL_INTERVAL_MS;
+        try {
+          while (!request.signal.aborted && Date.now() - startedAt < STREAM_DURATION_MS) {
+            const poll = await pollChatConversation(org.orgId, id, lastMessageId);
+            if (!poll) {
+              break;
+            }
+            for (const message of poll.messages) {
+              lastMessageId = message._id.toString();
+              send('message', serializeCustomerTicketMessage(message), lastMessageId);
+            }
+            
+            const conversation = serializeChatConversation(poll.ticket);
+            const state = JSON.stringify(conversation);
+            const changed = state !== lastState;
+            if (changed) {
+              lastState = state;
+              send('conversation', conversation);
+            } else if (poll.messages.length === 0) {
+              // Keeps proxies from timing out an idle connection
+              write(': ping\n\n');
+            }
+            if (conversation.state === 'closed') {
+              break;
+            }
+            
+            pollInterval = changed || poll.messages.length > 0
+              ? POLL_INTERVAL_MS
+              : Math.min(pollInterval * 2, IDLE_POLL_INTERVAL_MS);
+            await new Promise((resolve) => setTimeout(resolve, pollInterval));
+          }
+        } catch (error) {
+          console.error('Error streaming chat messages:', error);
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        }
+      }
+    });
+    
+    return new NextResponse(eventStream, {
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error opening chat stream:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
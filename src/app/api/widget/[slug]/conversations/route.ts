@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDB } from '@/app/lib/db';
+import { startChatSchema } from '@/lib/validations';
+import { consumeIpSubmission, getClientIp } from '@/lib/help-center';
+import { createCustomerTicket } from '@/lib/ticket-intake';
+import { serializeCustomerTicketMessage } from '@/lib/tickets';
+import {
+  chatSubject,
+  listChatMessages,
+  serializeChatConversation,
+  signChatToken,
+  validateWidgetRequest,
+  widgetPreflight
+} from '@/lib/chat-widget';
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+/**
+ * OPTIONS /api/widget/[slug]/conversations
+ * CORS preflight
+ * Requires: an allowed origin
+ */
+export async function OPTIONS(request: NextRequest, { params }: RouteContext) {
+  await connectToDB();
+  const { slug } = await params;
+  return widgetPreflight(request, slug);
+}
+
+/**
+ * POST /api/widget/[slug]/conversations
+ * Start a chat. It becomes a ticket (channel "chat"); when the org lets the AI
+ * answer new tickets, its answer comes back with the conversation.
+ * Returns the token the widget uses for the rest of the conversation.
+ * Requires: an allowed origin
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  // Errors after the origin check still need CORS headers to be readable
+  let corsHeaders: Record<string, string> = {};
+  try {
+    await connectToDB();
+    
+    // Resolve the org from the embed snippet and check the calling site
+    const { slug } = await params;
+    const widgetValidation = await validateWidgetRequest(request, slug);
+    if ('error' in widgetValidation) {
+      return widgetValidation.error;
+    }
+    const { org, headers } = widgetValidation;
+    corsHeaders = headers;
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = startChatSchema.parse(body);
+    
+    if (!await consumeIpSubmission(org.orgId, getClientIp(request), 'chat')) {
+      return NextResponse.json(
+        { error: 'Too many requests, please try again later' },
+        { status: 429, headers }
+      );
+    }
+    
+    const ticket = await createCustomerTicket({
+      orgId: org.orgId,
+      subject: chatSubject(validatedData.message),
+      description: validatedData.message,
+      requester: { name: validatedData.name, email: validatedData.email },
+      channel: 'chat'
+    });
+    
+    // Usually empty: the AI's first answer is written after this response and
+    // reaches the widget over the stream
+    const messages = await listChatMessages(org.orgId, ticket._id.toString());
+    
+    return NextResponse.json({
+      message: 'Conversation started successfully',
+      org: org.orgName,
+      conversation: serializeChatConversation(ticket),
+      messages: messages.map(serializeCustomerTicketMessage),
+      token: signChatToken(ticket)
+    }, { status: 201, headers });
+    
+  } catch (error) {
+    console.error('Error starting chat:', error);
+    
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500, headers: corsHeaders });
+  }
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import Link from "next/link"
+import { useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface HelpArticle {
+  id: string
+  title: string
+  category: string | null
+  body: string
+  updatedAt: string
+}
+
+export default function HelpArticlePage() {
+  const { id } = useParams<{ id: string }>()
+  const [article, setArticle] = useState<HelpArticle | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const loadArticle = async () => {
+      try {
+        const response = await fetch(`/api/help/articles/${id}`)
+        const data = await response.json()
+        if (response.ok) {
+          setArticle(data.article)
+        } else {
+          setError(data.error || "Article not found")
+        }
+      } catch (error) {
+        console.error("Help article error:", error)
+        setError("An unexpected error occurred")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadArticle()
+  }, [id])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-4">
+        <Link href="/help" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Help Center
+        </Link>
+
+        {isLoading && <p className="text-gray-600">Loading...</p>}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {article && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">{article.title}</CardTitle>
+              <CardDescription>
+                {article.category && `${article.category} · `}
+                Updated {new Date(article.updatedAt).toLocaleDateString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="whitespace-pre-wrap leading-relaxed">{article.body}</div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
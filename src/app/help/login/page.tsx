@@ -0,0 +1,110 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import Link from "next/link"
+import { useState } from "react"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { customerLoginSchema, type CustomerLoginData } from "@/lib/validations"
+
+export default function HelpLoginPage() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [sentTo, setSentTo] = useState("")
+
+  const form = useForm<CustomerLoginData>({
+    resolver: zodResolver(customerLoginSchema),
+    defaultValues: {
+      email: "",
+    },
+  })
+
+  const onSubmit = async (data: CustomerLoginData) => {
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/help/auth/link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        setSentTo(data.email)
+      } else {
+        setError(result.error || "Could not send a sign-in link")
+      }
+    } catch (error) {
+      console.error("Customer sign-in error:", error)
+      setError("An unexpected error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-md mx-auto px-4 py-8 space-y-4">
+        <Link href="/help" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Help Center
+        </Link>
+
+        {sentTo ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Check your email</CardTitle>
+              <CardDescription>
+                We sent a sign-in link to {sentTo}. It expires in 15 minutes.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Sign in to see your requests</CardTitle>
+              <CardDescription>
+                Enter the email address you contacted us from and we&apos;ll email you a sign-in link.
+              </CardDescription>
+            </CardHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <CardContent className="space-y-4">
+                  {error && (
+                    <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                      {error}
+                    </div>
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="you@example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+                <CardFooter>
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? "Sending..." : "Email me a sign-in link"}
+                  </Button>
+                </CardFooter>
+              </form>
+            </Form>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
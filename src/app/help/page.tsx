@@ -0,0 +1,125 @@
+"use client"
+
+import Link from "next/link"
+import { useEffect, useState } from "react"
+import { Search } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { HelpTicketForm } from "@/components/HelpTicketForm"
+
+interface HelpArticle {
+  id: string
+  title: string
+  category: string | null
+  excerpt: string
+}
+
+export default function HelpCenterPage() {
+  const [orgName, setOrgName] = useState("")
+  const [articles, setArticles] = useState<HelpArticle[]>([])
+  const [categories, setCategories] = useState<string[]>([])
+  const [category, setCategory] = useState<string | null>(null)
+  const [query, setQuery] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  // Reload articles when the filters change (search is debounced)
+  useEffect(() => {
+    const timeout = setTimeout(async () => {
+      const params = new URLSearchParams()
+      if (category) params.set("category", category)
+      if (query.trim()) params.set("q", query.trim())
+
+      try {
+        const response = await fetch(`/api/help/articles?${params}`)
+        const data = await response.json()
+        if (response.ok) {
+          setOrgName(data.org)
+          setArticles(data.articles)
+          setCategories(data.categories)
+          setError("")
+        } else {
+          setError(data.error || "Could not load the help center")
+        }
+      } catch (error) {
+        console.error("Help center error:", error)
+        setError("An unexpected error occurred")
+      } finally {
+        setIsLoading(false)
+      }
+    }, 250)
+    return () => clearTimeout(timeout)
+  }, [category, query])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="max-w-4xl mx-auto px-4 py-10 text-center space-y-4">
+          <div className="flex justify-end">
+            <Link href="/help/tickets" className="text-sm text-gray-600 hover:underline">
+              My requests
+            </Link>
+          </div>
+          <h1 className="text-3xl font-bold">{orgName ? `${orgName} Help Center` : "Help Center"}</h1>
+          <div className="relative max-w-xl mx-auto">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              className="pl-9"
+              placeholder="Search articles"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+            />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {categories.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {[null, ...categories].map((value) => (
+              <button
+                key={value ?? "all"}
+                onClick={() => setCategory(value)}
+                className={`px-3 py-1 rounded-full border text-sm ${
+                  category === value ? "bg-gray-900 text-white" : "bg-white text-gray-700"
+                }`}
+              >
+                {value ?? "All"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <section className="grid gap-4 sm:grid-cols-2">
+          {isLoading ? (
+            <p className="text-gray-600">Loading...</p>
+          ) : articles.length === 0 ? (
+            <p className="text-gray-600">No articles found.</p>
+          ) : (
+            articles.map((article) => (
+              <Link key={article.id} href={`/help/articles/${article.id}`}>
+                <Card className="h-full hover:shadow-md transition-shadow">
+                  <CardHeader>
+                    <CardTitle>{article.title}</CardTitle>
+                    {article.category && <CardDescription>{article.category}</CardDescription>}
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-gray-600 line-clamp-3">{article.excerpt}</p>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))
+          )}
+        </section>
+
+        <HelpTicketForm />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import Link from "next/link"
+import { useCallback, useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { ArrowLeft, Paperclip } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+
+interface CustomerAttachment {
+  id: string
+  filename: string
+  url: string
+}
+
+interface CustomerMessage {
+  id: string
+  authorType: "agent" | "requester"
+  authorName: string | null
+  body: string
+  ai: boolean
+  createdAt: string
+  attachments: CustomerAttachment[]
+}
+
+interface CustomerTicketDetail {
+  id: string
+  subject: string
+  description: string
+  status: string
+  createdAt: string
+  attachments: CustomerAttachment[]
+}
+
+function AttachmentLinks({ attachments }: { attachments: CustomerAttachment[] }) {
+  if (attachments.length === 0) return null
+  return (
+    <div className="flex flex-wrap gap-3 pt-2">
+      {attachments.map((attachment) => (
+        <a key={attachment.id} href={attachment.url} className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline">
+          <Paperclip className="h-3 w-3" />
+          {attachment.filename}
+        </a>
+      ))}
+    </div>
+  )
+}
+
+export default function HelpTicketPage() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const [ticket, setTicket] = useState<CustomerTicketDetail | null>(null)
+  const [messages, setMessages] = useState<CustomerMessage[]>([])
+  const [reply, setReply] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState("")
+
+  const loadTicket = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/help/tickets/${id}`)
+      const data = await response.json()
+      if (response.status === 401) {
+        router.replace("/help/login")
+        return
+      }
+      if (response.ok) {
+        setTicket(data.ticket)
+        setMessages(data.messages)
+      } else {
+        setError(data.error || "Request not found")
+      }
+    } catch (error) {
+      console.error("Customer ticket error:", error)
+      setError("An unexpected error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [id, router])
+
+  useEffect(() => {
+    loadTicket()
+  }, [loadTicket])
+
+  const sendReply = async () => {
+    setIsSending(true)
+    setError("")
+
+    try {
+      const response = await fetch(`/api/help/tickets/${id}/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: reply }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setReply("")
+        // Reload for the new status (a reply reopens solved requests)
+        await loadTicket()
+      } else {
+        setError(data.error || "Could not send your reply")
+      }
+    } catch (error) {
+      console.error("Customer reply error:", error)
+      setError("An unexpected error occurred")
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-4">
+        <Link href="/help/tickets" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          My requests
+        </Link>
+
+        {isLoading && <p className="text-gray-600">Loading...</p>}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {ticket && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-2xl">{ticket.subject}</CardTitle>
+                <CardDescription>Submitted {new Date(ticket.createdAt).toLocaleString()}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="whitespace-pre-wrap">{ticket.description}</div>
+                <AttachmentLinks attachments={ticket.attachments} />
+              </CardContent>
+            </Card>
+
+            {messages.map((message) => (
+              <Card key={message.id} className={message.authorType === "requester" ? "bg-blue-50" : undefined}>
+                <CardHeader>
+                  <CardDescription>
+                    {message.authorType === "requester"
+                      ? "You"
+                      : message.ai
+                        ? "AI assistant"
+                        : message.authorName || "Support"}
+                    {" · "}
+                    {new Date(message.createdAt).toLocaleString()}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="whitespace-pre-wrap">{message.body}</div>
+                  <AttachmentLinks attachments={message.attachments} />
+                </CardContent>
+              </Card>
+            ))}
+
+            {ticket.status === "closed" ? (
+              <p className="text-gray-600">
+                This request is closed. <Link href="/help" className="underline">Open a new request</Link> if you need more help.
+              </p>
+            ) : (
+              <Card>
+                <CardContent className="pt-6">
+                  <Textarea
+                    rows={5}
+                    placeholder="Write a reply"
+                    value={reply}
+                    onChange={(event) => setReply(event.target.value)}
+                  />
+                </CardContent>
+                <CardFooter>
+                  <Button onClick={sendReply} disabled={isSending || !reply.trim()}>
+                    {isSending ? "Sending..." : "Send reply"}
+                  </Button>
+                </CardFooter>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
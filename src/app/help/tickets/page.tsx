@@ -0,0 +1,104 @@
+"use client"
+
+import Link from "next/link"
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface CustomerTicket {
+  id: string
+  subject: string
+  status: string
+  updatedAt: string
+}
+
+// Statuses as a customer should read them
+const STATUS_LABELS: Record<string, string> = {
+  "new": "Received",
+  "open": "In progress",
+  "pending-customer": "Awaiting your reply",
+  "on-hold": "On hold",
+  "solved": "Solved",
+  "closed": "Closed",
+}
+
+export default function HelpTicketsPage() {
+  const router = useRouter()
+  const [tickets, setTickets] = useState<CustomerTicket[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const loadTickets = async () => {
+      try {
+        const response = await fetch("/api/help/tickets")
+        const data = await response.json()
+        if (response.status === 401) {
+          router.replace("/help/login")
+          return
+        }
+        if (response.ok) {
+          setTickets(data.tickets)
+        } else {
+          setError(data.error || "Could not load your requests")
+        }
+      } catch (error) {
+        console.error("Customer tickets error:", error)
+        setError("An unexpected error occurred")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadTickets()
+  }, [router])
+
+  const signOut = async () => {
+    await fetch("/api/help/auth/logout", { method: "POST" })
+    router.replace("/help")
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-4">
+        <div className="flex items-center justify-between">
+          <Link href="/help" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:underline">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Help Center
+          </Link>
+          <Button variant="outline" size="sm" onClick={signOut}>
+            Sign out
+          </Button>
+        </div>
+
+        <h1 className="text-2xl font-bold">My requests</h1>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-600">Loading...</p>
+        ) : tickets.length === 0 && !error ? (
+          <p className="text-gray-600">You haven&apos;t submitted any requests yet.</p>
+        ) : (
+          tickets.map((ticket) => (
+            <Link key={ticket.id} href={`/help/tickets/${ticket.id}`} className="block">
+              <Card className="hover:shadow-md transition-shadow">
+                <CardHeader>
+                  <CardTitle>{ticket.subject}</CardTitle>
+                  <CardDescription>
+                    {STATUS_LABELS[ticket.status] ?? ticket.status} · Updated {new Date(ticket.updatedAt).toLocaleString()}
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </Link>
+          ))
+        )}
+      </main>
+    </div>
+  )
+}
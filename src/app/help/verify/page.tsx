@@ -0,0 +1,69 @@
+"use client"
+
+import Link from "next/link"
+import { Suspense, useEffect, useRef, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+function VerifyLink() {
+  const router = useRouter()
+  const token = useSearchParams().get("token")
+  const [error, setError] = useState("")
+  // Links work once, so never redeem twice (e.g. on a remount)
+  const redeemed = useRef(false)
+
+  useEffect(() => {
+    if (redeemed.current) return
+    redeemed.current = true
+
+    const verify = async () => {
+      if (!token) {
+        setError("This sign-in link is incomplete")
+        return
+      }
+      try {
+        const response = await fetch("/api/help/auth/verify", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        })
+        const data = await response.json()
+        if (response.ok) {
+          router.replace("/help/tickets")
+        } else {
+          setError(data.error || "Could not sign you in")
+        }
+      } catch (error) {
+        console.error("Customer verify error:", error)
+        setError("An unexpected error occurred")
+      }
+    }
+    verify()
+  }, [token, router])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{error ? "Sign-in failed" : "Signing you in..."}</CardTitle>
+        {error && (
+          <CardDescription>
+            {error}.{" "}
+            <Link href="/help/login" className="underline">Request a new link</Link>
+          </CardDescription>
+        )}
+      </CardHeader>
+    </Card>
+  )
+}
+
+export default function HelpVerifyPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-md mx-auto px-4 py-8">
+        <Suspense fallback={<p className="text-gray-600">Loading...</p>}>
+          <VerifyLink />
+        </Suspense>
+      </main>
+    </div>
+  )
+}
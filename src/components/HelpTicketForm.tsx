@@ -0,0 +1,177 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { helpTicketSchema, type HelpTicketData } from "@/lib/validations"
+
+export function HelpTicketForm() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [submitted, setSubmitted] = useState(false)
+
+  const form = useForm<HelpTicketData>({
+    resolver: zodResolver(helpTicketSchema),
+    defaultValues: {
+      name: "",
+      email: "",
+      subject: "",
+      description: "",
+      formToken: "",
+      website: "",
+    },
+  })
+
+  // The server signs the time the form was shown (spam protection)
+  const loadFormToken = useCallback(async () => {
+    try {
+      const response = await fetch("/api/help/form")
+      const data = await response.json()
+      if (response.ok) {
+        form.setValue("formToken", data.formToken)
+      }
+    } catch (error) {
+      console.error("Failed to load form token:", error)
+    }
+  }, [form])
+
+  useEffect(() => {
+    loadFormToken()
+  }, [loadFormToken])
+
+  const onSubmit = async (data: HelpTicketData) => {
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/help/tickets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        setSubmitted(true)
+        form.reset()
+        loadFormToken()
+      } else {
+        setError(result.error || "Could not submit your request")
+      }
+    } catch (error) {
+      console.error("Help ticket error:", error)
+      setError("An unexpected error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (submitted) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Thanks, we got your request</CardTitle>
+          <CardDescription>
+            We&apos;ve emailed you a confirmation and will reply to the address you gave us.
+          </CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button variant="outline" onClick={() => setSubmitted(false)}>
+            Submit another request
+          </Button>
+        </CardFooter>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Submit a request</CardTitle>
+        <CardDescription>
+          Can&apos;t find what you need? Send us a message and we&apos;ll get back to you by email.
+        </CardDescription>
+      </CardHeader>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Your name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="you@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="subject"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Subject</FormLabel>
+                  <FormControl>
+                    <Input placeholder="What do you need help with?" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={6} placeholder="Tell us the details" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {/* Honeypot: hidden from people, so only bots fill it in */}
+            <div aria-hidden="true" className="absolute -left-[9999px] h-0 w-0 overflow-hidden">
+              <label htmlFor="help-website">Website</label>
+              <input id="help-website" type="text" tabIndex={-1} autoComplete="off" {...form.register("website")} />
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Sending..." : "Send request"}
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  )
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+
+const agentIds = [new Types.ObjectId(), new Types.ObjectId(), new Types.ObjectId()];
+
+// One org whose round-robin pointer lives in memory, like the stored document
+const org = {
+  autoAssignment: {
+    enabled: true,
+    strategy: 'round-robin',
+    lastAssignedUserId: null as Types.ObjectId | null
+  }
+};
+
+const sameId = (a: Types.ObjectId | null, b: Types.ObjectId | null) =>
+  a === null || b === null ? a === b : a.equals(b);
+
+vi.mock('@/models/Org', () => ({
+  default: {
+    findById: () => {
+      const snapshot = { autoAssignment: { ...org.autoAssignment } };
+      return Object.assign(Promise.resolve(snapshot), { select: () => Promise.resolve(snapshot) });
+    },
+    updateOne: async (
+      filter: Record<string, unknown>,
+      update: { 'autoAssignment.lastAssignedUserId': Types.ObjectId }
+    ) => {
+      // Yield first so concurrent callers interleave between read and write
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const expected = filter['autoAssignment.lastAssignedUserId'] as Types.ObjectId | null | undefined;
+      if (expected !== undefined && !sameId(expected, org.autoAssignment.lastAssignedUserId)) {
+        return { matchedCount: 0 };
+      }
+      org.autoAssignment.lastAssignedUserId = update['autoAssignment.lastAssignedUserId'];
+      return { matchedCount: 1 };
+    }
+  }
+}));
+vi.mock('@/models/User', () => ({
+  default: {
+    find: () => ({
+      sort: () => ({ select: async () => agentIds.map((_id) => ({ _id })) })
+    })
+  }
+}));
+vi.mock('@/models/Ticket', () => ({ default: {} }));
+
+const { autoAssignTicket } = await import('@/lib/assignment');
+
+describe('autoAssignTicket round-robin', () => {
+  beforeEach(() => {
+    org.autoAssignment.lastAssignedUserId = null;
+  });
+
+  it('assigns agents in order and wraps around', async () => {
+    const assigned = [];
+    for (let i = 0; i < 4; i++) {
+      assigned.push(await autoAssignTicket('org-1'));
+    }
+    expect(assigned).toEqual([agentIds[0], agentIds[1], agentIds[2], agentIds[0]]);
+  });
+
+  it('gives tickets created at the same time different agents', async () => {
+    const assigned = await Promise.all([
+      autoAssignTicket('org-1'),
+      autoAssignTicket('org-1'),
+      autoAssignTicket('org-1')
+    ]);
+    expect(new Set(assigned.map(String)).size).toBe(3);
+  });
+});
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Stands in for the rateLimitCounters collection
+const counters = new Map<string, { count: number; expiresAt: Date }>();
+
+vi.mock('@/models/RateLimitCounter', () => ({
+  default: {
+    findOneAndUpdate: async (
+      filter: { key: string },
+      update: { $inc: { count: number }; $setOnInsert: { expiresAt: Date } }
+    ) => {
+      const counter = counters.get(filter.key) ?? { count: 0, expiresAt: update.$setOnInsert.expiresAt };
+      counter.count += update.$inc.count;
+      counters.set(filter.key, counter);
+      return counter;
+    }
+  }
+}));
+vi.mock('@/models/Ticket', () => ({ default: {} }));
+
+const { consumeIpSubmission } = await import('@/lib/help-center');
+
+const hour = Date.UTC(2025, 0, 1, 10);
+
+describe('consumeIpSubmission', () => {
+  beforeEach(() => {
+    counters.clear();
+  });
+
+  it('allows ten submissions per IP an hour', async () => {
+    const results = [];
+    for (let i = 0; i < 11; i++) {
+      results.push(await consumeIpSubmission('org-1', '203.0.113.7', 'ticket', hour + i * 1000));
+    }
+
+    expect(results.slice(0, 10).every(Boolean)).toBe(true);
+    expect(results[10]).toBe(false);
+  });
+
+  it('allows more chat messages than new chats', async () => {
+    for (let i = 0; i < 120; i++) {
+      expect(await consumeIpSubmission('org-1', '203.0.113.7', 'chat-message', hour)).toBe(true);
+    }
+    expect(await consumeIpSubmission('org-1', '203.0.113.7', 'chat-message', hour)).toBe(false);
+  });
+
+  it('counts each form, org and IP separately', async () => {
+    for (let i = 0; i < 10; i++) {
+      await consumeIpSubmission('org-1', '203.0.113.7', 'ticket', hour);
+    }
+
+    expect(await consumeIpSubmission('org-1', '203.0.113.7', 'chat', hour)).toBe(true);
+    expect(await consumeIpSubmission('org-2', '203.0.113.7', 'ticket', hour)).toBe(true);
+    expect(await consumeIpSubmission('org-1', '203.0.113.8', 'ticket', hour)).toBe(true);
+  });
+
+  it('starts over in the next window, and lets MongoDB expire old counters', async () => {
+    for (let i = 0; i < 10; i++) {
+      await consumeIpSubmission('org-1', '203.0.113.7', 'ticket', hour);
+    }
+    expect(await consumeIpSubmission('org-1', '203.0.113.7', 'ticket', hour + 59 * 60 * 1000)).toBe(false);
+    expect(await consumeIpSubmission('org-1', '203.0.113.7', 'ticket', hour + 60 * 60 * 1000)).toBe(true);
+
+    expect([...counters.values()].map((counter) => counter.expiresAt)).toEqual([
+      new Date(hour + 60 * 60 * 1000),
+      new Date(hour + 2 * 60 * 60 * 1000)
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ParsedEmail } from '@/lib/email/mime';
+
+vi.stubEnv('INBOUND_EMAIL_DOMAIN', 'mail.example.com');
+
+const ticketId = '65f000000000000000000001';
+const thread = {
+  _id: ticketId,
+  orgId: 'org-1',
+  status: 'open',
+  requester: { email: 'jane@example.com' }
+};
+const state = { headerTicket: null as typeof thread | null };
+
+vi.mock('@/models/Org', () => ({ default: { findOne: async () => ({ _id: 'org-1', plan: 'free' }) } }));
+vi.mock('@/models/Ticket', () => ({
+  default: { exists: async () => null, findOne: async () => state.headerTicket }
+}));
+vi.mock('@/models/TicketMessage', () => ({
+  default: { exists: async () => null, findOne: () => ({ sort: async () => null }) }
+}));
+vi.mock('@/lib/tickets', () => ({
+  findTicketForOrg: async (id: string) => (id === ticketId ? thread : null)
+}));
+vi.mock('@/lib/attachments', () => ({ storeAttachment: vi.fn(), validateAttachmentUpload: () => null }));
+vi.mock('@/lib/ticket-intake', () => ({
+  createCustomerTicket: vi.fn(async (input: Record<string, unknown>) => ({ _id: 'new-ticket', ...input })),
+  addCustomerReply: vi.fn(async () => ({ _id: 'message-1' }))
+}));
+
+const { processInboundEmail } = await import('@/lib/inbound-email');
+const { createReplyToken } = await import('@/lib/email/addresses');
+const { createCustomerTicket, addCustomerReply } = await import('@/lib/ticket-intake');
+
+function email(overrides: Partial<ParsedEmail>): ParsedEmail {
+  return {
+    from: { name: 'Jane', email: 'jane@example.com' },
+    to: [{ name: null, email: 'support@acme.mail.example.com' }],
+    cc: [],
+    deliveredTo: [],
+    subject: 'Help',
+    messageId: 'new@example.com',
+    inReplyTo: [],
+    references: [],
+    text: null,
+    html: null,
+    attachments: [],
+    autoGenerated: false,
+    ...overrides
+  };
+}
+
+const forwarded = [
+  'Can you look at this?',
+  '',
+  '---------- Forwarded message ----------',
+  'From: Billing <billing@vendor.com>',
+  'Subject: Invoice 42',
+  '',
+  'Your invoice is overdue.'
+].join('\n');
+
+const quoted = [
+  'Thanks, that fixed it.',
+  '',
+  'On Mon, 3 Mar 2025 at 10:00, Acme Support <support@acme.mail.example.com> wrote:',
+  '> Please try clearing your cache.'
+].join('\n');
+
+describe('processInboundEmail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.headerTicket = null;
+  });
+
+  it('keeps forwarded content in a new ticket', async () => {
+    const result = await processInboundEmail(email({ text: `${forwarded}\n` }));
+
+    expect(result.status).toBe('created');
+    expect(createCustomerTicket).toHaveBeenCalledWith(
+      expect.objectContaining({ description: forwarded }),
+      expect.any(Function)
+    );
+  });
+
+  it('keeps a quoted thread in the first email of a new ticket', async () => {
+    await processInboundEmail(email({ text: quoted }));
+
+    expect(vi.mocked(createCustomerTicket).mock.calls[0][0].description).toBe(quoted);
+  });
+
+  it('strips the quoted thread from replies to an existing ticket', async () => {
+    const result = await processInboundEmail(email({
+      to: [{ name: null, email: `support+${createReplyToken(ticketId)}@acme.mail.example.com` }],
+      text: quoted
+    }));
+
+    expect(result.status).toBe('replied');
+    expect(addCustomerReply).toHaveBeenCalledWith(
+      thread,
+      expect.objectContaining({ body: 'Thanks, that fixed it.' }),
+      expect.any(Function)
+    );
+  });
+
+  it('only threads on message headers for the ticket requester', async () => {
+    state.headerTicket = thread;
+    const reply = { inReplyTo: ['original@example.com'], text: quoted };
+
+    expect((await processInboundEmail(email(reply))).status).toBe('replied');
+
+    const stranger = { name: 'Eve', email: 'eve@example.com' };
+    expect((await processInboundEmail(email({ ...reply, from: stranger }))).status).toBe('created');
+  });
+});
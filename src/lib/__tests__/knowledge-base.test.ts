@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAIProvider } from '@/lib/ai/fake';
+import { InMemoryVectorStore, setVectorStore } from '@/lib/vector-store';
+import type { KbArticleDocument } from '@/models/KbArticle';
+
+interface Article {
+  _id: string;
+  orgId: string;
+  title: string;
+  body: string;
+  category: string | null;
+  status: string;
+}
+
+const articles: Article[] = [];
+
+vi.mock('@/models/KbArticle', () => ({
+  default: {
+    find: async (query: { _id: { $in: string[] }; orgId: string; status: string }) =>
+      articles.filter((article) =>
+        query._id.$in.includes(article._id) &&
+        article.orgId === query.orgId &&
+        article.status === query.status
+      )
+  }
+}));
+
+const provider = new FakeAIProvider();
+vi.mock('@/lib/org-ai', () => ({ getOrgAIProvider: async () => provider }));
+
+const { chunkArticleBody, indexKbArticle, searchKnowledgeBase } = await import('@/lib/knowledge-base');
+
+function addArticle(article: Omit<Article, 'category' | 'status'> & Partial<Article>): KbArticleDocument {
+  const stored = { category: null, status: 'published', ...article };
+  articles.push(stored);
+  return stored as unknown as KbArticleDocument;
+}
+
+describe('chunkArticleBody', () => {
+  it('packs whole paragraphs into one chunk while they fit', () => {
+    expect(chunkArticleBody('First paragraph.\n\nSecond paragraph.\n\n\n', 100)).toEqual([
+      'First paragraph.\n\nSecond paragraph.'
+    ]);
+  });
+
+  it('starts a new chunk at a paragraph boundary rather than overflowing', () => {
+    const first = 'a'.repeat(30);
+    const second = 'b'.repeat(30);
+
+    expect(chunkArticleBody(`${first}\n\n${second}`, 50)).toEqual([first, second]);
+  });
+
+  it('splits long paragraphs at sentence boundaries', () => {
+    const body = 'One two three. Four five six. Seven eight nine.';
+
+    const chunks = chunkArticleBody(body, 30);
+
+    expect(chunks).toEqual(['One two three. Four five six.', 'Seven eight nine.']);
+  });
+
+  it('hard-splits a sentence longer than a chunk', () => {
+    const chunks = chunkArticleBody('x'.repeat(25), 10);
+
+    expect(chunks.every((chunk) => chunk.length <= 10)).toBe(true);
+    expect(chunks.join('')).toBe('x'.repeat(25));
+  });
+});
+
+describe('searchKnowledgeBase', () => {
+  beforeEach(() => {
+    articles.length = 0;
+    setVectorStore(new InMemoryVectorStore());
+  });
+
+  it('ranks the article that shares the most words with the query first', async () => {
+    const refunds = addArticle({
+      _id: 'refunds',
+      orgId: 'org-1',
+      title: 'Refunds',
+      body: 'Request a refund from the billing page within 30 days of purchase.'
+    });
+    const passwords = addArticle({
+      _id: 'passwords',
+      orgId: 'org-1',
+      title: 'Resetting your password',
+      body: 'Use the forgot password link on the sign in page to reset your password.'
+    });
+    await indexKbArticle(refunds);
+    await indexKbArticle(passwords);
+
+    const results = await searchKnowledgeBase(provider, 'org-1', 'how do I reset my password', 5);
+
+    expect(results.map((result) => result.articleId)).toEqual(['passwords', 'refunds']);
+    expect(results[0]).toMatchObject({ title: 'Resetting your password', category: null });
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('returns each article once, with its best passage', async () => {
+    const article = addArticle({
+      _id: 'shipping',
+      orgId: 'org-1',
+      title: 'Shipping',
+      body: `${'Orders ship from our warehouse. '.repeat(40)}\n\nInternational delivery takes two weeks.`
+    });
+    await indexKbArticle(article);
+
+    const results = await searchKnowledgeBase(provider, 'org-1', 'international delivery', 5);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].excerpt).toContain('International delivery');
+  });
+
+  it("never returns another org's articles", async () => {
+    await indexKbArticle(addArticle({ _id: 'mine', orgId: 'org-1', title: 'Invoices', body: 'Download invoices.' }));
+    await indexKbArticle(addArticle({ _id: 'theirs', orgId: 'org-2', title: 'Invoices', body: 'Download invoices.' }));
+
+    const results = await searchKnowledgeBase(provider, 'org-1', 'download invoices', 5);
+
+    expect(results.map((result) => result.articleId)).toEqual(['mine']);
+  });
+
+  it('drops articles unpublished since they were indexed, and removes drafts from the index', async () => {
+    const article = addArticle({ _id: 'faq', orgId: 'org-1', title: 'FAQ', body: 'Opening hours are nine to five.' });
+    await indexKbArticle(article);
+
+    articles[0].status = 'draft';
+    expect(await searchKnowledgeBase(provider, 'org-1', 'opening hours', 5)).toEqual([]);
+
+    await indexKbArticle(article);
+    articles[0].status = 'published';
+    expect(await searchKnowledgeBase(provider, 'org-1', 'opening hours', 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TicketDocument } from '@/models/Ticket';
+import { computeTicketSla, type SlaPolicy } from '@/lib/sla';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function policy(timezone: string): SlaPolicy {
+  return {
+    enabled: true,
+    timezone,
+    nearBreachPercent: 80,
+    businessHours: { enabled: true, days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' },
+    targets: [{ priority: 'normal', firstResponseMinutes: 120, resolutionMinutes: 480 }]
+  };
+}
+
+function openTicket(createdAt: Date): TicketDocument {
+  return {
+    priority: 'normal',
+    status: 'open',
+    createdAt,
+    updatedAt: createdAt,
+    firstRespondedAt: null,
+    statusHistory: [
+      { from: null, to: 'new', at: createdAt },
+      { from: 'new', to: 'open', at: createdAt }
+    ]
+  } as unknown as TicketDocument;
+}
+
+function countWeekdays(from: string, to: string): number {
+  let weekdays = 0;
+  for (let day = Date.parse(from); day < Date.parse(to); day += DAY_MS) {
+    const weekday = new Date(day).getUTCDay();
+    weekdays += weekday >= 1 && weekday <= 5 ? 1 : 0;
+  }
+  return weekdays;
+}
+
+describe('computeTicketSla', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('counts business time over the whole age of tickets older than a year', () => {
+    const createdAt = new Date('2024-01-01T09:00:00Z'); // Monday
+    const now = new Date('2026-01-05T09:00:00Z'); // Monday
+    const weekdays = countWeekdays('2024-01-01', '2026-01-05');
+
+    const sla = computeTicketSla(openTicket(createdAt), policy('UTC'), now);
+
+    expect(sla?.resolution.elapsedMinutes).toBe(weekdays * 8 * 60);
+    expect(sla?.resolution.breached).toBe(true);
+    expect(sla?.firstResponse.dueAt).toEqual(new Date('2024-01-01T11:00:00Z'));
+  });
+
+  it('projects due dates through weekends in the policy timezone, across DST', () => {
+    // Friday 16:00 in New York; clocks spring forward on Sunday 2025-03-09
+    const createdAt = new Date('2025-03-07T21:00:00Z');
+    const now = new Date(createdAt.getTime() + 60 * 1000);
+
+    const sla = computeTicketSla(openTicket(createdAt), policy('America/New_York'), now);
+
+    expect(sla?.firstResponse.elapsedMinutes).toBe(1);
+    // One hour on Friday, the second on Monday 09:00-10:00 EDT
+    expect(sla?.firstResponse.dueAt).toEqual(new Date('2025-03-10T14:00:00Z'));
+    expect(sla?.firstResponse.breached).toBe(false);
+  });
+
+  it('counts whole local weeks across DST changes', () => {
+    // Monday 09:00 in New York, EST and then EDT
+    const createdAt = new Date('2024-01-01T14:00:00Z');
+    const now = new Date('2025-06-04T16:30:00Z'); // Wednesday 12:30 EDT
+
+    const sla = computeTicketSla(openTicket(createdAt), policy('America/New_York'), now);
+
+    const weekdays = countWeekdays('2024-01-01', '2025-06-04');
+    expect(sla?.resolution.elapsedMinutes).toBe(weekdays * 8 * 60 + 3.5 * 60);
+  });
+
+  it('does not walk every day of an old ticket', () => {
+    const formatToParts = vi.spyOn(Intl.DateTimeFormat.prototype, 'formatToParts');
+
+    computeTicketSla(
+      openTicket(new Date('2023-03-15T12:00:00Z')),
+      policy('Europe/Berlin'),
+      new Date('2025-09-17T08:00:00Z')
+    );
+
+    expect(formatToParts.mock.calls.length).toBeLessThan(100);
+  });
+});
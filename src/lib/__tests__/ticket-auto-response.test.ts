@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAIProvider } from '@/lib/ai/fake';
+import type { TicketDocument } from '@/models/Ticket';
+
+const state = {
+  provider: null as FakeAIProvider | null,
+  autoResponse: { enabled: true, confidenceThreshold: 0.7 },
+  searchScore: 0.9
+};
+
+vi.mock('@/models/Org', () => ({
+  default: { findById: async () => ({ ai: { autoResponse: state.autoResponse, tone: {} } }) }
+}));
+vi.mock('@/models/TicketMessage', () => ({
+  default: { create: vi.fn(async (data: Record<string, unknown>) => ({ _id: 'message-1', ...data })) }
+}));
+vi.mock('@/lib/org-ai', () => ({ getOrgAIProvider: async () => state.provider }));
+vi.mock('@/lib/knowledge-base', () => ({
+  searchKnowledgeBase: async () => [
+    { articleId: 'article-1', title: 'Refunds', category: null, excerpt: 'Refunds take 5 days.', score: state.searchScore }
+  ]
+}));
+vi.mock('@/lib/assignment', () => ({ autoAssignTicket: vi.fn(async () => 'agent-1') }));
+vi.mock('@/lib/ticket-notifications', () => ({ notifyAgentReply: vi.fn() }));
+vi.mock('@/lib/webhooks', () => ({ emitMessageWebhook: vi.fn() }));
+
+const {
+  AI_ESCALATED_TAG,
+  AI_NEEDS_REVIEW_TAG,
+  autoRespondToNewTicket,
+  escalateOnHumanRequest,
+  isHumanHandoffRequest
+} = await import('@/lib/ticket-auto-response');
+const TicketMessage = (await import('@/models/TicketMessage')).default;
+const { autoAssignTicket } = await import('@/lib/assignment');
+const { emitMessageWebhook } = await import('@/lib/webhooks');
+const { notifyAgentReply } = await import('@/lib/ticket-notifications');
+
+function makeTicket(overrides: Record<string, unknown> = {}) {
+  const ticket = {
+    _id: 'ticket-1',
+    orgId: 'org-1',
+    subject: 'Refund',
+    description: 'How long do refunds take?',
+    status: 'new',
+    statusHistory: [] as { from: string | null; to: string }[],
+    tags: [] as string[],
+    assigneeId: null as string | null,
+    aiAutoResponse: null as Record<string, unknown> | null,
+    set(path: string, value: string | null) {
+      (this as Record<string, unknown>)[path] = value;
+    },
+    save: vi.fn(),
+    ...overrides
+  };
+  return ticket as typeof ticket & TicketDocument;
+}
+
+describe('isHumanHandoffRequest', () => {
+  it.each([
+    'Can I talk to a human?',
+    'I want to speak with a real person',
+    'let me chat to someone',
+    'Human, please',
+    'agent!',
+    'No, I want to talk to an agent'
+  ])('hands over for "%s"', (text) => {
+    expect(isHumanHandoffRequest(text)).toBe(true);
+  });
+
+  it.each([
+    "I don't want to talk to an agent",
+    'I do not need to speak with a person, thanks',
+    "You don't have to chat with someone, this answered it",
+    'The agent said it was fixed',
+    'Thanks, that worked',
+    'humanity'
+  ])('does not hand over for "%s"', (text) => {
+    expect(isHumanHandoffRequest(text)).toBe(false);
+  });
+});
+
+describe('autoRespondToNewTicket', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.provider = new FakeAIProvider(['Refunds take 5 business days.']);
+    state.autoResponse = { enabled: true, confidenceThreshold: 0.7 };
+    state.searchScore = 0.9;
+  });
+
+  it('answers from the knowledge base and waits on the customer', async () => {
+    const ticket = makeTicket();
+
+    await autoRespondToNewTicket(ticket);
+
+    expect(TicketMessage.create).toHaveBeenCalledWith(expect.objectContaining({
+      authorType: 'ai',
+      body: 'Refunds take 5 business days.',
+      visibility: 'public',
+      ai: { model: 'fake-model', confidence: 0.9, articleIds: ['article-1'] }
+    }));
+    expect(ticket.status).toBe('pending-customer');
+    expect(ticket.statusHistory).toEqual([expect.objectContaining({ from: 'new', to: 'pending-customer' })]);
+    expect(ticket.aiAutoResponse).toMatchObject({ status: 'answered', confidence: 0.9 });
+    expect(ticket.save).toHaveBeenCalled();
+    expect(emitMessageWebhook).toHaveBeenCalled();
+    expect(notifyAgentReply).toHaveBeenCalled();
+  });
+
+  it('routes to a person with the needs-review tag below the confidence threshold', async () => {
+    state.searchScore = 0.5;
+    const ticket = makeTicket();
+
+    await autoRespondToNewTicket(ticket);
+
+    expect(state.provider!.requests).toHaveLength(0);
+    expect(TicketMessage.create).not.toHaveBeenCalled();
+    expect(ticket.tags).toEqual([AI_NEEDS_REVIEW_TAG]);
+    expect(ticket.assigneeId).toBe('agent-1');
+    expect(autoAssignTicket).toHaveBeenCalledWith('org-1', { force: true });
+    expect(ticket.aiAutoResponse).toEqual({ status: 'needs-review', confidence: 0.5 });
+    expect(ticket.status).toBe('new');
+  });
+
+  it('routes to a person when moderation flags the message', async () => {
+    state.provider = new FakeAIProvider(['Refunds take 5 business days.'], { flaggedTerms: ['refunds'] });
+    const ticket = makeTicket({ assigneeId: 'agent-2' });
+
+    await autoRespondToNewTicket(ticket);
+
+    expect(state.provider.requests).toHaveLength(0);
+    expect(ticket.tags).toEqual([AI_NEEDS_REVIEW_TAG]);
+    // An existing assignee is kept
+    expect(ticket.assigneeId).toBe('agent-2');
+    expect(autoAssignTicket).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when the org has not enabled auto-responses', async () => {
+    state.autoResponse = { enabled: false, confidenceThreshold: 0.7 };
+    const ticket = makeTicket();
+
+    await autoRespondToNewTicket(ticket);
+
+    expect(ticket.save).not.toHaveBeenCalled();
+    expect(ticket.aiAutoResponse).toBeNull();
+  });
+});
+
+describe('escalateOnHumanRequest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reopens an AI-answered ticket for a person when the customer asks for one', async () => {
+    const ticket = makeTicket({
+      status: 'pending-customer',
+      aiAutoResponse: { status: 'answered', confidence: 0.9 }
+    });
+
+    expect(await escalateOnHumanRequest(ticket, 'That did not help, can I talk to a human?')).toBe(true);
+
+    expect(ticket.status).toBe('open');
+    expect(ticket.statusHistory).toEqual([expect.objectContaining({ from: 'pending-customer', to: 'open' })]);
+    expect(ticket.tags).toEqual([AI_ESCALATED_TAG]);
+    expect(ticket.assigneeId).toBe('agent-1');
+    expect(ticket.aiAutoResponse).toMatchObject({ status: 'escalated', escalatedAt: expect.any(Date) });
+    expect(ticket.save).toHaveBeenCalled();
+  });
+
+  it('leaves the ticket alone for other replies or tickets the AI did not answer', async () => {
+    const answered = makeTicket({ status: 'pending-customer', aiAutoResponse: { status: 'answered' } });
+    const unanswered = makeTicket({ status: 'pending-customer' });
+
+    expect(await escalateOnHumanRequest(answered, "Thanks, I don't want to talk to an agent")).toBe(false);
+    expect(await escalateOnHumanRequest(unanswered, 'Can I talk to a human?')).toBe(false);
+    expect(answered.status).toBe('pending-customer');
+    expect(unanswered.save).not.toHaveBeenCalled();
+  });
+});
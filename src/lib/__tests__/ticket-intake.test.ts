@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TicketDocument } from '@/models/Ticket';
+
+const scheduled: (() => Promise<void>)[] = [];
+
+vi.mock('next/server', () => ({
+  after: (task: () => Promise<void>) => {
+    scheduled.push(task);
+  }
+}));
+vi.mock('@/lib/ticket-triage', () => ({ triageNewTicket: vi.fn() }));
+vi.mock('@/lib/webhooks', () => ({ emitTicketWebhook: vi.fn(), emitMessageWebhook: vi.fn() }));
+vi.mock('@/lib/ticket-notifications', () => ({ notifyTicketCreated: vi.fn() }));
+vi.mock('@/lib/ticket-auto-response', () => ({
+  autoRespondToNewTicket: vi.fn(),
+  escalateOnHumanRequest: vi.fn()
+}));
+vi.mock('@/lib/message-translation', () => ({ translateInboundMessages: vi.fn() }));
+vi.mock('@/lib/ticket-summary', () => ({ refreshTicketSummary: vi.fn() }));
+vi.mock('@/models/TicketMessage', () => ({
+  default: { create: vi.fn(async (data: Record<string, unknown>) => ({ _id: 'message-1', ...data })) }
+}));
+
+const { scheduleNewTicketAutomation, addCustomerReply } = await import('@/lib/ticket-intake');
+const { triageNewTicket } = await import('@/lib/ticket-triage');
+const { emitTicketWebhook } = await import('@/lib/webhooks');
+const { notifyTicketCreated } = await import('@/lib/ticket-notifications');
+const { autoRespondToNewTicket } = await import('@/lib/ticket-auto-response');
+const { translateInboundMessages } = await import('@/lib/message-translation');
+const { refreshTicketSummary } = await import('@/lib/ticket-summary');
+
+const ticket = { _id: 'ticket-1' } as unknown as TicketDocument;
+
+describe('scheduleNewTicketAutomation', () => {
+  beforeEach(() => {
+    scheduled.length = 0;
+    vi.clearAllMocks();
+  });
+
+  it('defers triage and auto-response until after the response', async () => {
+    scheduleNewTicketAutomation(ticket, { priorityProvided: true });
+
+    expect(triageNewTicket).not.toHaveBeenCalled();
+    expect(autoRespondToNewTicket).not.toHaveBeenCalled();
+    expect(scheduled).toHaveLength(1);
+
+    await scheduled[0]();
+
+    expect(triageNewTicket).toHaveBeenCalledWith(ticket, { priorityProvided: true });
+    expect(emitTicketWebhook).toHaveBeenCalledWith('ticket.created', ticket);
+    expect(notifyTicketCreated).toHaveBeenCalledWith(ticket);
+    expect(autoRespondToNewTicket).toHaveBeenCalledWith(ticket);
+  });
+
+  it('logs failures instead of throwing', async () => {
+    vi.mocked(triageNewTicket).mockRejectedValueOnce(new Error('provider timeout'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    scheduleNewTicketAutomation(ticket, { priorityProvided: false });
+    await expect(scheduled[0]()).resolves.toBeUndefined();
+
+    expect(consoleError).toHaveBeenCalledWith('New ticket automation failed:', expect.any(Error));
+    expect(autoRespondToNewTicket).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('addCustomerReply', () => {
+  beforeEach(() => {
+    scheduled.length = 0;
+    vi.clearAllMocks();
+  });
+
+  it('reopens the ticket and defers translation and the summary until after the response', async () => {
+    const waiting = {
+      _id: 'ticket-1',
+      orgId: 'org-1',
+      status: 'pending-customer',
+      statusHistory: [],
+      save: vi.fn()
+    } as unknown as TicketDocument;
+
+    const message = await addCustomerReply(waiting, { email: 'jane@example.com', body: 'Still broken' });
+
+    expect(waiting.status).toBe('open');
+    expect(waiting.save).toHaveBeenCalled();
+    expect(translateInboundMessages).not.toHaveBeenCalled();
+    expect(scheduled).toHaveLength(2);
+
+    await Promise.all(scheduled.map((task) => task()));
+
+    expect(translateInboundMessages).toHaveBeenCalledWith(waiting, [message]);
+    expect(refreshTicketSummary).toHaveBeenCalledWith(waiting, message);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setEmailTransport, type EmailTransport, type OutgoingEmail } from '@/lib/email/transport';
+import type { TicketDocument } from '@/models/Ticket';
+import type { TicketMessageDocument } from '@/models/TicketMessage';
+
+vi.stubEnv('INBOUND_EMAIL_DOMAIN', 'mail.example.com');
+vi.stubEnv('EMAIL_FROM_ADDRESS', '');
+
+const org = {
+  name: 'Acme',
+  slug: 'acme',
+  email: { notifyOn: {} as Record<string, boolean>, branding: {} }
+};
+
+vi.mock('@/models/Org', () => ({ default: { findById: async () => org } }));
+vi.mock('@/models/TicketMessage', () => ({
+  default: { findOne: () => ({ sort: async () => ({ emailMessageId: 'customer-reply@example.com' }) }) }
+}));
+vi.mock('@/models/Attachment', () => ({ default: { find: () => ({ sort: async () => [] }) } }));
+
+const { notifyAgentReply, notifyStatusChange, notifyTicketCreated } = await import('@/lib/ticket-notifications');
+const { parseSupportAddress, verifyReplyToken } = await import('@/lib/email/addresses');
+
+class CapturingTransport implements EmailTransport {
+  readonly sent: OutgoingEmail[] = [];
+
+  async send(email: OutgoingEmail): Promise<{ id: string }> {
+    this.sent.push(email);
+    return { id: `email-${this.sent.length}` };
+  }
+}
+
+const ticketId = '65f000000000000000000001';
+
+function makeTicket(overrides: Record<string, unknown> = {}) {
+  return {
+    _id: ticketId,
+    orgId: 'org-1',
+    subject: 'Broken <b>checkout</b>',
+    requester: { name: 'Jane', email: 'jane@example.com' },
+    channel: 'email',
+    emailMessageId: 'original@example.com',
+    ...overrides
+  } as unknown as TicketDocument;
+}
+
+function makeMessage(overrides: Record<string, unknown> = {}) {
+  return {
+    _id: 'message-1',
+    orgId: 'org-1',
+    authorType: 'agent',
+    visibility: 'public',
+    body: 'We fixed it.',
+    emailMessageId: null,
+    save: vi.fn(),
+    ...overrides
+  } as unknown as TicketMessageDocument;
+}
+
+describe('ticket notifications', () => {
+  let transport: CapturingTransport;
+
+  beforeEach(() => {
+    transport = new CapturingTransport();
+    setEmailTransport(transport);
+    org.email.notifyOn = {};
+  });
+
+  afterEach(() => {
+    setEmailTransport(null);
+  });
+
+  it('acknowledges a new ticket from the org, with a reply-to that threads back to it', async () => {
+    await notifyTicketCreated(makeTicket());
+
+    const [email] = transport.sent;
+    expect(email.to).toBe('jane@example.com');
+    expect(email.from).toBe('"Acme" <support@acme.mail.example.com>');
+    expect(email.subject).toBe('We received your request: Broken <b>checkout</b>');
+    expect(email.html).toContain('Broken &lt;b&gt;checkout&lt;/b&gt;');
+
+    const replyTo = parseSupportAddress(email.replyTo!);
+    expect(replyTo?.orgSlug).toBe('acme');
+    expect(verifyReplyToken(replyTo!.replyToken!)).toBe(ticketId);
+  });
+
+  it('sends agent replies in the customer thread and remembers the Message-ID', async () => {
+    const message = makeMessage();
+
+    await notifyAgentReply(makeTicket(), message);
+
+    const [email] = transport.sent;
+    expect(email.text).toContain('We fixed it.');
+    expect(email.headers).toMatchObject({
+      'In-Reply-To': '<customer-reply@example.com>',
+      'References': '<original@example.com> <customer-reply@example.com>'
+    });
+    expect(email.headers?.['Message-ID']).toBe(`<${message.emailMessageId}>`);
+    expect(message.save).toHaveBeenCalled();
+  });
+
+  it('never emails internal notes or customer messages', async () => {
+    await notifyAgentReply(makeTicket(), makeMessage({ visibility: 'internal' }));
+    await notifyAgentReply(makeTicket(), makeMessage({ authorType: 'requester' }));
+
+    expect(transport.sent).toEqual([]);
+  });
+
+  it('keeps chat tickets silent except for status changes', async () => {
+    const chat = makeTicket({ channel: 'chat' });
+
+    await notifyTicketCreated(chat);
+    await notifyAgentReply(chat, makeMessage());
+    expect(transport.sent).toEqual([]);
+
+    await notifyStatusChange(chat, 'open', 'solved');
+    expect(transport.sent.map((email) => email.subject)).toEqual([
+      'Your request has been solved: Broken <b>checkout</b>'
+    ]);
+  });
+
+  it('only emails status changes the customer cares about', async () => {
+    await notifyStatusChange(makeTicket(), 'new', 'open');
+    await notifyStatusChange(makeTicket(), 'open', 'pending-customer');
+    expect(transport.sent).toEqual([]);
+
+    await notifyStatusChange(makeTicket(), 'solved', 'open');
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it('respects the org turning an event off', async () => {
+    org.email.notifyOn = { ticketCreated: false };
+
+    await notifyTicketCreated(makeTicket());
+
+    expect(transport.sent).toEqual([]);
+  });
+
+  it('never emails a support mailbox, which would loop', async () => {
+    await notifyTicketCreated(makeTicket({ requester: { email: 'support@other.mail.example.com' } }));
+
+    expect(transport.sent).toEqual([]);
+  });
+});
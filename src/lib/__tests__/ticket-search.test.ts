@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { ticketQuerySchema } from '@/lib/validations';
+
+const tickets = Array.from({ length: 3 }, (_, i) => ({
+  _id: new Types.ObjectId(),
+  createdAt: new Date(Date.UTC(2025, 0, 3 - i)),
+  updatedAt: new Date(Date.UTC(2025, 1, 3 - i))
+}));
+
+vi.mock('@/models/Ticket', () => ({
+  default: {
+    find: () => ({
+      sort: () => ({ limit: async (count: number) => tickets.slice(0, count) })
+    })
+  }
+}));
+vi.mock('@/models/TicketMessage', () => ({ default: {} }));
+vi.mock('@/lib/ticket-fields', () => ({ buildCustomFieldFilter: vi.fn() }));
+
+const { searchTickets, searchParamsToObject } = await import('@/lib/ticket-search');
+
+const parse = (query: string) =>
+  ticketQuerySchema.safeParse(searchParamsToObject(new URLSearchParams(query)));
+
+describe('ticket search params', () => {
+  it('collects cf.<key> filters under customFields', () => {
+    const result = parse('status=new&status=open&cf.plan=gold');
+    expect(result.success && result.data.status).toEqual(['new', 'open']);
+    expect(result.success && result.data.customFields).toEqual({ plan: ['gold'] });
+  });
+
+  it.each(['cf.$where=1', 'cf.plan.tier=gold', 'cf.Plan=gold'])('rejects the field key in %s', (query) => {
+    expect(parse(query).success).toBe(false);
+  });
+});
+
+describe('searchTickets', () => {
+  it('returns a cursor that only pages the sort it was made for', async () => {
+    const first = await searchTickets('org-1', 'user-1', ticketQuerySchema.parse({ limit: '2' }));
+    if ('error' in first) {
+      throw new Error(first.error);
+    }
+    expect(first.tickets).toHaveLength(2);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    const sameSort = await searchTickets('org-1', 'user-1', ticketQuerySchema.parse({
+      limit: '2',
+      cursor: first.nextCursor
+    }));
+    expect(sameSort).not.toHaveProperty('error');
+
+    const otherSort = await searchTickets('org-1', 'user-1', ticketQuerySchema.parse({
+      limit: '2',
+      sort: 'updatedAt',
+      cursor: first.nextCursor
+    }));
+    expect(otherSort).toEqual({ error: 'Invalid cursor' });
+  });
+
+  it('rejects cursors with unparsable positions', async () => {
+    const cursor = Buffer.from(JSON.stringify({
+      sort: '-createdAt',
+      value: 'not a date',
+      id: 'abc'
+    })).toString('base64url');
+
+    const result = await searchTickets('org-1', 'user-1', ticketQuerySchema.parse({ cursor }));
+    expect(result).toEqual({ error: 'Invalid cursor' });
+  });
+});
@@ -0,0 +1,346 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface Attempt {
+  at: Date;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+  manual?: boolean;
+}
+
+interface FakeDelivery {
+  _id: string;
+  endpointId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: Attempt[];
+  nextAttemptAt: Date | null;
+  save: () => Promise<void>;
+}
+
+const state = {
+  delivery: null as FakeDelivery | null,
+  endpoint: null as { _id: string; url: string; secret: string; enabled: boolean } | null
+};
+
+vi.mock('@/models/WebhookDelivery', () => ({
+  default: {
+    // Applies the claim the way MongoDB would: only a pending delivery that is due
+    findOneAndUpdate: vi.fn(async (
+      filter: { status: string; nextAttemptAt: { $lte: Date } },
+      update: { nextAttemptAt: Date }
+    ) => {
+      const delivery = state.delivery;
+      if (
+        !delivery ||
+        delivery.status !== filter.status ||
+        !delivery.nextAttemptAt ||
+        delivery.nextAttemptAt > filter.nextAttemptAt.$lte
+      ) {
+        return null;
+      }
+      delivery.nextAttemptAt = update.nextAttemptAt;
+      return delivery;
+    })
+  }
+}));
+vi.mock('@/models/WebhookEndpoint', () => ({ default: { findById: async () => state.endpoint } }));
+vi.mock('@/lib/tickets', () => ({ serializeTicket: vi.fn(), serializeTicketMessage: vi.fn() }));
+
+const { attemptWebhookDelivery, checkWebhookUrl, isPrivateAddress, signWebhookPayload } =
+  await import('@/lib/webhooks');
+const WebhookDelivery = (await import('@/models/WebhookDelivery')).default;
+
+const MINUTE_MS = 60 * 1000;
+
+function automaticAttempt(statusCode = 500): Attempt {
+  return { at: new Date(), statusCode, error: `HTTP ${statusCode}`, durationMs: 5 };
+}
+
+function manualAttempt(statusCode = 500): Attempt {
+  return { ...automaticAttempt(statusCode), manual: true };
+}
+
+function makeDelivery(attempts: Attempt[] = []): FakeDelivery {
+  return {
+    _id: 'delivery-1',
+    endpointId: 'endpoint-1',
+    event: 'ticket.created',
+    payload: { id: 'event-1', type: 'ticket.created', data: { ticket: { id: 'ticket-1' } } },
+    status: 'pending',
+    attempts,
+    nextAttemptAt: new Date(Date.now() - 1000),
+    save: vi.fn(async () => {})
+  };
+}
+
+describe('signWebhookPayload', () => {
+  it('signs "<timestamp>.<body>" with the endpoint secret', () => {
+    const body = '{"type":"ticket.created"}';
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+
+    expect(signWebhookPayload('whsec_test', 1700000000, body)).toBe(expected);
+  });
+
+  it('binds the signature to the timestamp so it cannot be replayed later', () => {
+    expect(signWebhookPayload('whsec_test', 1700000000, '{}'))
+      .not.toBe(signWebhookPayload('whsec_test', 1700000001, '{}'));
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.0.0.1',
+    '172.16.5.4',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    '::ffff:127.0.0.1',
+    '::ffff:10.0.0.1',
+    '::ffff:169.254.169.254',
+    '64:ff9b::a00:1',
+    '2002:a00:1::1',
+    'fd00::1',
+    'fe80::1'
+  ])('treats %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '::ffff:8.8.8.8', '2606:4700::1111', 'example.com'])('treats %s as public', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('checkWebhookUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts public https URLs', () => {
+    expect(checkWebhookUrl('https://hooks.example.com/ai-desk')).toBeNull();
+  });
+
+  it.each([
+    'https://localhost/hook',
+    'https://app.localhost/hook',
+    'https://metadata.google.internal/computeMetadata/v1',
+    'https://127.0.0.1/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'https://[::1]/hook',
+    'https://[::ffff:7f00:1]/hook',
+    'https://[2002:a00:1::1]/hook'
+  ])('rejects %s', (url) => {
+    expect(checkWebhookUrl(url)).toBe('Webhook URLs must be publicly reachable');
+  });
+
+  it('allows plain http outside production only', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    expect(checkWebhookUrl('http://hooks.example.com/ai-desk')).toBeNull();
+
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(checkWebhookUrl('http://hooks.example.com/ai-desk')).toBe('Webhook URLs must use https');
+  });
+
+  it('never allows other protocols', () => {
+    expect(checkWebhookUrl('ftp://hooks.example.com/ai-desk')).toBe('Webhook URLs must use https');
+  });
+
+  it('allows private addresses when WEBHOOK_ALLOW_PRIVATE_URLS is set', () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', 'true');
+
+    expect(checkWebhookUrl('http://localhost:4000/hook')).toBeNull();
+  });
+});
+
+describe('attemptWebhookDelivery', () => {
+  const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+  const response = { statusCode: 200 };
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer((request, res) => {
+      let body = '';
+      request.on('data', (chunk) => {
+        body += chunk;
+      });
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        res.statusCode = response.statusCode;
+        res.end('ignored');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', 'true');
+    received.length = 0;
+    response.statusCode = 200;
+    state.endpoint = { _id: 'endpoint-1', url, secret: 'whsec_test', enabled: true };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('posts the signed payload and marks the delivery succeeded', async () => {
+    const delivery = state.delivery = makeDelivery();
+
+    await attemptWebhookDelivery('delivery-1');
+
+    expect(delivery.status).toBe('succeeded');
+    expect(delivery.nextAttemptAt).toBeNull();
+    expect(delivery.attempts).toEqual([expect.objectContaining({ statusCode: 200, error: null })]);
+    expect(delivery.save).toHaveBeenCalled();
+
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual(delivery.payload);
+    expect(headers['x-webhook-event']).toBe('ticket.created');
+    expect(headers['x-webhook-delivery']).toBe('delivery-1');
+    const timestamp = Number(headers['x-webhook-timestamp']);
+    expect(headers['x-webhook-signature']).toBe(`sha256=${signWebhookPayload('whsec_test', timestamp, body)}`);
+  });
+
+  it('claims the delivery with a lease before sending', async () => {
+    const delivery = state.delivery = makeDelivery();
+    response.statusCode = 503;
+    const before = Date.now();
+
+    await attemptWebhookDelivery('delivery-1');
+
+    const [[filter, update]] = vi.mocked(WebhookDelivery.findOneAndUpdate).mock.calls as unknown as [
+      [{ _id: string; status: string; nextAttemptAt: { $lte: Date } }, { nextAttemptAt: Date }]
+    ];
+    expect(filter).toMatchObject({ _id: 'delivery-1', status: 'pending' });
+    expect(update.nextAttemptAt.getTime() - filter.nextAttemptAt.$lte.getTime()).toBe(MINUTE_MS);
+    expect(update.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + MINUTE_MS);
+    expect(delivery.attempts).toHaveLength(1);
+  });
+
+  it('sends nothing when another worker holds the claim', async () => {
+    const delivery = state.delivery = makeDelivery();
+    delivery.nextAttemptAt = new Date(Date.now() + 30 * 1000);
+
+    await attemptWebhookDelivery('delivery-1');
+
+    expect(received).toEqual([]);
+    expect(delivery.attempts).toEqual([]);
+    expect(delivery.save).not.toHaveBeenCalled();
+  });
+
+  it('sends nothing for a delivery that is no longer pending', async () => {
+    const delivery = state.delivery = makeDelivery();
+    delivery.status = 'succeeded';
+
+    await attemptWebhookDelivery('delivery-1');
+
+    expect(received).toEqual([]);
+    expect(delivery.save).not.toHaveBeenCalled();
+  });
+
+  it('backs off exponentially after each failed automatic attempt', async () => {
+    response.statusCode = 500;
+
+    const first = state.delivery = makeDelivery();
+    let before = Date.now();
+    await attemptWebhookDelivery('delivery-1');
+    expect(first.status).toBe('pending');
+    expect(first.attempts).toEqual([expect.objectContaining({ statusCode: 500, error: 'HTTP 500' })]);
+    expect(first.nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(MINUTE_MS);
+    expect(first.nextAttemptAt!.getTime() - before).toBeLessThan(2 * MINUTE_MS);
+
+    const fourth = state.delivery = makeDelivery([automaticAttempt(), automaticAttempt(), automaticAttempt()]);
+    before = Date.now();
+    await attemptWebhookDelivery('delivery-1');
+    expect(fourth.nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(8 * MINUTE_MS);
+    expect(fourth.nextAttemptAt!.getTime() - before).toBeLessThan(9 * MINUTE_MS);
+  });
+
+  it('does not count manual redeliveries towards the backoff', async () => {
+    response.statusCode = 500;
+    const delivery = state.delivery = makeDelivery([automaticAttempt(), manualAttempt(), manualAttempt()]);
+    const before = Date.now();
+
+    await attemptWebhookDelivery('delivery-1');
+
+    // Second automatic attempt: two minutes, not the eight of a fourth attempt
+    expect(delivery.status).toBe('pending');
+    expect(delivery.nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(2 * MINUTE_MS);
+    expect(delivery.nextAttemptAt!.getTime() - before).toBeLessThan(3 * MINUTE_MS);
+  });
+
+  it('gives up after the eighth automatic attempt, however many manual ones there were', async () => {
+    response.statusCode = 500;
+    const sixAutomatic = Array.from({ length: 6 }, () => automaticAttempt());
+
+    const retried = state.delivery = makeDelivery([...sixAutomatic, manualAttempt(), manualAttempt()]);
+    await attemptWebhookDelivery('delivery-1');
+    expect(retried.status).toBe('pending');
+
+    const exhausted = state.delivery = makeDelivery([...sixAutomatic, automaticAttempt(), manualAttempt()]);
+    await attemptWebhookDelivery('delivery-1');
+    expect(exhausted.status).toBe('failed');
+    expect(exhausted.nextAttemptAt).toBeNull();
+    expect(exhausted.attempts).toHaveLength(9);
+  });
+
+  it('fails the delivery without sending when the endpoint was disabled', async () => {
+    const delivery = state.delivery = makeDelivery();
+    state.endpoint!.enabled = false;
+
+    await attemptWebhookDelivery('delivery-1');
+
+    expect(received).toEqual([]);
+    expect(delivery.status).toBe('failed');
+    expect(delivery.nextAttemptAt).toBeNull();
+  });
+
+  it('refuses private addresses at send time', async () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', '');
+    const delivery = state.delivery = makeDelivery();
+
+    await attemptWebhookDelivery('delivery-1');
+
+    expect(received).toEqual([]);
+    expect(delivery.attempts).toEqual([
+      expect.objectContaining({ statusCode: null, error: 'Webhook URLs must be publicly reachable' })
+    ]);
+  });
+
+  it('refuses hostnames that resolve to a private address', async () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', '');
+    vi.spyOn(dns, 'lookup').mockImplementation(((
+      _hostname: string,
+      _options: unknown,
+      callback: (error: null, addresses: { address: string; family: number }[]) => void
+    ) => {
+      callback(null, [{ address: '10.0.0.5', family: 4 }]);
+    }) as unknown as typeof dns.lookup);
+    state.endpoint!.url = 'http://hooks.example.com/ai-desk';
+    const delivery = state.delivery = makeDelivery();
+
+    await attemptWebhookDelivery('delivery-1');
+
+    expect(received).toEqual([]);
+    expect(delivery.attempts).toEqual([
+      expect.objectContaining({ statusCode: null, error: 'hooks.example.com resolves to a private address' })
+    ]);
+  });
+});
@@ -0,0 +1,234 @@
+import { Types } from 'mongoose';
+import Org from '@/models/Org';
+import AiUsage from '@/models/AiUsage';
+import { getPlanLimits } from '@/lib/plans';
+import { estimateCostUsd } from '@/lib/ai/pricing';
+import type {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  ModerationRequest,
+  ModerationResult,
+  TokenUsage
+} from '@/lib/ai/provider';
+
+export type AIFeature =
+  | 'triage'
+  | 'reply-suggestion'
+  | 'summary'
+  | 'auto-response'
+  | 'kb-index'
+  | 'kb-search'
+  | 'translation';
+
+/**
+ * Who an AI call is made for; recorded with its token usage
+ */
+export interface AIUsageContext {
+  feature: AIFeature;
+  /** null for calls the system makes on its own */
+  userId?: string | null;
+}
+
+/**
+ * Thrown before an AI call when the org has used up its monthly token quota
+ */
+export class AIQuotaExceededError extends Error {
+  constructor(readonly limit: number) {
+    super('Monthly AI token quota exceeded');
+    this.name = 'AIQuotaExceededError';
+  }
+}
+
+/**
+ * Start of the current calendar month (UTC)
+ */
+function startOfMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Tokens the org has used since the start of the month
+ */
+export async function getMonthlyTokenUsage(orgId: string, now: Date = new Date()): Promise<number> {
+  const [result] = await AiUsage.aggregate([
+    { $match: { orgId: new Types.ObjectId(orgId), createdAt: { $gte: startOfMonth(now) } } },
+    { $group: { _id: null, tokens: { $sum: '$totalTokens' } } }
+  ]);
+  return result?.tokens ?? 0;
+}
+
+/**
+ * The org's monthly token quota from its plan, with current usage
+ */
+export async function getAIQuota(orgId: string, now: Date = new Date()) {
+  const [org, used] = await Promise.all([
+    Org.findById(orgId).select('plan'),
+    getMonthlyTokenUsage(orgId, now)
+  ]);
+  const limit = getPlanLimits(org?.plan).monthlyAITokens;
+  
+  return {
+    plan: org?.plan ?? 'FREE',
+    monthlyTokens: limit,
+    usedTokens: used,
+    remainingTokens: Math.max(0, limit - used),
+    periodStart: startOfMonth(now)
+  };
+}
+
+async function recordAIUsage(
+  orgId: string,
+  context: AIUsageContext,
+  operation: 'chat' | 'embedding' | 'moderation',
+  model: string,
+  usage: TokenUsage
+): Promise<void> {
+  try {
+    await AiUsage.create({
+      orgId,
+      userId: context.userId ?? null,
+      feature: context.feature,
+      operation,
+      model,
+      ...usage,
+      costUsd: estimateCostUsd(model, usage)
+    });
+  } catch (error) {
+    // Losing a usage record must not fail the feature that made the call
+    console.error('Failed to record AI usage:', error);
+  }
+}
+
+/**
+ * Wraps a provider so every call is checked against the org's monthly quota
+ * beforehand and recorded (org, user, feature, model, tokens) afterwards
+ */
+export class MeteredAIProvider implements AIProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: AIProvider,
+    private readonly orgId: string,
+    private readonly context: AIUsageContext
+  ) {
+    this.name = inner.name;
+  }
+
+  private async checkQuota(): Promise<void> {
+    const quota = await getAIQuota(this.orgId);
+    if (quota.remainingTokens <= 0) {
+      throw new AIQuotaExceededError(quota.monthlyTokens);
+    }
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    await this.checkQuota();
+    const result = await this.inner.chat(request);
+    await recordAIUsage(this.orgId, this.context, 'chat', result.model, result.usage);
+    return result;
+  }
+
+  async chatStream(
+    request: ChatCompletionRequest,
+    onDelta: (text: string) => void
+  ): Promise<ChatCompletionResult> {
+    await this.checkQuota();
+    const result = await this.inner.chatStream(request, onDelta);
+    await recordAIUsage(this.orgId, this.context, 'chat', result.model, result.usage);
+    return result;
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    await this.checkQuota();
+    const result = await this.inner.embed(request);
+    await recordAIUsage(this.orgId, this.context, 'embedding', result.model, result.usage);
+    return result;
+  }
+
+  // Moderation is free, so it is recorded but not held to the quota
+  async moderate(request: ModerationRequest): Promise<ModerationResult> {
+    const result = await this.inner.moderate(request);
+    await recordAIUsage(this.orgId, this.context, 'moderation', result.model, {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0
+    });
+    return result;
+  }
+}
+
+/**
+ * Daily token and cost breakdown by feature for a date range (UTC days, inclusive)
+ */
+export async function getAIUsageReport(orgId: string, from: Date, to: Date) {
+  const rows: {
+    _id: { day: string; feature: string };
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number;
+  }[] = await AiUsage.aggregate([
+    { $match: { orgId: new Types.ObjectId(orgId), createdAt: { $gte: from, $lt: to } } },
+    {
+      $group: {
+        _id: {
+          day: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone: 'UTC' } },
+          feature: '$feature'
+        },
+        calls: { $sum: 1 },
+        promptTokens: { $sum: '$promptTokens' },
+        completionTokens: { $sum: '$completionTokens' },
+        totalTokens: { $sum: '$totalTokens' },
+        costUsd: { $sum: { $ifNull: ['$costUsd', 0] } }
+      }
+    },
+    { $sort: { '_id.day': 1, '_id.feature': 1 } }
+  ]);
+  
+  const emptyTotals = () => ({ calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 });
+  type Totals = ReturnType<typeof emptyTotals>;
+  const add = (target: Totals, row: Totals) => {
+    target.calls += row.calls;
+    target.promptTokens += row.promptTokens;
+    target.completionTokens += row.completionTokens;
+    target.totalTokens += row.totalTokens;
+    target.costUsd += row.costUsd;
+  };
+  
+  const totals = emptyTotals();
+  const byFeature = new Map<string, Totals>();
+  const days = new Map<string, Totals & { byFeature: Record<string, Totals> }>();
+  
+  for (const row of rows) {
+    const { day, feature } = row._id;
+    add(totals, row);
+    
+    if (!byFeature.has(feature)) {
+      byFeature.set(feature, emptyTotals());
+    }
+    add(byFeature.get(feature)!, row);
+    
+    if (!days.has(day)) {
+      days.set(day, { ...emptyTotals(), byFeature: {} });
+    }
+    const entry = days.get(day)!;
+    add(entry, row);
+    entry.byFeature[feature] = {
+      calls: row.calls,
+      promptTokens: row.promptTokens,
+      completionTokens: row.completionTokens,
+      totalTokens: row.totalTokens,
+      costUsd: row.costUsd
+    };
+  }
+  
+  return {
+    totals,
+    byFeature: Object.fromEntries(byFeature),
+    daily: [...days].map(([date, entry]) => ({ date, ...entry }))
+  };
+}
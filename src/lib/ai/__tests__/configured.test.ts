@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { ConfiguredAIProvider } from '@/lib/ai/configured';
+import { FakeAIProvider } from '@/lib/ai/fake';
+
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+describe('ConfiguredAIProvider', () => {
+  it('keeps a temperature set by the call over the org default', async () => {
+    const fake = new FakeAIProvider(['draft']);
+    const provider = new ConfiguredAIProvider(fake, { temperature: 0.2 });
+
+    for (const temperature of [0.7, 0.9, 1.1]) {
+      await provider.chat({ messages, temperature });
+    }
+
+    expect(fake.requests.map((request) => request.temperature)).toEqual([0.7, 0.9, 1.1]);
+  });
+
+  it('uses the org temperature and model when the call sets none', async () => {
+    const fake = new FakeAIProvider(['ok']);
+    const provider = new ConfiguredAIProvider(fake, { model: 'org-model', temperature: 0.2 });
+
+    const result = await provider.chat({ messages });
+
+    expect(fake.requests[0]).toMatchObject({ model: 'org-model', temperature: 0.2 });
+    expect(result.model).toBe('org-model');
+  });
+
+  it('falls back to the next model when a call fails', async () => {
+    const fake = new FakeAIProvider([
+      () => {
+        throw new Error('model overloaded');
+      },
+      'from fallback'
+    ]);
+    const provider = new ConfiguredAIProvider(fake, { model: 'primary', fallbackModels: ['backup'] });
+
+    const result = await provider.chat({ messages });
+
+    expect(fake.requests.map((request) => request.model)).toEqual(['primary', 'backup']);
+    expect(result).toMatchObject({ content: 'from fallback', model: 'backup' });
+  });
+});
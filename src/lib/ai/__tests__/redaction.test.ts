@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILT_IN_REDACTION_RULES,
+  PiiRedactor,
+  checkRedactionPattern,
+  compileCustomRules,
+  passesLuhn
+} from '@/lib/ai/redaction';
+
+function redactor(rules = BUILT_IN_REDACTION_RULES) {
+  return new PiiRedactor(rules);
+}
+
+describe('built-in rules', () => {
+  it('redacts email addresses', () => {
+    expect(redactor().redact('Write to jane.doe+billing@mail.example.co.uk today'))
+      .toBe('Write to [EMAIL_1] today');
+  });
+
+  it('redacts card numbers that pass the Luhn check', () => {
+    expect(redactor().redact('Card 4111 1111 1111 1111 was declined'))
+      .toBe('Card [CARD_1] was declined');
+    expect(redactor().redact('Card 5500-0000-0000-0004 was declined'))
+      .toBe('Card [CARD_1] was declined');
+  });
+
+  it('leaves long digit runs that fail the Luhn check to the other rules', () => {
+    expect(passesLuhn('4111 1111 1111 1112')).toBe(false);
+    expect(redactor().redact('Order 4111111111111112')).not.toContain('[CARD_');
+  });
+
+  it('redacts phone numbers', () => {
+    expect(redactor().redact('Call +1 (555) 123-4567 or 020 7946 0958'))
+      .toBe('Call [PHONE_1] or [PHONE_2]');
+  });
+
+  it('does not mistake dates or short numbers for phone numbers', () => {
+    const text = 'Ordered on 2024-05-01, delivered 01.05.2024, order 12345';
+    expect(redactor().redact(text)).toBe(text);
+  });
+
+  it('redacts street addresses', () => {
+    expect(redactor().redact('Ship it to 221B Baker Street, Apt 4 please'))
+      .toBe('Ship it to [ADDRESS_1] please');
+    expect(redactor().redact('We moved to 1600 Pennsylvania Ave last year'))
+      .toBe('We moved to [ADDRESS_1] last year');
+  });
+
+  it('maps the same value to the same placeholder', () => {
+    expect(redactor().redact('a@example.com, b@example.com, a@example.com'))
+      .toBe('[EMAIL_1], [EMAIL_2], [EMAIL_1]');
+  });
+});
+
+describe('custom rules', () => {
+  it('derives the label from the rule name and applies the flags', () => {
+    const rules = compileCustomRules([{ name: 'Account number', pattern: 'acct-\\d{6}', flags: 'i' }]);
+
+    expect(rules[0].label).toBe('ACCOUNT_NUMBER');
+    expect(redactor(rules).redact('See ACCT-123456 and acct-654321'))
+      .toBe('See [ACCOUNT_NUMBER_1] and [ACCOUNT_NUMBER_2]');
+  });
+
+  it('runs before the built-in rules', () => {
+    const rules = compileCustomRules([{ name: 'Employee id', pattern: 'EMP\\d{7}' }]);
+
+    expect(redactor([...rules, ...BUILT_IN_REDACTION_RULES]).redact('Badge EMP1234567'))
+      .toBe('Badge [EMPLOYEE_ID_1]');
+  });
+
+  it('skips invalid and unsafe patterns', () => {
+    const rules = compileCustomRules([
+      { name: 'Broken', pattern: '(' },
+      { name: 'Nested', pattern: '(a+)+$' },
+      { name: 'Ok', pattern: 'ok-\\d+' }
+    ]);
+
+    expect(rules.map((rule) => rule.label)).toEqual(['OK']);
+  });
+});
+
+describe('checkRedactionPattern', () => {
+  it.each([
+    'acct-\\d{6}',
+    '[A-Z]{2}\\d{2}(?: ?\\d{4}){4}',
+    '(?:INV|PO)-\\d+',
+    '(?<prefix>ID)-\\d+',
+    '[(+*)]+\\d+',
+    '\\(\\d+\\)+'
+  ])('accepts %s', (pattern) => {
+    expect(checkRedactionPattern(pattern)).toBeNull();
+  });
+
+  it.each([
+    '(a+)+$',
+    '(\\d*)*x',
+    '(a|aa)+b',
+    '(?:\\w+\\s?){2,}!',
+    '((ab)+c)*'
+  ])('rejects %s', (pattern) => {
+    expect(checkRedactionPattern(pattern)).toMatch(/not allowed/);
+  });
+
+  it('rejects backreferences and long patterns', () => {
+    expect(checkRedactionPattern('(\\d)\\1')).toBe('Backreferences are not allowed');
+    expect(checkRedactionPattern('(?<d>\\d)\\k<d>')).toBe('Backreferences are not allowed');
+    expect(checkRedactionPattern('a'.repeat(201))).toMatch(/at most 200 characters/);
+  });
+});
+
+describe('restore', () => {
+  it('puts the original values back', () => {
+    const pii = redactor();
+    expect(pii.redact('Email jane@example.com or call 555-123-4567')).toBe('Email [EMAIL_1] or call [PHONE_1]');
+
+    expect(pii.restore('We will call [PHONE_1] or write to [EMAIL_1].'))
+      .toBe('We will call 555-123-4567 or write to jane@example.com.');
+    expect(pii.restore('Unknown [EMAIL_9] stays')).toBe('Unknown [EMAIL_9] stays');
+  });
+
+  it('restores placeholders split across streamed chunks', () => {
+    const pii = redactor();
+    pii.redact('jane@example.com, 555-123-4567');
+    const output: string[] = [];
+    const stream = pii.createStreamRestorer((text) => output.push(text));
+
+    for (const chunk of ['Hello ', '[EMA', 'IL_', '1], your number is [', 'PHONE_1', ']', ' [not a placeholder']) {
+      stream.push(chunk);
+    }
+    stream.flush();
+
+    expect(output.join('')).toBe('Hello jane@example.com, your number is 555-123-4567 [not a placeholder');
+    expect(output).not.toContainEqual(expect.stringContaining('[EMA'));
+  });
+
+  it('does not hold back text after a lone bracket indefinitely', () => {
+    const pii = redactor();
+    pii.redact('jane@example.com');
+    const output: string[] = [];
+    const stream = pii.createStreamRestorer((text) => output.push(text));
+
+    stream.push(`[${'x'.repeat(60)}`);
+
+    expect(output.join('')).toBe(`[${'x'.repeat(60)}`);
+  });
+});
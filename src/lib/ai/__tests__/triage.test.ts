@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { classifyTicket } from '@/lib/ai/triage';
+import { FakeAIProvider } from '@/lib/ai/fake';
+
+const ticket = {
+  subject: 'Checkout is down',
+  description: 'Nobody can pay since this morning, we are losing orders!'
+};
+const taxonomy = { categories: ['billing', 'outage'], tags: ['checkout', 'payments'] };
+
+describe('classifyTicket', () => {
+  it('applies the model answer', async () => {
+    const provider = new FakeAIProvider([JSON.stringify({
+      category: { value: 'outage', confidence: 0.92 },
+      tags: { value: ['Checkout', 'payments', 'checkout'], confidence: 0.8 },
+      priority: { value: 'urgent', confidence: 0.95 },
+      sentiment: { value: 'negative', confidence: 0.9 },
+      language: { value: 'EN', confidence: 0.99 }
+    })]);
+
+    const result = await classifyTicket(provider, ticket, taxonomy);
+
+    expect(result).toEqual({
+      category: { value: 'outage', confidence: 0.92, source: 'ai' },
+      tags: { value: ['checkout', 'payments'], confidence: 0.8, source: 'ai' },
+      priority: { value: 'urgent', confidence: 0.95, source: 'ai' },
+      sentiment: { value: 'negative', confidence: 0.9, source: 'ai' },
+      language: { value: 'en', confidence: 0.99, source: 'ai' },
+      model: 'fake-model'
+    });
+  });
+
+  it('sends a deterministic JSON request with the org taxonomy', async () => {
+    const provider = new FakeAIProvider(['{}']);
+
+    await classifyTicket(provider, ticket, taxonomy, { model: 'triage-model' });
+
+    const [request] = provider.requests;
+    expect(request).toMatchObject({ model: 'triage-model', temperature: 0, json: true });
+    expect(request.messages[0].content).toContain('Allowed categories: billing, outage');
+    expect(request.messages[0].content).toContain('Allowed tags: checkout, payments');
+    expect(request.messages[1].content).toBe(`Subject: ${ticket.subject}\n\n${ticket.description}`);
+  });
+
+  it('drops categories and tags outside the taxonomy', async () => {
+    const provider = new FakeAIProvider([JSON.stringify({
+      category: { value: 'refunds', confidence: 0.9 },
+      tags: { value: ['vip', 'payments'], confidence: 0.7 }
+    })]);
+
+    const result = await classifyTicket(provider, ticket, taxonomy);
+
+    expect(result.category).toEqual({ value: null, confidence: 0, source: 'ai' });
+    expect(result.tags.value).toEqual(['payments']);
+  });
+
+  it('falls back to zero-confidence defaults for malformed answers', async () => {
+    const provider = new FakeAIProvider([
+      'not json',
+      JSON.stringify({ priority: { value: 'critical', confidence: 3 }, sentiment: 'angry' })
+    ]);
+
+    const unparsable = await classifyTicket(provider, ticket, taxonomy);
+    const invalid = await classifyTicket(provider, ticket, taxonomy);
+
+    for (const result of [unparsable, invalid]) {
+      expect(result.priority).toEqual({ value: 'normal', confidence: 0, source: 'ai' });
+      expect(result.sentiment).toEqual({ value: 'neutral', confidence: 0, source: 'ai' });
+      expect(result.language).toEqual({ value: 'en', confidence: 0, source: 'ai' });
+    }
+  });
+
+  it('passes provider failures to the caller', async () => {
+    const provider = new FakeAIProvider([() => {
+      throw new Error('model unavailable');
+    }]);
+
+    await expect(classifyTicket(provider, ticket, taxonomy)).rejects.toThrow('model unavailable');
+  });
+});
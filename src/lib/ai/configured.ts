@@ -0,0 +1,92 @@
+import type {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  ModerationRequest,
+  ModerationResult
+} from './provider';
+
+export interface ModelSettings {
+  /** Chat model; overrides the feature's default */
+  model?: string | null;
+  /** Default for calls that don't set their own temperature */
+  temperature?: number | null;
+  /** Chat models tried in order when a call with the primary model fails */
+  fallbackModels?: string[];
+}
+
+/**
+ * Applies an org's model settings to chat calls and retries failures with the
+ * fallback models. Embeddings and moderation pass through unchanged, so the
+ * knowledge base index stays on a single embedding model.
+ */
+export class ConfiguredAIProvider implements AIProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: AIProvider,
+    private readonly settings: ModelSettings
+  ) {
+    this.name = inner.name;
+  }
+
+  private candidates(request: ChatCompletionRequest): ChatCompletionRequest[] {
+    const primary = {
+      ...request,
+      model: this.settings.model || request.model,
+      // A call's own temperature wins, e.g. the spread between reply drafts
+      temperature: request.temperature ?? this.settings.temperature ?? undefined
+    };
+    const fallbacks = (this.settings.fallbackModels ?? [])
+      .filter((model) => model !== primary.model)
+      .map((model) => ({ ...primary, model }));
+    return [primary, ...fallbacks];
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    let lastError: unknown;
+    for (const candidate of this.candidates(request)) {
+      try {
+        return await this.inner.chat(candidate);
+      } catch (error) {
+        console.error(`AI chat with model ${candidate.model ?? '(default)'} failed:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  async chatStream(
+    request: ChatCompletionRequest,
+    onDelta: (text: string) => void
+  ): Promise<ChatCompletionResult> {
+    let lastError: unknown;
+    for (const candidate of this.candidates(request)) {
+      let streamed = false;
+      try {
+        return await this.inner.chatStream(candidate, (text) => {
+          streamed = true;
+          onDelta(text);
+        });
+      } catch (error) {
+        // Once text has reached the caller, switching models would garble the output
+        if (streamed) {
+          throw error;
+        }
+        console.error(`AI chat with model ${candidate.model ?? '(default)'} failed:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    return this.inner.embed(request);
+  }
+
+  moderate(request: ModerationRequest): Promise<ModerationResult> {
+    return this.inner.moderate(request);
+  }
+}
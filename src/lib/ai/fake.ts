@@ -0,0 +1,107 @@
+import type {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  ModerationRequest,
+  ModerationResult
+} from './provider';
+
+type FakeResponder = string | ((request: ChatCompletionRequest) => string);
+
+const FAKE_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Hashed bag-of-words vector, so texts sharing words come out similar
+ */
+function fakeEmbedding(text: string): number[] {
+  const vector = new Array<number>(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    let hash = 0;
+    for (const char of word) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    vector[hash % FAKE_EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+export interface FakeAIProviderOptions {
+  /** Moderation flags any input containing one of these (case-insensitive) */
+  flaggedTerms?: string[];
+}
+
+/**
+ * Deterministic AIProvider for tests. Replies with the scripted responses in order
+ * (the last one repeats) and records every request it receives. A responder
+ * function may throw to simulate a failing model.
+ */
+export class FakeAIProvider implements AIProvider {
+  readonly name = 'fake';
+  readonly requests: ChatCompletionRequest[] = [];
+  private readonly responses: FakeResponder[];
+
+  constructor(
+    responses: FakeResponder[] = ['{}'],
+    private readonly options: FakeAIProviderOptions = {}
+  ) {
+    this.responses = responses;
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    this.requests.push(request);
+    const index = Math.min(this.requests.length - 1, this.responses.length - 1);
+    const responder = this.responses[index];
+    const content = typeof responder === 'function' ? responder(request) : responder;
+
+    // Rough token estimate so usage-dependent code has something to work with
+    const promptTokens = Math.ceil(
+      request.messages.reduce((sum, message) => sum + message.content.length, 0) / 4
+    );
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: request.model || 'fake-model',
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  async chatStream(
+    request: ChatCompletionRequest,
+    onDelta: (text: string) => void
+  ): Promise<ChatCompletionResult> {
+    const result = await this.chat(request);
+    // Emit word by word (keeping whitespace) so consumers see several chunks
+    for (const chunk of result.content.match(/\S+\s*|\s+/g) ?? []) {
+      onDelta(chunk);
+    }
+    return result;
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const tokens = Math.ceil(request.input.reduce((sum, text) => sum + text.length, 0) / 4);
+    return {
+      embeddings: request.input.map(fakeEmbedding),
+      model: request.model || 'fake-embedding',
+      usage: { promptTokens: tokens, completionTokens: 0, totalTokens: tokens }
+    };
+  }
+
+  async moderate(request: ModerationRequest): Promise<ModerationResult> {
+    const terms = (this.options.flaggedTerms ?? []).map((term) => term.toLowerCase());
+    return {
+      results: request.input.map((text) => {
+        const flagged = terms.some((term) => text.toLowerCase().includes(term));
+        return { flagged, categories: flagged ? ['flagged-term'] : [] };
+      }),
+      model: 'fake-moderation'
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import OpenAI from 'openai';
+import type {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  ModerationRequest,
+  ModerationResult
+} from './provider';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  /** Point the client at another OpenAI-compatible server */
+  baseURL?: string;
+  defaultModel?: string;
+  embeddingModel?: string;
+}
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+const MODERATION_MODEL = 'omni-moderation-latest';
+
+/**
+ * AIProvider backed by the OpenAI API
+ */
+export class OpenAIProvider implements AIProvider {
+  readonly name: string = 'openai';
+  private readonly client: OpenAI;
+  private readonly defaultModel: string;
+  private readonly embeddingModel: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    this.defaultModel = options.defaultModel || DEFAULT_MODEL;
+    this.embeddingModel = options.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model || this.defaultModel,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && { response_format: { type: 'json_object' as const } })
+    });
+
+    return {
+      content: completion.choices[0]?.message?.content ?? '',
+      model: completion.model,
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens ?? 0,
+        completionTokens: completion.usage?.completion_tokens ?? 0,
+        totalTokens: completion.usage?.total_tokens ?? 0
+      }
+    };
+  }
+
+  async chatStream(
+    request: ChatCompletionRequest,
+    onDelta: (text: string) => void
+  ): Promise<ChatCompletionResult> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model || this.defaultModel,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...(request.json && { response_format: { type: 'json_object' as const } })
+    });
+
+    let content = '';
+    let model = request.model || this.defaultModel;
+    let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens
+        };
+      }
+    }
+
+    return { content, model, usage };
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const response = await this.client.embeddings.create({
+      model: request.model || this.embeddingModel,
+      input: request.input
+    });
+
+    return {
+      embeddings: [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding),
+      model: response.model,
+      usage: {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: 0,
+        totalTokens: response.usage.total_tokens
+      }
+    };
+  }
+
+  async moderate(request: ModerationRequest): Promise<ModerationResult> {
+    const response = await this.client.moderations.create({
+      model: MODERATION_MODEL,
+      input: request.input
+    });
+
+    return {
+      results: response.results.map((result) => ({
+        flagged: result.flagged,
+        categories: Object.entries(result.categories)
+          .filter(([, flagged]) => flagged)
+          .map(([category]) => category)
+      })),
+      model: response.model
+    };
+  }
+}
+
+/**
+ * AIProvider for self-hosted models behind an OpenAI-compatible API (vLLM,
+ * Ollama, LM Studio, ...). Such servers generally have no moderation endpoint,
+ * so moderation flags nothing.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = 'openai-compatible';
+
+  constructor(options: OpenAIProviderOptions & { baseURL: string }) {
+    super(options);
+  }
+
+  async moderate(request: ModerationRequest): Promise<ModerationResult> {
+    return {
+      results: request.input.map(() => ({ flagged: false, categories: [] })),
+      model: 'none'
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import type { TokenUsage } from './provider';
+
+interface ModelPrice {
+  /** USD per million prompt tokens */
+  input: number;
+  /** USD per million completion tokens */
+  output: number;
+}
+
+// List prices; dated snapshots (gpt-4o-mini-2024-07-18) match by prefix
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 }
+};
+
+/**
+ * Estimated cost of a call in USD (null when the model's price is unknown)
+ */
+export function estimateCostUsd(model: string, usage: TokenUsage): number | null {
+  const key = Object.keys(MODEL_PRICES)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) {
+    return null;
+  }
+  
+  const price = MODEL_PRICES[key];
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
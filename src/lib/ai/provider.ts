@@ -0,0 +1,108 @@
+import { OpenAIProvider, OpenAICompatibleProvider } from './openai';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the model for a JSON object response */
+  json?: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface EmbeddingRequest {
+  input: string[];
+  model?: string;
+}
+
+export interface EmbeddingResult {
+  /** One vector per input, in the same order */
+  embeddings: number[][];
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface ModerationRequest {
+  input: string[];
+}
+
+export interface ModerationResult {
+  /** One result per input, in the same order */
+  results: { flagged: boolean; categories: string[] }[];
+  model: string;
+}
+
+/**
+ * LLM backend used by the AI features. Route handlers never call an SDK directly.
+ */
+export interface AIProvider {
+  readonly name: string;
+  chat(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  /** Like chat(), calling onDelta with each chunk of text as it is generated */
+  chatStream(
+    request: ChatCompletionRequest,
+    onDelta: (text: string) => void
+  ): Promise<ChatCompletionResult>;
+  embed(request: EmbeddingRequest): Promise<EmbeddingResult>;
+  /** Flag abusive or unsafe text */
+  moderate(request: ModerationRequest): Promise<ModerationResult>;
+}
+
+let provider: AIProvider | null | undefined;
+
+function createProviderFromEnv(): AIProvider | null {
+  const options = {
+    defaultModel: process.env.OPENAI_MODEL,
+    embeddingModel: process.env.OPENAI_EMBEDDING_MODEL
+  };
+  
+  if (process.env.AI_PROVIDER === 'openai-compatible') {
+    if (!process.env.OPENAI_BASE_URL) {
+      throw new Error('OPENAI_BASE_URL environment variable is not defined');
+    }
+    return new OpenAICompatibleProvider({
+      ...options,
+      baseURL: process.env.OPENAI_BASE_URL,
+      // Self-hosted servers usually ignore the key, but the client requires one
+      apiKey: process.env.OPENAI_API_KEY || 'not-needed'
+    });
+  }
+  
+  return process.env.OPENAI_API_KEY
+    ? new OpenAIProvider({ ...options, apiKey: process.env.OPENAI_API_KEY })
+    : null;
+}
+
+/**
+ * Provider selected by AI_PROVIDER ('openai' or 'openai-compatible', default 'openai').
+ * Null when OpenAI is selected but no OPENAI_API_KEY is set.
+ */
+export function getAIProvider(): AIProvider | null {
+  if (provider === undefined) {
+    provider = createProviderFromEnv();
+  }
+  return provider;
+}
+
+/**
+ * Override the AI provider (tests use a FakeAIProvider)
+ */
+export function setAIProvider(override: AIProvider | null | undefined): void {
+  provider = override;
+}
@@ -0,0 +1,60 @@
+import type {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  ModerationRequest,
+  ModerationResult
+} from './provider';
+import { PiiRedactor, type RedactionRule } from './redaction';
+
+/**
+ * Wraps a provider so PII in every prompt and embedding input is replaced with
+ * placeholders before it leaves the process. Placeholders the model echoes back
+ * are restored in the generated text.
+ */
+export class RedactingAIProvider implements AIProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: AIProvider,
+    private readonly rules: RedactionRule[]
+  ) {
+    this.name = inner.name;
+  }
+
+  private redactRequest(redactor: PiiRedactor, request: ChatCompletionRequest): ChatCompletionRequest {
+    return {
+      ...request,
+      messages: request.messages.map((message) => ({ ...message, content: redactor.redact(message.content) }))
+    };
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const redactor = new PiiRedactor(this.rules);
+    const result = await this.inner.chat(this.redactRequest(redactor, request));
+    return { ...result, content: redactor.restore(result.content) };
+  }
+
+  async chatStream(
+    request: ChatCompletionRequest,
+    onDelta: (text: string) => void
+  ): Promise<ChatCompletionResult> {
+    const redactor = new PiiRedactor(this.rules);
+    const restorer = redactor.createStreamRestorer(onDelta);
+    const result = await this.inner.chatStream(this.redactRequest(redactor, request), restorer.push);
+    restorer.flush();
+    return { ...result, content: redactor.restore(result.content) };
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const redactor = new PiiRedactor(this.rules);
+    return this.inner.embed({ ...request, input: request.input.map((text) => redactor.redact(text)) });
+  }
+
+  async moderate(request: ModerationRequest): Promise<ModerationResult> {
+    const redactor = new PiiRedactor(this.rules);
+    return this.inner.moderate({ input: request.input.map((text) => redactor.redact(text)) });
+  }
+}
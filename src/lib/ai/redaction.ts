@@ -0,0 +1,214 @@
+export interface RedactionRule {
+  /** Placeholder label, e.g. EMAIL -> [EMAIL_1] */
+  label: string;
+  pattern: RegExp;
+  /** Extra check on a match (e.g. Luhn for card numbers) */
+  validate?: (match: string) => boolean;
+}
+
+export interface CustomRedactionRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+// Longest placeholder we expect to see split across streamed chunks
+const MAX_PLACEHOLDER_LENGTH = 48;
+
+export const MAX_CUSTOM_PATTERN_LENGTH = 200;
+
+// A quantifier that can repeat its operand more than once: *, +, {n,} or {n,m}
+const REPEAT_QUANTIFIER = /^(?:[*+]|\{\d+,\d*\})/;
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Luhn checksum, to tell card numbers from other long digit runs
+ */
+export function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+// Dates look like phone numbers to the phone pattern (2024-05-01, 01.05.2024)
+const DATE_PATTERN = /^(?:\d{4}[-.]\d{1,2}[-.]\d{1,2}|\d{1,2}[-.]\d{1,2}[-.]\d{4})$/;
+
+// Order matters: card numbers are matched before the looser phone pattern
+export const BUILT_IN_REDACTION_RULES: RedactionRule[] = [
+  {
+    label: 'EMAIL',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g
+  },
+  {
+    label: 'CARD',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: passesLuhn
+  },
+  {
+    label: 'PHONE',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}\b/g,
+    validate: (match) => {
+      const length = digitsOf(match).length;
+      return length >= 7 && length <= 15 && !DATE_PATTERN.test(match);
+    }
+  },
+  {
+    label: 'ADDRESS',
+    pattern: /\b\d{1,6}[A-Za-z]?\s+(?:[A-Z][A-Za-z'-]*\.?\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Ter|Parkway|Pkwy|Highway|Hwy|Square|Sq)\b\.?(?:,?\s+(?:Apt|Apartment|Suite|Ste|Unit|#)\.?\s*[A-Za-z0-9-]+)?/g
+  }
+];
+
+/**
+ * Why a custom pattern could backtrack catastrophically, or null when it is
+ * safe to run against every prompt. Conservative: a repeated group may not
+ * contain another quantifier or an alternation ((a+)+, (a|aa)*), and
+ * backreferences are refused.
+ */
+export function checkRedactionPattern(pattern: string): string | null {
+  if (pattern.length > MAX_CUSTOM_PATTERN_LENGTH) {
+    return `Pattern must be at most ${MAX_CUSTOM_PATTERN_LENGTH} characters`;
+  }
+
+  // Per open group: whether it contains a quantifier or an alternation
+  const groups: { quantified: boolean; alternation: boolean }[] = [{ quantified: false, alternation: false }];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const current = groups[groups.length - 1];
+
+    if (char === '\\') {
+      if (!inClass && /^(?:[1-9]|k<)/.test(pattern.slice(i + 1))) {
+        return 'Backreferences are not allowed';
+      }
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push({ quantified: false, alternation: false });
+      // Skip the group syntax so its "?" isn't read as a quantifier
+      i += /^\?(?:[:=!]|<[=!]|<[A-Za-z_$][\w$]*>)/.exec(pattern.slice(i + 1))?.[0].length ?? 0;
+    } else if (char === ')' && groups.length > 1) {
+      const group = groups.pop()!;
+      const repeated = REPEAT_QUANTIFIER.test(pattern.slice(i + 1));
+      if (repeated && (group.quantified || group.alternation)) {
+        return 'Nested quantifiers and repeated alternations are not allowed';
+      }
+      groups[groups.length - 1].quantified ||= group.quantified || repeated;
+    } else if (char === '|') {
+      current.alternation = true;
+    } else if (REPEAT_QUANTIFIER.test(pattern.slice(i))) {
+      current.quantified = true;
+    }
+  }
+  return null;
+}
+
+/**
+ * Compile an org's custom rules. The placeholder label is derived from the rule
+ * name ("Account number" -> ACCOUNT_NUMBER); invalid or unsafe patterns are skipped.
+ */
+export function compileCustomRules(rules: CustomRedactionRule[]): RedactionRule[] {
+  const compiled: RedactionRule[] = [];
+  for (const rule of rules) {
+    const unsafe = checkRedactionPattern(rule.pattern);
+    if (unsafe) {
+      console.error(`Skipping unsafe redaction rule "${rule.name}": ${unsafe}`);
+      continue;
+    }
+    try {
+      const flags = new Set([...(rule.flags ?? ''), 'g']);
+      compiled.push({
+        label: rule.name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '') || 'CUSTOM',
+        pattern: new RegExp(rule.pattern, [...flags].join(''))
+      });
+    } catch {
+      console.error(`Skipping invalid redaction rule "${rule.name}"`);
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Replaces PII with numbered placeholders ([EMAIL_1], [PHONE_2], ...) and puts
+ * the original values back into text the model generates. The same value
+ * always maps to the same placeholder. Use one instance per LLM call; the
+ * mapping never leaves the process.
+ */
+export class PiiRedactor {
+  private readonly originals = new Map<string, string>();
+  private readonly placeholders = new Map<string, string>();
+  private readonly counters = new Map<string, number>();
+
+  constructor(private readonly rules: RedactionRule[]) {}
+
+  private placeholderFor(label: string, value: string): string {
+    const existing = this.placeholders.get(value);
+    if (existing) {
+      return existing;
+    }
+    const count = (this.counters.get(label) ?? 0) + 1;
+    this.counters.set(label, count);
+    const placeholder = `[${label}_${count}]`;
+    this.placeholders.set(value, placeholder);
+    this.originals.set(placeholder, value);
+    return placeholder;
+  }
+
+  redact(text: string): string {
+    return this.rules.reduce((current, rule) => current.replace(rule.pattern, (match) => {
+      if (!match || (rule.validate && !rule.validate(match))) {
+        return match;
+      }
+      return this.placeholderFor(rule.label, match);
+    }), text);
+  }
+
+  restore(text: string): string {
+    if (this.originals.size === 0) {
+      return text;
+    }
+    return text.replace(/\[[A-Z0-9_]+_\d+\]/g, (placeholder) => this.originals.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Restore streamed text chunk by chunk. A trailing, possibly incomplete
+   * placeholder is held back until the next chunk completes it.
+   */
+  createStreamRestorer(onText: (text: string) => void): { push(delta: string): void; flush(): void } {
+    let pending = '';
+    return {
+      push: (delta: string) => {
+        pending += delta;
+        const open = pending.lastIndexOf('[');
+        const held = open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH;
+        const ready = held ? pending.slice(0, open) : pending;
+        pending = held ? pending.slice(open) : '';
+        if (ready) {
+          onText(this.restore(ready));
+        }
+      },
+      flush: () => {
+        if (pending) {
+          onText(this.restore(pending));
+          pending = '';
+        }
+      }
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import type { ChatMessage } from './provider';
+import { formatThread, type ThreadEntry, type ThreadTicket } from './thread';
+
+export interface ReplyTone {
+  style?: string;
+  instructions?: string;
+  signature?: string;
+}
+
+export interface ReplySnippet {
+  title: string;
+  content: string;
+}
+
+const STYLE_GUIDANCE: Record<string, string> = {
+  friendly: 'Write in a warm, friendly and helpful voice.',
+  professional: 'Write in a clear, professional voice.',
+  formal: 'Write in a formal, courteous voice.',
+  concise: 'Be brief and to the point; avoid filler.'
+};
+
+/**
+ * Prompt for drafting an agent reply from the ticket thread, org tone and KB snippets
+ */
+export function buildReplyPrompt(options: {
+  ticket: ThreadTicket & { language?: string | null };
+  thread: ThreadEntry[];
+  tone: ReplyTone;
+  snippets: ReplySnippet[];
+  instructions?: string;
+  /** The reply is sent to the customer as-is, without an agent reviewing it */
+  autonomous?: boolean;
+}): ChatMessage[] {
+  const { ticket, thread, tone, snippets } = options;
+
+  const system = [
+    'You are a customer support agent drafting a reply to the customer on a support ticket.',
+    options.autonomous
+      ? 'Your reply is sent to the customer automatically. Answer only from the knowledge base excerpts, and tell the customer they can reply "talk to a human" to reach the team.'
+      : 'The agent will review and edit your draft before sending it.',
+    STYLE_GUIDANCE[tone.style ?? 'friendly'] ?? STYLE_GUIDANCE.friendly,
+    tone.instructions ? `Organization guidelines: ${tone.instructions}` : '',
+    ticket.language && ticket.language !== 'en'
+      ? `Write the reply in the customer's language (${ticket.language}).`
+      : '',
+    'Only state facts found in the thread or the knowledge base excerpts. If you are unsure, say the team will follow up rather than guessing.',
+    'Never reveal internal notes to the customer.',
+    tone.signature ? `End the reply with this signature:\n${tone.signature}` : 'Do not add a signature.',
+    'Reply with the message body only.'
+  ].filter(Boolean).join('\n');
+
+  const knowledge = snippets.length
+    ? snippets.map((snippet, i) => `[${i + 1}] ${snippet.title}\n${snippet.content}`).join('\n\n')
+    : '(no relevant articles found)';
+
+  return [
+    { role: 'system', content: system },
+    {
+      role: 'user',
+      content: [
+        `Knowledge base excerpts:\n${knowledge}`,
+        `Ticket thread:\n${formatThread(ticket, thread)}`,
+        options.instructions ? `Agent's instructions for this draft: ${options.instructions}` : '',
+        'Draft the next reply to the customer.'
+      ].filter(Boolean).join('\n\n')
+    }
+  ];
+}
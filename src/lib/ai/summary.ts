@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { AIProvider } from './provider';
+import { formatThread, type ThreadEntry, type ThreadTicket } from './thread';
+
+export interface ThreadSummary {
+  customerIssue: string;
+  stepsTaken: string[];
+  openQuestions: string[];
+  nextAction: string;
+  model: string;
+}
+
+// The model's answer; malformed fields fall back to empty values
+const summaryResponseSchema = z.object({
+  customerIssue: z.string().catch(''),
+  stepsTaken: z.array(z.string()).catch([]),
+  openQuestions: z.array(z.string()).catch([]),
+  nextAction: z.string().catch('')
+});
+
+const SUMMARY_PROMPT = [
+  'You write handoff notes for support agents taking over a ticket. Respond with a JSON object with these keys:',
+  '- "customerIssue": one or two sentences describing what the customer needs',
+  '- "stepsTaken": array of short bullet points of what has been tried or answered so far',
+  '- "openQuestions": array of unresolved questions (for the customer or the team)',
+  '- "nextAction": the single most useful next step for the agent',
+  '',
+  'Be factual and concise. Use information from the thread only. Internal notes may be used.'
+].join('\n');
+
+/**
+ * Summarize a ticket conversation into handoff notes
+ */
+export async function summarizeThread(
+  provider: AIProvider,
+  ticket: ThreadTicket,
+  thread: ThreadEntry[],
+  options: { model?: string } = {}
+): Promise<ThreadSummary> {
+  const completion = await provider.chat({
+    model: options.model,
+    temperature: 0,
+    json: true,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: `Ticket thread:\n${formatThread(ticket, thread)}` }
+    ]
+  });
+
+  let raw: unknown = {};
+  try {
+    raw = JSON.parse(completion.content);
+  } catch {
+    // Leave raw empty - every field falls back to its default
+  }
+  const parsed = summaryResponseSchema.parse(raw ?? {});
+
+  return {
+    customerIssue: parsed.customerIssue.trim(),
+    stepsTaken: parsed.stepsTaken.map((step) => step.trim()).filter(Boolean),
+    openQuestions: parsed.openQuestions.map((question) => question.trim()).filter(Boolean),
+    nextAction: parsed.nextAction.trim(),
+    model: completion.model
+  };
+}
@@ -0,0 +1,29 @@
+export interface ThreadTicket {
+  subject: string;
+  description: string;
+  requester?: { name?: string | null } | null;
+}
+
+export interface ThreadEntry {
+  authorType: string;
+  authorName?: string | null;
+  visibility: string;
+  body: string;
+}
+
+/**
+ * Render a ticket and its messages as a plain-text transcript for prompts.
+ * Internal notes are labelled so the model never treats them as customer-visible.
+ */
+export function formatThread(ticket: ThreadTicket, thread: ThreadEntry[]): string {
+  return [
+    `Customer (${ticket.requester?.name || 'customer'}): ${ticket.subject}\n${ticket.description}`,
+    ...thread.map((entry) => {
+      const who = entry.authorType === 'agent'
+        ? `Agent (${entry.authorName || 'agent'})`
+        : entry.authorType === 'ai' ? 'AI assistant' : 'Customer';
+      const label = entry.visibility === 'internal' ? `${who} [internal note - not visible to customer]` : who;
+      return `${label}: ${entry.body}`;
+    })
+  ].join('\n\n');
+}
@@ -0,0 +1,46 @@
+import type { AIProvider } from './provider';
+
+export interface TranslationResult {
+  text: string;
+  model: string;
+}
+
+/**
+ * English name for an ISO 639-1 code ("de" -> "German"), falling back to the code
+ */
+export function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Translate a support message, keeping formatting, names, links and placeholders intact
+ */
+export async function translateText(
+  provider: AIProvider,
+  text: string,
+  options: { to: string; from?: string | null; model?: string }
+): Promise<TranslationResult> {
+  const source = options.from ? ` from ${languageName(options.from)}` : '';
+  const completion = await provider.chat({
+    model: options.model,
+    temperature: 0,
+    messages: [
+      {
+        role: 'system',
+        content: [
+          `Translate the customer support message${source} into ${languageName(options.to)}.`,
+          'Keep the meaning, tone and formatting (line breaks, lists, links).',
+          'Do not translate names, product names, code, URLs or placeholders like [EMAIL_1].',
+          'Reply with the translation only.'
+        ].join('\n')
+      },
+      { role: 'user', content: text }
+    ]
+  });
+
+  return { text: completion.content.trim(), model: completion.model };
+}
@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import type { AIProvider } from './provider';
+
+export type TriageSource = 'ai' | 'agent';
+
+export interface TriageValue<T> {
+  value: T;
+  confidence: number;
+  source: TriageSource;
+}
+
+export interface TriageResult {
+  category: TriageValue<string | null>;
+  tags: TriageValue<string[]>;
+  priority: TriageValue<'low' | 'normal' | 'high' | 'urgent'>;
+  sentiment: TriageValue<'positive' | 'neutral' | 'negative'>;
+  language: TriageValue<string>;
+  model: string;
+}
+
+export interface TriageTaxonomy {
+  categories: string[];
+  tags: string[];
+}
+
+const confidenceSchema = z.number().min(0).max(1).catch(0);
+
+// The model's answer; anything malformed falls back to a zero-confidence default
+const triageResponseSchema = z.object({
+  category: z.object({ value: z.string().nullable(), confidence: confidenceSchema })
+    .catch({ value: null, confidence: 0 }),
+  tags: z.object({ value: z.array(z.string()), confidence: confidenceSchema })
+    .catch({ value: [], confidence: 0 }),
+  priority: z.object({ value: z.enum(['low', 'normal', 'high', 'urgent']), confidence: confidenceSchema })
+    .catch({ value: 'normal' as const, confidence: 0 }),
+  sentiment: z.object({ value: z.enum(['positive', 'neutral', 'negative']), confidence: confidenceSchema })
+    .catch({ value: 'neutral' as const, confidence: 0 }),
+  language: z.object({ value: z.string().min(2).max(10), confidence: confidenceSchema })
+    .catch({ value: 'en', confidence: 0 })
+});
+
+function buildTriagePrompt(taxonomy: TriageTaxonomy): string {
+  return [
+    'You triage customer support tickets. Respond with a JSON object with these keys:',
+    '- "category": { "value": one of the allowed categories or null, "confidence": 0-1 }',
+    '- "tags": { "value": array of allowed tags that apply (may be empty), "confidence": 0-1 }',
+    '- "priority": { "value": "low" | "normal" | "high" | "urgent", "confidence": 0-1 }',
+    '- "sentiment": { "value": "positive" | "neutral" | "negative", "confidence": 0-1 }',
+    '- "language": { "value": ISO 639-1 code of the customer\'s language, "confidence": 0-1 }',
+    '',
+    `Allowed categories: ${taxonomy.categories.length ? taxonomy.categories.join(', ') : '(none - use null)'}`,
+    `Allowed tags: ${taxonomy.tags.length ? taxonomy.tags.join(', ') : '(none - use [])'}`,
+    '',
+    'Use "urgent" only for outages, security issues or data loss. Never invent categories or tags.'
+  ].join('\n');
+}
+
+/**
+ * Classify a ticket's category, tags, priority, sentiment and language.
+ * Suggestions outside the org's taxonomy are dropped.
+ */
+export async function classifyTicket(
+  provider: AIProvider,
+  ticket: { subject: string; description: string },
+  taxonomy: TriageTaxonomy,
+  options: { model?: string } = {}
+): Promise<TriageResult> {
+  const completion = await provider.chat({
+    model: options.model,
+    temperature: 0,
+    json: true,
+    messages: [
+      { role: 'system', content: buildTriagePrompt(taxonomy) },
+      { role: 'user', content: `Subject: ${ticket.subject}\n\n${ticket.description}` }
+    ]
+  });
+
+  let raw: unknown = {};
+  try {
+    raw = JSON.parse(completion.content);
+  } catch {
+    // Leave raw empty - every field falls back to its default
+  }
+  const parsed = triageResponseSchema.parse(raw ?? {});
+
+  const category = parsed.category.value && taxonomy.categories.includes(parsed.category.value)
+    ? parsed.category.value
+    : null;
+  const allowedTags = new Set(taxonomy.tags);
+  const tags = [...new Set(parsed.tags.value.map((tag) => tag.toLowerCase()))]
+    .filter((tag) => allowedTags.has(tag));
+
+  return {
+    category: {
+      value: category,
+      confidence: category ? parsed.category.confidence : 0,
+      source: 'ai'
+    },
+    tags: { value: tags, confidence: parsed.tags.confidence, source: 'ai' },
+    priority: { ...parsed.priority, source: 'ai' },
+    sentiment: { ...parsed.sentiment, source: 'ai' },
+    language: { value: parsed.language.value.toLowerCase(), confidence: parsed.language.confidence, source: 'ai' },
+    model: completion.model
+  };
+}
@@ -0,0 +1,114 @@
+import { Types } from 'mongoose';
+import Org from '@/models/Org';
+import User from '@/models/User';
+import Ticket from '@/models/Ticket';
+
+export type AutoAssignmentStrategy = 'round-robin' | 'least-open';
+
+export interface AutoAssignmentSettings {
+  enabled: boolean;
+  strategy: AutoAssignmentStrategy;
+  lastAssignedUserId?: Types.ObjectId | null;
+}
+
+// Tickets in these statuses count towards an agent's open workload
+const OPEN_STATUSES = ['new', 'open', 'pending-customer', 'on-hold'];
+
+// Times to retry advancing the round-robin pointer when other tickets move it first
+const ROUND_ROBIN_ATTEMPTS = 5;
+
+/**
+ * Pick the next AGENT after the last one assigned, wrapping around
+ */
+function pickRoundRobin(
+  agentIds: Types.ObjectId[],
+  lastAssignedUserId: Types.ObjectId | null | undefined
+): Types.ObjectId {
+  const lastIndex = lastAssignedUserId
+    ? agentIds.findIndex((id) => id.equals(lastAssignedUserId))
+    : -1;
+  return agentIds[(lastIndex + 1) % agentIds.length];
+}
+
+/**
+ * Pick the next AGENT and advance the org's pointer to it in one compare-and-set,
+ * so tickets created at the same time go to different agents
+ */
+async function claimRoundRobin(
+  orgId: string,
+  agentIds: Types.ObjectId[],
+  lastAssignedUserId: Types.ObjectId | null | undefined
+): Promise<Types.ObjectId> {
+  let previous = lastAssignedUserId ?? null;
+  for (let attempt = 0; attempt < ROUND_ROBIN_ATTEMPTS; attempt++) {
+    const next = pickRoundRobin(agentIds, previous);
+    const { matchedCount } = await Org.updateOne(
+      { _id: orgId, 'autoAssignment.lastAssignedUserId': previous },
+      { 'autoAssignment.lastAssignedUserId': next }
+    );
+    if (matchedCount > 0) {
+      return next;
+    }
+    // Another ticket took this agent; continue from wherever it left the pointer
+    const org = await Org.findById(orgId).select('autoAssignment.lastAssignedUserId');
+    previous = org?.autoAssignment?.lastAssignedUserId ?? null;
+  }
+  return pickRoundRobin(agentIds, previous);
+}
+
+/**
+ * Pick the AGENT with the fewest open tickets (ties go to the earliest-created agent)
+ */
+async function pickLeastOpen(
+  orgId: string,
+  agentIds: Types.ObjectId[]
+): Promise<Types.ObjectId> {
+  const counts: { _id: Types.ObjectId; count: number }[] = await Ticket.aggregate([
+    {
+      $match: {
+        orgId: new Types.ObjectId(orgId),
+        assigneeId: { $in: agentIds },
+        status: { $in: OPEN_STATUSES },
+        deletedAt: null
+      }
+    },
+    { $group: { _id: '$assigneeId', count: { $sum: 1 } } }
+  ]);
+
+  const countFor = (id: Types.ObjectId) =>
+    counts.find((c) => c._id.equals(id))?.count ?? 0;
+
+  return agentIds.reduce((best, id) => (countFor(id) < countFor(best) ? id : best));
+}
+
+/**
+ * Choose an assignee for a new ticket according to the org's auto-assignment setting.
+ * Returns null when auto-assignment is off or the org has no AGENTs.
+ * With `force`, the org's strategy is used even when auto-assignment is off
+ * (e.g. to route a ticket the AI handed back to a person).
+ */
+export async function autoAssignTicket(
+  orgId: string,
+  options: { force?: boolean } = {}
+): Promise<Types.ObjectId | null> {
+  const org = await Org.findById(orgId);
+  const settings: AutoAssignmentSettings | undefined = org?.autoAssignment;
+  if (!settings?.enabled && !options.force) {
+    return null;
+  }
+
+  const agents = await User.find({ orgId, role: 'AGENT' }).sort({ createdAt: 1, _id: 1 }).select('_id');
+  if (agents.length === 0) {
+    return null;
+  }
+  const agentIds: Types.ObjectId[] = agents.map((agent) => agent._id);
+
+  if (settings?.strategy !== 'least-open') {
+    return claimRoundRobin(orgId, agentIds, settings?.lastAssignedUserId);
+  }
+
+  const assigneeId = await pickLeastOpen(orgId, agentIds);
+  await Org.updateOne({ _id: orgId }, { 'autoAssignment.lastAssignedUserId': assigneeId });
+
+  return assigneeId;
+}
@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { isValidObjectId, Types } from 'mongoose';
+import Attachment, { type AttachmentDocument } from '@/models/Attachment';
+import { getPlanLimits } from '@/lib/plans';
+import { getStorage } from '@/lib/storage';
+
+// Signed download links are valid for 15 minutes
+const SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+/**
+ * Check an upload against the org plan's size and content-type limits
+ */
+export function validateAttachmentUpload(
+  plan: string | null | undefined,
+  size: number,
+  contentType: string
+): string | null {
+  const limits = getPlanLimits(plan);
+  
+  if (size === 0) {
+    return 'File is empty';
+  }
+  if (size > limits.maxAttachmentBytes) {
+    return `File exceeds the ${Math.floor(limits.maxAttachmentBytes / (1024 * 1024))} MB limit for your plan`;
+  }
+  
+  const allowed = limits.attachmentContentTypes.some((pattern) =>
+    pattern.endsWith('/*')
+      ? contentType.startsWith(pattern.slice(0, -1))
+      : contentType === pattern
+  );
+  if (!allowed) {
+    return `File type ${contentType || 'unknown'} is not allowed on your plan`;
+  }
+  
+  return null;
+}
+
+function sanitizeFilename(filename: string): string {
+  const cleaned = filename.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^\.+/, '');
+  return cleaned.slice(-100) || 'file';
+}
+
+/**
+ * Store an uploaded file and record it against the ticket.
+ * Object keys are always prefixed with the orgId.
+ */
+export async function storeAttachment(options: {
+  orgId: string;
+  ticketId: string | Types.ObjectId;
+  filename: string;
+  contentType: string;
+  body: Buffer;
+  uploadedBy?: string | null;
+  messageId?: string | Types.ObjectId | null;
+}): Promise<AttachmentDocument> {
+  const storageKey = [
+    options.orgId,
+    'tickets',
+    options.ticketId.toString(),
+    crypto.randomUUID(),
+    sanitizeFilename(options.filename)
+  ].join('/');
+  
+  await getStorage().put(storageKey, options.body, options.contentType);
+  
+  return Attachment.create({
+    orgId: options.orgId,
+    ticketId: options.ticketId,
+    messageId: options.messageId ?? null,
+    filename: options.filename,
+    contentType: options.contentType,
+    size: options.body.length,
+    storageKey,
+    uploadedBy: options.uploadedBy ?? null
+  });
+}
+
+/**
+ * Check that every id is an unlinked upload on the same ticket
+ */
+export async function validatePendingAttachments(
+  orgId: string,
+  ticketId: string | Types.ObjectId,
+  attachmentIds: string[]
+): Promise<boolean> {
+  if (attachmentIds.length === 0) {
+    return true;
+  }
+  
+  const count = await Attachment.countDocuments({
+    _id: { $in: attachmentIds },
+    orgId,
+    ticketId,
+    messageId: null,
+    uploadedBy: { $ne: null }
+  });
+  return count === new Set(attachmentIds).size;
+}
+
+/**
+ * Link pending uploads to a message (run validatePendingAttachments first)
+ */
+export async function linkAttachmentsToMessage(
+  orgId: string,
+  ticketId: string | Types.ObjectId,
+  messageId: string | Types.ObjectId,
+  attachmentIds: string[]
+): Promise<void> {
+  if (attachmentIds.length === 0) {
+    return;
+  }
+  
+  await Attachment.updateMany(
+    { _id: { $in: attachmentIds }, orgId, ticketId, messageId: null, uploadedBy: { $ne: null } },
+    { messageId }
+  );
+}
+
+/**
+ * Find an attachment by id, scoped to the organization
+ */
+export async function findAttachmentForOrg(
+  attachmentId: string,
+  orgId: string
+): Promise<AttachmentDocument | null> {
+  if (!isValidObjectId(attachmentId)) {
+    return null;
+  }
+  return Attachment.findOne({ _id: attachmentId, orgId });
+}
+
+function signingSecret(): string {
+  return process.env.ATTACHMENT_SIGNING_SECRET || process.env.JWT_SECRET || 'fallback-secret-key';
+}
+
+function sign(attachmentId: string, expires: number): string {
+  return crypto
+    .createHmac('sha256', signingSecret())
+    .update(`${attachmentId}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Short-lived download URL that works without an auth cookie
+ */
+export function createSignedAttachmentUrl(
+  attachmentId: string,
+  ttlSeconds: number = SIGNED_URL_TTL_SECONDS
+): string {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `/api/attachments/${attachmentId}?expires=${expires}&signature=${sign(attachmentId, expires)}`;
+}
+
+/**
+ * Verify the expires/signature query params of a signed download URL
+ */
+export function verifyAttachmentSignature(
+  attachmentId: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  if (!expires || !signature) {
+    return false;
+  }
+  
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+  
+  const expected = Buffer.from(sign(attachmentId, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Attachments for a set of messages, grouped by message id
+ */
+export async function listMessageAttachments(
+  orgId: string,
+  messageIds: (string | Types.ObjectId)[]
+): Promise<Map<string, ReturnType<typeof serializeAttachment>[]>> {
+  const attachments: AttachmentDocument[] = await Attachment.find({
+    orgId,
+    messageId: { $in: messageIds }
+  }).sort({ createdAt: 1 });
+  
+  const grouped = new Map<string, ReturnType<typeof serializeAttachment>[]>();
+  for (const attachment of attachments) {
+    const key = attachment.messageId!.toString();
+    grouped.set(key, [...(grouped.get(key) ?? []), serializeAttachment(attachment)]);
+  }
+  return grouped;
+}
+
+/**
+ * Files that came with the customer's original request (e.g. the email that
+ * opened the ticket). They belong to no message and have no uploading user.
+ */
+export async function listTicketRequestAttachments(
+  orgId: string,
+  ticketId: string | Types.ObjectId
+): Promise<ReturnType<typeof serializeAttachment>[]> {
+  const attachments: AttachmentDocument[] = await Attachment.find({
+    orgId,
+    ticketId,
+    messageId: null,
+    uploadedBy: null
+  }).sort({ createdAt: 1 });
+  return attachments.map(serializeAttachment);
+}
+
+/**
+ * Shape an attachment for API responses, including a fresh signed download URL
+ */
+export function serializeAttachment(attachment: AttachmentDocument) {
+  return {
+    id: attachment._id,
+    ticketId: attachment.ticketId,
+    messageId: attachment.messageId,
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    url: createSignedAttachmentUrl(attachment._id.toString()),
+    createdAt: attachment.createdAt
+  };
+}
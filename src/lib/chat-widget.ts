@@ -0,0 +1,258 @@
+import jwt from 'jsonwebtoken';
+import { NextRequest, NextResponse } from 'next/server';
+import { Types, isValidObjectId } from 'mongoose';
+import Org from '@/models/Org';
+import Ticket, { type TicketDocument } from '@/models/Ticket';
+import TicketMessage, { type TicketMessageDocument } from '@/models/TicketMessage';
+import type { OrgContext } from '@/lib/multi-tenant';
+
+// Widget requests carry the conversation token here (or as ?token= for
+// EventSource, which can't set headers)
+export const CHAT_TOKEN_HEADER = 'x-chat-token';
+
+const CHAT_AUDIENCE = 'chat';
+const CHAT_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+const CHAT_SUBJECT_LENGTH = 80;
+// Most messages returned by one read of a conversation
+const CHAT_MESSAGE_PAGE_SIZE = 200;
+
+// Who the visitor is talking to right now
+export type ChatState = 'ai' | 'waiting' | 'agent' | 'closed';
+
+export interface ChatWidgetSettings {
+  enabled: boolean;
+  allowedOrigins: string[];
+  title: string;
+  greeting: string;
+  primaryColor: string;
+}
+
+interface ChatTokenPayload {
+  orgId: string;
+  ticketId: string;
+}
+
+function chatTokenSecret(): string {
+  return `${process.env.JWT_SECRET || 'fallback-secret-key'}:chat`;
+}
+
+/**
+ * Widget settings with defaults filled in
+ */
+export function getChatWidgetSettings(org: { chatWidget?: Partial<ChatWidgetSettings> | null }): ChatWidgetSettings {
+  return {
+    enabled: org.chatWidget?.enabled ?? false,
+    allowedOrigins: [...(org.chatWidget?.allowedOrigins ?? [])],
+    title: org.chatWidget?.title ?? '',
+    greeting: org.chatWidget?.greeting ?? '',
+    primaryColor: org.chatWidget?.primaryColor ?? '#2563eb'
+  };
+}
+
+/**
+ * CORS headers for a widget response to an allowed origin
+ */
+function corsHeaders(origin: string): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': `Content-Type, ${CHAT_TOKEN_HEADER}`,
+    'Access-Control-Max-Age': '600',
+    'Vary': 'Origin'
+  };
+}
+
+/**
+ * Resolve the org a widget request is for (by slug, from the embed snippet) and
+ * check the request comes from one of the org's allowed origins. Requests
+ * without an Origin header are refused too: the widget always runs cross-origin.
+ * On success, `headers` are the CORS headers every response must carry.
+ */
+export async function validateWidgetRequest(
+  request: NextRequest,
+  slug: string
+): Promise<{ org: OrgContext; headers: Record<string, string> } | { error: NextResponse }> {
+  const orgDoc = await Org.findOne({ slug });
+  const settings = orgDoc ? getChatWidgetSettings(orgDoc) : null;
+  if (!orgDoc || !settings?.enabled) {
+    return { error: NextResponse.json({ error: 'Chat is not available' }, { status: 404 }) };
+  }
+
+  const origin = request.headers.get('origin');
+  if (!origin || !settings.allowedOrigins.includes(origin)) {
+    return { error: NextResponse.json({ error: 'Origin not allowed' }, { status: 403 }) };
+  }
+
+  return {
+    org: { orgId: orgDoc._id.toString(), orgSlug: orgDoc.slug, orgName: orgDoc.name },
+    headers: corsHeaders(origin)
+  };
+}
+
+/**
+ * Answer a CORS preflight for a widget endpoint
+ */
+export async function widgetPreflight(request: NextRequest, slug: string): Promise<NextResponse> {
+  const validation = await validateWidgetRequest(request, slug);
+  if ('error' in validation) {
+    return validation.error;
+  }
+  return new NextResponse(null, { status: 204, headers: validation.headers });
+}
+
+/**
+ * The embed snippet's script URL, on the org's subdomain when APP_DOMAIN is set
+ */
+export function getWidgetScriptUrl(orgSlug: string, request: NextRequest): string {
+  const domain = process.env.APP_DOMAIN?.trim();
+  return domain
+    ? `https://${orgSlug}.${domain}/widget.js`
+    : `${request.nextUrl.origin}/widget.js`;
+}
+
+/**
+ * Token the widget keeps (in the visitor's browser) to continue a conversation
+ */
+export function signChatToken(ticket: TicketDocument): string {
+  const payload: ChatTokenPayload = {
+    orgId: ticket.orgId.toString(),
+    ticketId: ticket._id.toString()
+  };
+  return jwt.sign(payload, chatTokenSecret(), {
+    audience: CHAT_AUDIENCE,
+    expiresIn: CHAT_TOKEN_TTL_SECONDS
+  });
+}
+
+/**
+ * The chat ticket a widget request may access: the token must be for this
+ * conversation in this org. Null otherwise.
+ */
+export async function findChatConversation(
+  request: NextRequest,
+  orgId: string,
+  ticketId: string
+): Promise<TicketDocument | null> {
+  const token = request.headers.get(CHAT_TOKEN_HEADER) || request.nextUrl.searchParams.get('token');
+  if (!token || !isValidObjectId(ticketId)) {
+    return null;
+  }
+
+  let payload: ChatTokenPayload;
+  try {
+    payload = jwt.verify(token, chatTokenSecret(), { audience: CHAT_AUDIENCE }) as ChatTokenPayload;
+  } catch {
+    return null;
+  }
+  if (payload.orgId !== orgId || payload.ticketId !== ticketId) {
+    return null;
+  }
+
+  return Ticket.findOne({ _id: ticketId, orgId, channel: 'chat', deletedAt: null });
+}
+
+/**
+ * Public messages on a chat, oldest first, optionally only those after a
+ * message the widget already has
+ */
+export async function listChatMessages(
+  orgId: string,
+  ticketId: string,
+  afterId?: string
+): Promise<TicketMessageDocument[]> {
+  const query: Record<string, unknown> = { orgId, ticketId, visibility: 'public' };
+  if (afterId) {
+    query._id = { $gt: new Types.ObjectId(afterId) };
+  }
+  return TicketMessage.find(query).sort({ _id: 1 }).limit(CHAT_MESSAGE_PAGE_SIZE);
+}
+
+/**
+ * The chat ticket and its public messages after `afterId`, read in a single
+ * query (the event stream runs this on every poll). Null once the chat is gone.
+ */
+export async function pollChatConversation(
+  orgId: string,
+  ticketId: string,
+  afterId?: string
+): Promise<{ ticket: TicketDocument; messages: TicketMessageDocument[] } | null> {
+  const messageFilter: Record<string, unknown> = {
+    orgId: new Types.ObjectId(orgId),
+    visibility: 'public'
+  };
+  if (afterId) {
+    messageFilter._id = { $gt: new Types.ObjectId(afterId) };
+  }
+
+  const [row] = await Ticket.aggregate([
+    {
+      $match: {
+        _id: new Types.ObjectId(ticketId),
+        orgId: new Types.ObjectId(orgId),
+        channel: 'chat',
+        deletedAt: null
+      }
+    },
+    {
+      $lookup: {
+        from: TicketMessage.collection.name,
+        localField: '_id',
+        foreignField: 'ticketId',
+        pipeline: [
+          { $match: messageFilter },
+          { $sort: { _id: 1 } },
+          { $limit: CHAT_MESSAGE_PAGE_SIZE }
+        ],
+        as: 'chatMessages'
+      }
+    }
+  ]);
+  if (!row) {
+    return null;
+  }
+
+  const { chatMessages, ...ticket } = row;
+  return {
+    ticket: Ticket.hydrate(ticket),
+    messages: (chatMessages as Record<string, unknown>[]).map((message) => TicketMessage.hydrate(message))
+  };
+}
+
+/**
+ * AI first: the AI's answer stands while the ticket waits on the visitor. Once
+ * they write back (or the AI couldn't answer) the chat waits for an agent.
+ */
+export function getChatState(ticket: TicketDocument): ChatState {
+  if (ticket.status === 'closed') {
+    return 'closed';
+  }
+  if (ticket.firstRespondedAt) {
+    return 'agent';
+  }
+  const aiAnswered = ticket.aiAutoResponse?.status === 'answered' && ticket.status === 'pending-customer';
+  return aiAnswered ? 'ai' : 'waiting';
+}
+
+/**
+ * Ticket subject for a chat: the start of the visitor's first message
+ */
+export function chatSubject(message: string): string {
+  const firstLine = message.trim().split('\n')[0].trim();
+  return firstLine.length > CHAT_SUBJECT_LENGTH
+    ? `${firstLine.slice(0, CHAT_SUBJECT_LENGTH - 1).trimEnd()}…`
+    : firstLine;
+}
+
+/**
+ * Shape a chat ticket for the widget. The visitor's opening message is the
+ * ticket description; everything after it is a ticket message.
+ */
+export function serializeChatConversation(ticket: TicketDocument) {
+  return {
+    id: ticket._id,
+    openingMessage: ticket.description,
+    status: ticket.status,
+    state: getChatState(ticket),
+    createdAt: ticket.createdAt
+  };
+}
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import Customer, { type CustomerDocument } from '@/models/Customer';
+import CustomerLoginToken from '@/models/CustomerLoginToken';
+import { getEmailTransport } from '@/lib/email/transport';
+import { getOrgEmailSender, type SenderOrg } from '@/lib/email/sender';
+import { renderMagicLinkEmail } from '@/lib/email/templates';
+
+// Deliberately not 'auth-token': customers never carry an agent session
+export const CUSTOMER_COOKIE = 'customer-token';
+
+const CUSTOMER_AUDIENCE = 'customer';
+const LOGIN_LINK_TTL_MINUTES = 15;
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface CustomerJWTPayload {
+  customerId: string;
+  orgId: string;
+  email: string;
+}
+
+interface LoginLinkOrg extends SenderOrg {
+  _id: { toString(): string };
+}
+
+/**
+ * Customer tokens are signed with their own key (derived from JWT_SECRET), so
+ * they can never verify as agent tokens in verifyToken or the middleware
+ */
+function customerTokenSecret(): string {
+  return `${process.env.JWT_SECRET || 'fallback-secret-key'}:customer`;
+}
+
+function hashLoginToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function signCustomerToken(customer: CustomerDocument): string {
+  const payload: CustomerJWTPayload = {
+    customerId: customer._id.toString(),
+    orgId: customer.orgId.toString(),
+    email: customer.email
+  };
+  return jwt.sign(payload, customerTokenSecret(), {
+    audience: CUSTOMER_AUDIENCE,
+    expiresIn: SESSION_TTL_SECONDS
+  });
+}
+
+export function verifyCustomerToken(token: string): CustomerJWTPayload | null {
+  try {
+    return jwt.verify(token, customerTokenSecret(), { audience: CUSTOMER_AUDIENCE }) as CustomerJWTPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The signed-in customer for this org, from the customer cookie.
+ * Null when there is no session or it belongs to another org.
+ */
+export async function getCustomerFromRequest(
+  request: NextRequest,
+  orgId: string
+): Promise<CustomerDocument | null> {
+  const token = request.cookies.get(CUSTOMER_COOKIE)?.value;
+  const payload = token ? verifyCustomerToken(token) : null;
+  if (!payload || payload.orgId !== orgId || !isValidObjectId(payload.customerId)) {
+    return null;
+  }
+  return Customer.findOne({ _id: payload.customerId, orgId });
+}
+
+export function setCustomerCookie(response: NextResponse, token: string): void {
+  response.cookies.set(CUSTOMER_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: SESSION_TTL_SECONDS,
+    path: '/'
+  });
+}
+
+export function clearCustomerCookie(response: NextResponse): void {
+  response.cookies.set(CUSTOMER_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 0,
+    path: '/'
+  });
+}
+
+/**
+ * Base URL of an org's help center for emailed links. Built from APP_DOMAIN
+ * rather than the Host header, which the requester controls; falls back to
+ * the request origin outside production.
+ */
+export function getHelpCenterUrl(orgSlug: string, request: NextRequest): string | null {
+  const domain = process.env.APP_DOMAIN?.trim();
+  if (domain) {
+    return `https://${orgSlug}.${domain}/help`;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    return null;
+  }
+  return `${request.nextUrl.origin}/help`;
+}
+
+/**
+ * Email a one-time sign-in link, creating the customer on first use.
+ * Returns false when the org has no sender address configured.
+ */
+export async function sendCustomerLoginLink(
+  org: LoginLinkOrg,
+  email: string,
+  helpCenterUrl: string
+): Promise<boolean> {
+  const sender = getOrgEmailSender(org);
+  if (!sender) {
+    return false;
+  }
+
+  const customer: CustomerDocument = await Customer.findOneAndUpdate(
+    { orgId: org._id, email },
+    { $setOnInsert: { orgId: org._id, email } },
+    { upsert: true, new: true }
+  );
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await CustomerLoginToken.create({
+    orgId: org._id,
+    customerId: customer._id,
+    tokenHash: hashLoginToken(token),
+    expiresAt: new Date(Date.now() + LOGIN_LINK_TTL_MINUTES * 60 * 1000)
+  });
+
+  await getEmailTransport().send({
+    from: sender.from,
+    to: email,
+    ...renderMagicLinkEmail(sender.branding, {
+      url: `${helpCenterUrl}/verify?token=${token}`,
+      expiresInMinutes: LOGIN_LINK_TTL_MINUTES
+    })
+  });
+  return true;
+}
+
+/**
+ * Exchange a magic-link token for its customer. Tokens work once and expire.
+ */
+export async function redeemCustomerLoginToken(
+  orgId: string,
+  token: string
+): Promise<CustomerDocument | null> {
+  // Claim the token atomically so it can't be redeemed twice
+  const loginToken = await CustomerLoginToken.findOneAndUpdate(
+    { orgId, tokenHash: hashLoginToken(token), usedAt: null, expiresAt: { $gt: new Date() } },
+    { usedAt: new Date() }
+  );
+  if (!loginToken) {
+    return null;
+  }
+
+  return Customer.findOneAndUpdate(
+    { _id: loginToken.customerId, orgId },
+    { lastLoginAt: new Date() },
+    { new: true }
+  );
+}
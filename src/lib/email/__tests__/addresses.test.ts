@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createReplyToken,
+  getOrgSupportAddress,
+  parseSupportAddress,
+  verifyReplyToken
+} from '@/lib/email/addresses';
+
+const ticketId = '65f000000000000000000001';
+
+describe('support addresses', () => {
+  beforeEach(() => {
+    vi.stubEnv('INBOUND_EMAIL_DOMAIN', 'mail.example.com');
+    vi.stubEnv('EMAIL_REPLY_SECRET', 'test-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('plus-addresses the support mailbox with a signed reply token', () => {
+    const address = getOrgSupportAddress('acme', ticketId);
+
+    expect(address).toBe(`support+${createReplyToken(ticketId)}@acme.mail.example.com`);
+    expect(parseSupportAddress(address!)).toEqual({ orgSlug: 'acme', replyToken: createReplyToken(ticketId) });
+    expect(verifyReplyToken(parseSupportAddress(address!)!.replyToken!)).toBe(ticketId);
+  });
+
+  it('accepts reply tokens whatever the case the mail client used', () => {
+    expect(verifyReplyToken(createReplyToken(ticketId).toUpperCase())).toBe(ticketId);
+  });
+
+  it('rejects forged and malformed reply tokens', () => {
+    const otherTicket = '65f000000000000000000002';
+    const [, signature] = createReplyToken(ticketId).split('-');
+
+    expect(verifyReplyToken(`${otherTicket}-${signature}`)).toBeNull();
+    expect(verifyReplyToken(`${ticketId}-`)).toBeNull();
+    expect(verifyReplyToken('not-a-token')).toBeNull();
+  });
+
+  it('only recognizes the support mailbox on an org subdomain', () => {
+    expect(parseSupportAddress('support@acme.mail.example.com')).toEqual({ orgSlug: 'acme', replyToken: null });
+    expect(parseSupportAddress('sales@acme.mail.example.com')).toBeNull();
+    expect(parseSupportAddress('support@mail.example.com')).toBeNull();
+    expect(parseSupportAddress('support@a.b.mail.example.com')).toBeNull();
+    expect(parseSupportAddress('support@acme.example.org')).toBeNull();
+  });
+
+  it('has no support address without an inbound domain', () => {
+    vi.stubEnv('INBOUND_EMAIL_DOMAIN', '');
+
+    expect(getOrgSupportAddress('acme', ticketId)).toBeNull();
+    expect(parseSupportAddress('support@acme.mail.example.com')).toBeNull();
+  });
+});
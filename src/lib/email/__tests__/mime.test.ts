@@ -0,0 +1,119 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { decodeEncodedWords, parseAddressList, parseMimeMessage } from '@/lib/email/mime';
+
+function fixture(name: string): Buffer {
+  return readFileSync(path.join(__dirname, 'fixtures', name));
+}
+
+describe('parseMimeMessage', () => {
+  it('parses a Gmail reply', () => {
+    const email = parseMimeMessage(fixture('gmail-reply.eml'));
+
+    expect(email.from).toEqual({ name: 'Jane Doe', email: 'jane.doe@gmail.com' });
+    expect(email.to).toEqual([{ name: 'Acme Support', email: 'support+t.abc123@acme.mail.example.com' }]);
+    expect(email.deliveredTo).toEqual([{ name: null, email: 'support@acme.mail.example.com' }]);
+    expect(email.subject).toBe("Re: [#1042] Can't export invoices");
+    expect(email.messageId).toBe('CAJx1Yk9vZ+abcDEF=ghi@mail.gmail.com');
+    expect(email.inReplyTo).toEqual(['ticket-1042@acme.mail.example.com']);
+    expect(email.references).toEqual(['ticket-1042@acme.mail.example.com']);
+    expect(email.text).toContain('On Mon, Oct 13, 2025 at 5:40 PM Acme Support <support@acme.mail.example.com> wrote:');
+    expect(email.html).toContain('<div class="gmail_quote">');
+    expect(email.attachments).toEqual([]);
+    expect(email.autoGenerated).toBe(false);
+  });
+
+  it('parses an Outlook reply with folded headers and a windows-1252 body', () => {
+    const email = parseMimeMessage(fixture('outlook-reply.eml'));
+
+    expect(email.from).toEqual({ name: 'Smith, Bob', email: 'bob.smith@contoso.com' });
+    expect(email.to).toEqual([{ name: 'support@acme.mail.example.com', email: 'support@acme.mail.example.com' }]);
+    expect(email.messageId).toBe('DM6PR11MB4107A2B1C3D4E5F6@DM6PR11MB4107.namprd11.prod.outlook.com');
+    expect(email.inReplyTo).toEqual(['msg-1@acme.mail.example.com']);
+    expect(email.text).toContain('cancel the duplicate charge – the one from 3 October.');
+    expect(email.html).toContain('<div id="divRplyFwdMsg" dir="ltr">');
+  });
+
+  it('parses an Apple Mail reply with encoded headers', () => {
+    const email = parseMimeMessage(fixture('apple-mail-reply.eml'));
+
+    expect(email.from).toEqual({ name: 'Renée François', email: 'renee@icloud.com' });
+    expect(email.subject).toBe('Re: Commande n°4561 à livrer');
+    expect(email.messageId).toBe('8F3C2A1B-77D4-4E2B-9C0A-1D2E3F4A5B6C@icloud.com');
+    expect(email.references).toEqual(['ticket-99@acme.mail.example.com', 'msg-7@acme.mail.example.com']);
+    expect(email.text).toMatch(/^Merci, le colis est bien arrivé\./);
+    expect(email.text).toContain('> Le 15 oct. 2025 à 18:02, Acme Support <support@acme.mail.example.com> a écrit :');
+    expect(email.html).toContain('<blockquote type="cite">');
+  });
+
+  it('collects attachments from nested multiparts with RFC 2231 and RFC 2047 filenames', () => {
+    const email = parseMimeMessage(fixture('attachments.eml'));
+
+    expect(email.subject).toBe('Factura pendiente - año 2025');
+    expect(email.deliveredTo).toEqual([{ name: null, email: 'support@acme.mail.example.com' }]);
+    expect(email.cc).toEqual([
+      { name: 'Lee, Pat', email: 'pat@example.org' },
+      { name: null, email: 'ops@example.org' }
+    ]);
+    expect(email.text).toBe('Screenshots and the invoice are attached.\n');
+    expect(email.html).toBe('<p>Screenshots and the invoice are attached.</p>\n');
+
+    expect(email.attachments.map(({ filename, contentType }) => ({ filename, contentType }))).toEqual([
+      { filename: 'naïve invoice.pdf', contentType: 'application/pdf' },
+      { filename: '屏幕-capture.png', contentType: 'image/png' },
+      { filename: 'Capture d’écran.jpg', contentType: 'image/jpeg' },
+      { filename: 'message.eml', contentType: 'message/rfc822' }
+    ]);
+    expect(email.attachments[0].content.toString('latin1')).toBe('%PDF-1.4\n%\xc4\xe5\xf2\xe5\n');
+    expect(email.attachments[1].content).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(email.attachments[3].content.toString()).toContain('Subject: Forwarded');
+  });
+
+  it('handles CRLF line endings', () => {
+    const raw = fixture('attachments.eml').toString('latin1').replace(/\n/g, '\r\n');
+    const email = parseMimeMessage(Buffer.from(raw, 'latin1'));
+
+    expect(email.subject).toBe('Factura pendiente - año 2025');
+    expect(email.text).toBe('Screenshots and the invoice are attached.\r\n');
+    expect(email.attachments.map((attachment) => attachment.filename)).toEqual([
+      'naïve invoice.pdf',
+      '屏幕-capture.png',
+      'Capture d’écran.jpg',
+      'message.eml'
+    ]);
+  });
+
+  it('flags auto-replies', () => {
+    const email = parseMimeMessage([
+      'From: Jane Doe <jane@example.com>',
+      'To: support@acme.mail.example.com',
+      'Subject: Out of office',
+      'Auto-Submitted: auto-replied',
+      '',
+      'I am away until Monday.'
+    ].join('\n'));
+
+    expect(email.autoGenerated).toBe(true);
+    expect(email.text).toBe('I am away until Monday.');
+  });
+});
+
+describe('decodeEncodedWords', () => {
+  it('joins adjacent encoded words and keeps plain text around them', () => {
+    expect(decodeEncodedWords('=?UTF-8?Q?caf=C3=A9?= =?UTF-8?B?IGNyw6htZQ==?= order')).toBe('café crème order');
+  });
+
+  it('falls back to UTF-8 for unknown charsets', () => {
+    expect(decodeEncodedWords('=?x-unknown?Q?ok?=')).toBe('ok');
+  });
+});
+
+describe('parseAddressList', () => {
+  it('handles quoted names with commas, comments and bare addresses', () => {
+    expect(parseAddressList('"Doe, Jane" <Jane@Example.com>, bob@example.com (Bob), not-an-address')).toEqual([
+      { name: 'Doe, Jane', email: 'jane@example.com' },
+      { name: 'Bob', email: 'bob@example.com' }
+    ]);
+  });
+});
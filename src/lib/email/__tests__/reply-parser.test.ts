@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseMimeMessage } from '@/lib/email/mime';
+import { extractReplyText, htmlToText } from '@/lib/email/reply-parser';
+
+function fixture(name: string) {
+  return parseMimeMessage(readFileSync(path.join(__dirname, 'fixtures', name)));
+}
+
+describe('extractReplyText', () => {
+  it('strips the quoted thread from a Gmail reply', () => {
+    const email = fixture('gmail-reply.eml');
+
+    expect(extractReplyText(email.text ?? '')).toBe(
+      'Thanks, that worked! The export finished in about a minute.\n\nJane'
+    );
+  });
+
+  it('strips the quoted thread from an Outlook reply', () => {
+    const email = fixture('outlook-reply.eml');
+
+    expect(extractReplyText(email.text ?? '')).toBe(
+      'Hi,\n\nYes, please cancel the duplicate charge – the one from 3 October.\n\nRegards,\nBob'
+    );
+  });
+
+  it('strips trailing ">"-quoted lines from an Apple Mail reply', () => {
+    const email = fixture('apple-mail-reply.eml');
+
+    expect(extractReplyText(email.text ?? '')).toBe('Merci, le colis est bien arrivé.');
+  });
+
+  it('removes signatures', () => {
+    expect(extractReplyText('Works now.\n\n-- \nJane Doe\nACME Corp')).toBe('Works now.');
+    expect(extractReplyText('Works now.\n\nSent from my iPhone')).toBe('Works now.');
+    expect(extractReplyText('Works now.\r\n\r\nGet Outlook for iOS')).toBe('Works now.');
+  });
+
+  it('keeps the whole text when stripping would leave nothing', () => {
+    const inline = '> Which browser are you using?\nFirefox 130\n> And the OS?\nmacOS';
+    expect(extractReplyText(inline)).toBe(inline);
+  });
+});
+
+describe('htmlToText', () => {
+  it('drops Gmail, Outlook and Apple Mail quotes', () => {
+    expect(htmlToText(fixture('gmail-reply.eml').html ?? '')).toBe(
+      'Thanks, that worked! The export finished in about a minute.\n\nJane'
+    );
+    expect(htmlToText(fixture('outlook-reply.eml').html ?? '')).toBe(
+      'Hi,\n\nYes, please cancel the duplicate charge – the one from 3 October.\n\nRegards,\nBob'
+    );
+    expect(htmlToText(fixture('apple-mail-reply.eml').html ?? '')).toBe('Merci, le colis est bien arrivé.');
+  });
+
+  it('keeps replies written between quotes', () => {
+    const html = '<blockquote>Which browser?</blockquote><p>Firefox</p>' +
+      '<blockquote>And the OS? <blockquote>nested</blockquote> still quoted</blockquote><p>macOS</p>';
+
+    expect(htmlToText(html)).toBe('Firefox\nmacOS');
+  });
+
+  it('drops an unclosed quote to the end', () => {
+    expect(htmlToText('<p>Reply</p><blockquote>quoted <p>history')).toBe('Reply');
+  });
+
+  it('decodes entities', () => {
+    expect(htmlToText('Fish &amp; chips &lt;3 &#233;&#xE9; &nbsp;&unknown;')).toBe('Fish & chips <3 éé  &unknown;');
+  });
+
+  it('replaces invalid numeric entities instead of throwing', () => {
+    expect(htmlToText('a&#99999999;b&#x110000;c&#xD800;d&#0;e')).toBe('a�b�c�d�e');
+  });
+});
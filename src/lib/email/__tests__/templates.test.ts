@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  renderAgentReplyEmail,
+  renderStatusChangeEmail,
+  renderTicketCreatedEmail,
+  type EmailBranding
+} from '@/lib/email/templates';
+
+const branding: EmailBranding = {
+  orgName: 'Acme',
+  fromName: '',
+  logoUrl: '',
+  primaryColor: '#ff0000',
+  signature: '',
+  footer: ''
+};
+
+describe('email templates', () => {
+  it('escapes customer and org text in the HTML part', () => {
+    const email = renderTicketCreatedEmail(
+      { ...branding, orgName: 'Acme & <Co>', footer: '<script>alert(1)</script>' },
+      { subject: '<img src=x onerror=alert(1)>', requesterName: '"Jane"' }
+    );
+
+    expect(email.html).not.toContain('<img src=x');
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(email.html).toContain('Hi &quot;Jane&quot;,');
+    expect(email.html).toContain('Acme &amp; &lt;Co&gt;');
+    expect(email.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    // The plain-text part is left as written
+    expect(email.text).toContain('Hi "Jane",');
+  });
+
+  it('escapes logo URLs and ignores colors that are not hex codes', () => {
+    const email = renderAgentReplyEmail(
+      { ...branding, logoUrl: 'https://cdn.example.com/logo.png" onload="alert(1)', primaryColor: 'red;background:url(x)' },
+      { subject: 'Refund' },
+      { body: 'Done.' }
+    );
+
+    expect(email.html).toContain('src="https://cdn.example.com/logo.png&quot; onload=&quot;alert(1)"');
+    expect(email.html).not.toContain('red;background');
+    expect(email.html).toContain('#2563eb');
+  });
+
+  it('keeps paragraphs and line breaks of a reply', () => {
+    const email = renderAgentReplyEmail(branding, { subject: 'Refund' }, {
+      body: 'First line\nsecond line\n\nNew paragraph'
+    });
+
+    expect(email.subject).toBe('Re: Refund');
+    expect(email.html).toContain('First line<br>second line</p><p style="margin:0 0 16px">New paragraph');
+    expect(email.text).toContain('The Acme team');
+  });
+
+  it('tells the customer a closed request cannot be reopened by replying', () => {
+    const email = renderStatusChangeEmail(branding, { subject: 'Refund' }, 'closed');
+
+    expect(email.subject).toBe('Your request has been closed: Refund');
+    expect(email.text).toContain('Replying to this email will open a new request.');
+  });
+});
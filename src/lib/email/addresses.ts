@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { isValidObjectId } from 'mongoose';
+
+// Mailbox every org receives support email at: support@<slug>.<domain>
+const SUPPORT_MAILBOX = 'support';
+
+/**
+ * Domain inbound email is received on (each org is a subdomain of it)
+ */
+export function getInboundEmailDomain(): string | null {
+  return process.env.INBOUND_EMAIL_DOMAIN?.trim().toLowerCase() || null;
+}
+
+function replyTokenSecret(): string {
+  return process.env.EMAIL_REPLY_SECRET || process.env.JWT_SECRET || 'fallback-secret-key';
+}
+
+function signTicketId(ticketId: string): string {
+  return crypto
+    .createHmac('sha256', replyTokenSecret())
+    .update(`reply:${ticketId}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Token identifying the ticket a reply belongs to; signed so it can't be guessed
+ */
+export function createReplyToken(ticketId: string): string {
+  return `${ticketId}-${signTicketId(ticketId)}`;
+}
+
+/**
+ * Ticket id from a reply token, or null if the token is malformed or forged
+ */
+export function verifyReplyToken(token: string): string | null {
+  const [ticketId, signature] = token.toLowerCase().split('-');
+  if (!ticketId || !signature || !isValidObjectId(ticketId)) {
+    return null;
+  }
+
+  const expected = Buffer.from(signTicketId(ticketId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+    ? ticketId
+    : null;
+}
+
+/**
+ * The org's support address, optionally plus-addressed with a ticket's reply token
+ */
+export function getOrgSupportAddress(orgSlug: string, ticketId?: string): string | null {
+  const domain = getInboundEmailDomain();
+  if (!domain) {
+    return null;
+  }
+  const mailbox = ticketId ? `${SUPPORT_MAILBOX}+${createReplyToken(ticketId)}` : SUPPORT_MAILBOX;
+  return `${mailbox}@${orgSlug}.${domain}`;
+}
+
+/**
+ * Split a recipient like support+<token>@acme.example.com into the org slug and reply token.
+ * Returns null for addresses that aren't an org support mailbox.
+ */
+export function parseSupportAddress(address: string): { orgSlug: string; replyToken: string | null } | null {
+  const domain = getInboundEmailDomain();
+  if (!domain) {
+    return null;
+  }
+
+  const [localPart, host] = address.toLowerCase().split('@');
+  if (!host?.endsWith(`.${domain}`)) {
+    return null;
+  }
+  const orgSlug = host.slice(0, -(domain.length + 1));
+  if (!orgSlug || orgSlug.includes('.')) {
+    return null;
+  }
+
+  const [mailbox, ...tag] = localPart.split('+');
+  if (mailbox !== SUPPORT_MAILBOX) {
+    return null;
+  }
+  return { orgSlug, replyToken: tag.join('+') || null };
+}
@@ -0,0 +1,315 @@
+export interface EmailAddress {
+  name: string | null;
+  email: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * An email reduced to what the help desk needs
+ */
+export interface ParsedEmail {
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  /** Envelope recipients added by the receiving server (Delivered-To, X-Original-To) */
+  deliveredTo: EmailAddress[];
+  subject: string;
+  messageId: string | null;
+  inReplyTo: string[];
+  references: string[];
+  text: string | null;
+  html: string | null;
+  attachments: EmailAttachment[];
+  /** Auto-replies and bulk mail, which must never open tickets or trigger replies */
+  autoGenerated: boolean;
+}
+
+interface MimeEntity {
+  headers: Map<string, string[]>;
+  body: string; // raw bytes as a latin1 string
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+// Raw bytes travel through the parser as latin1 strings (one char per byte)
+const toBytes = (value: string) => Buffer.from(value, 'latin1');
+
+// windows-1252 characters for bytes 0x80-0x9f. Node's TextDecoder decodes
+// windows-1252 (which iso-8859-1 and us-ascii are aliases of) as latin1,
+// turning Outlook's dashes and curly quotes into control characters.
+const WINDOWS_1252_C1 = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset || 'utf-8');
+  } catch {
+    // Unknown charset label
+    decoder = new TextDecoder('utf-8');
+  }
+
+  const text = decoder.decode(bytes);
+  return decoder.encoding === 'windows-1252'
+    ? text.replace(/[\u0080-\u009f]/g, (char) => WINDOWS_1252_C1[char.charCodeAt(0) - 0x80])
+    : text;
+}
+
+function splitHeadersAndBody(raw: string): { head: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) {
+    return { head: raw, body: '' };
+  }
+  return { head: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+function parseHeaders(head: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  // Unfold continuation lines, then split "Name: value" pairs
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Headers are usually ASCII, but raw UTF-8 is common in practice
+    const value = decodeCharset(toBytes(line.slice(colon + 1).trim()), 'utf-8');
+    headers.set(name, [...(headers.get(name) ?? []), value]);
+  }
+  return headers;
+}
+
+function header(entity: MimeEntity, name: string): string | null {
+  return entity.headers.get(name)?.[0] ?? null;
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?utf-8?B?...?= / =?iso-8859-1?Q?...?=)
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    // Whitespace between adjacent encoded words is not part of the text
+    .replace(/(=\?[^?]+\?[bBqQ]\?[^?]*\?=)\s+(?==\?[^?]+\?[bBqQ]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([bBqQ])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : toBytes(decodeQuotedPrintable(text.replace(/_/g, ' ')));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function decodeQuotedPrintable(value: string): string {
+  return value
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Parse a structured header like `text/plain; charset="utf-8"`, including
+ * RFC 2231 parameters (filename*=utf-8''na%C3%AFve.pdf, name*0=..., name*1=...)
+ */
+function parseHeaderValue(raw: string | null): HeaderValue {
+  if (!raw) {
+    return { value: '', params: {} };
+  }
+
+  const parts = raw.match(/(?:[^;"]+|"(?:[^"\\]|\\.)*")+/g) ?? [];
+  const value = (parts.shift() ?? '').trim().toLowerCase();
+  const params: Record<string, string> = {};
+  const extended: Record<string, { index: number; text: string; encoded: boolean }[]> = {};
+
+  for (const part of parts) {
+    const eq = part.indexOf('=');
+    if (eq === -1) {
+      continue;
+    }
+    const key = part.slice(0, eq).trim().toLowerCase();
+    let text = part.slice(eq + 1).trim();
+    if (text.startsWith('"') && text.endsWith('"')) {
+      text = text.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    const rfc2231 = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key);
+    if (rfc2231 && (rfc2231[2] !== undefined || rfc2231[3])) {
+      const name = rfc2231[1];
+      extended[name] = [...(extended[name] ?? []), {
+        index: Number(rfc2231[2] ?? 0),
+        text,
+        encoded: !!rfc2231[3]
+      }];
+    } else {
+      params[key] = decodeEncodedWords(text);
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(extended)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes = pieces.map((piece, i) => {
+      let text = piece.text;
+      if (piece.encoded && i === 0) {
+        const [set, , rest] = text.split("'");
+        charset = set || charset;
+        text = rest ?? '';
+      }
+      return piece.encoded
+        ? text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+        : text;
+    }).join('');
+    params[name] = decodeCharset(toBytes(bytes), charset);
+  }
+
+  return { value, params };
+}
+
+function decodeBody(entity: MimeEntity): Buffer {
+  const encoding = (header(entity, 'content-transfer-encoding') ?? '').trim().toLowerCase();
+  if (encoding === 'base64') {
+    return Buffer.from(entity.body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+  }
+  if (encoding === 'quoted-printable') {
+    return toBytes(decodeQuotedPrintable(entity.body));
+  }
+  return toBytes(entity.body);
+}
+
+function parseEntity(raw: string): MimeEntity {
+  const { head, body } = splitHeadersAndBody(raw);
+  return { headers: parseHeaders(head), body };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?=\\r?\\n|$)`, 'g');
+
+  const parts: string[] = [];
+  let start: number | null = null;
+  let match: RegExpExecArray | null;
+  while ((match = delimiter.exec(body))) {
+    if (start !== null) {
+      parts.push(body.slice(start, match.index));
+    }
+    if (match[1]) {
+      return parts;
+    }
+    // Skip the line break that ends the delimiter line
+    start = match.index + match[0].length;
+    const lineBreak = /^\r?\n/.exec(body.slice(start));
+    start += lineBreak ? lineBreak[0].length : 0;
+  }
+  // Unterminated multipart: keep whatever followed the last delimiter
+  if (start !== null) {
+    parts.push(body.slice(start));
+  }
+  return parts;
+}
+
+/**
+ * Parse an address list header: `"Doe, Jane" <jane@example.com>, bob@example.com`
+ */
+export function parseAddressList(value: string | null): EmailAddress[] {
+  if (!value) {
+    return [];
+  }
+
+  const entries = value.match(/(?:[^,"<]+|"(?:[^"\\]|\\.)*"|<[^>]*>)+/g) ?? [];
+  const addresses: EmailAddress[] = [];
+  for (const entry of entries) {
+    const angle = /<([^>]*)>/.exec(entry);
+    const email = (angle ? angle[1] : entry.replace(/\(.*\)/, '')).trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      continue;
+    }
+
+    let name = angle
+      ? entry.slice(0, angle.index).trim()
+      : (/\((.*)\)/.exec(entry)?.[1] ?? '').trim();
+    name = decodeEncodedWords(name.replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1')).trim();
+    addresses.push({ name: name || null, email });
+  }
+  return addresses;
+}
+
+/**
+ * Message ids from a Message-ID / In-Reply-To / References header, without angle brackets
+ */
+export function parseMessageIds(value: string | null | undefined): string[] {
+  return (value?.match(/<[^<>\s]+>/g) ?? []).map((id) => id.slice(1, -1));
+}
+
+/**
+ * Auto-replies (out of office, bounces) and bulk mail, judged by their headers
+ */
+export function isAutoGeneratedEmail(header: (name: string) => string | null | undefined): boolean {
+  const autoSubmitted = (header('auto-submitted') ?? 'no').trim().toLowerCase();
+  const precedence = (header('precedence') ?? '').trim().toLowerCase();
+  return autoSubmitted !== 'no' ||
+    ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence) ||
+    !!header('x-autoreply') ||
+    !!header('x-autorespond');
+}
+
+/**
+ * Walk the MIME tree collecting the first plain-text and HTML bodies and every attachment
+ */
+function collectParts(entity: MimeEntity, email: ParsedEmail): void {
+  const contentType = parseHeaderValue(header(entity, 'content-type'));
+  const type = contentType.value || 'text/plain';
+  const disposition = parseHeaderValue(header(entity, 'content-disposition'));
+
+  if (type.startsWith('multipart/') && contentType.params.boundary) {
+    for (const part of splitMultipart(entity.body, contentType.params.boundary)) {
+      collectParts(parseEntity(part), email);
+    }
+    return;
+  }
+
+  const filename = disposition.params.filename || contentType.params.name || null;
+  const isBody = disposition.value !== 'attachment' && !filename;
+
+  if (isBody && type === 'text/plain' && email.text === null) {
+    email.text = decodeCharset(decodeBody(entity), contentType.params.charset);
+  } else if (isBody && type === 'text/html' && email.html === null) {
+    email.html = decodeCharset(decodeBody(entity), contentType.params.charset);
+  } else if (!isBody || !type.startsWith('text/')) {
+    email.attachments.push({
+      filename: filename || (type === 'message/rfc822' ? 'message.eml' : 'attachment'),
+      contentType: type,
+      content: decodeBody(entity)
+    });
+  }
+}
+
+/**
+ * Parse a raw RFC 822 / MIME message
+ */
+export function parseMimeMessage(raw: Buffer | string): ParsedEmail {
+  const root = parseEntity(typeof raw === 'string' ? toBytes(raw).toString('latin1') : raw.toString('latin1'));
+
+  const email: ParsedEmail = {
+    from: parseAddressList(header(root, 'from'))[0] ?? null,
+    to: parseAddressList(root.headers.get('to')?.join(', ') ?? null),
+    cc: parseAddressList(root.headers.get('cc')?.join(', ') ?? null),
+    deliveredTo: parseAddressList(
+      [...(root.headers.get('delivered-to') ?? []), ...(root.headers.get('x-original-to') ?? [])].join(', ') || null
+    ),
+    subject: decodeEncodedWords(header(root, 'subject') ?? '').trim(),
+    messageId: parseMessageIds(header(root, 'message-id'))[0] ?? null,
+    inReplyTo: parseMessageIds(header(root, 'in-reply-to')),
+    references: parseMessageIds(header(root, 'references')),
+    text: null,
+    html: null,
+    attachments: [],
+    autoGenerated: isAutoGeneratedEmail((name) => header(root, name))
+  };
+
+  collectParts(root, email);
+  return email;
+}
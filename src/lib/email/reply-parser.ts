@@ -0,0 +1,124 @@
+// Lines that introduce the quoted previous message in common mail clients
+const QUOTE_HEADER_PATTERNS = [
+  /^On\s.+(?:\n.+)?\swrote:\s*$/m, // Gmail, Apple Mail, Thunderbird (may wrap onto a second line)
+  /^Le\s.+(?:\n.+)?\sa écrit\s?:\s*$/m,
+  /^Am\s.+(?:\n.+)?\sschrieb\s.*:\s*$/m,
+  /^El\s.+(?:\n.+)?\sescribió:\s*$/m,
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/im,
+  /^-{2,}\s*Forwarded message\s*-{2,}\s*$/im,
+  /^_{10,}\s*$/m, // Outlook separator line
+  /^From:\s.+\n(?:.*\n)?(?:Sent|Date):\s.+$/m // Outlook header block
+];
+
+// Signature openers; everything from the match onwards is dropped
+const SIGNATURE_PATTERNS = [
+  /^-- ?$/m, // RFC 3676 signature delimiter
+  /^Sent from my (?:iPhone|iPad|Android|BlackBerry|mobile device).*$/im,
+  /^Sent from (?:Mail|Outlook) for .+$/im,
+  /^Get Outlook for .+$/im
+];
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Remove each outermost <blockquote> with everything nested in it, keeping
+ * text between separate quotes (inline replies)
+ */
+function removeBlockquotes(html: string): string {
+  const tag = /<(\/?)blockquote\b[^>]*>/gi;
+  let result = '';
+  let depth = 0;
+  let keptFrom = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(html))) {
+    if (!match[1]) {
+      if (depth === 0) {
+        result += html.slice(keptFrom, match.index);
+      }
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0) {
+        keptFrom = match.index + match[0].length;
+      }
+    }
+  }
+
+  // An unclosed quote runs to the end of the message
+  return depth === 0 ? result + html.slice(keptFrom) : result;
+}
+
+/**
+ * The character for a numeric entity, or U+FFFD when it isn't a valid code point
+ */
+function decodeCodePoint(codePoint: number): string {
+  const valid = Number.isInteger(codePoint) && codePoint > 0 && codePoint <= 0x10ffff &&
+    !(codePoint >= 0xd800 && codePoint <= 0xdfff);
+  return valid ? String.fromCodePoint(codePoint) : '\uFFFD';
+}
+
+/**
+ * Convert an HTML email body to plain text, dropping quoted blocks
+ * (blockquote, Gmail/Outlook quote containers) along the way
+ */
+export function htmlToText(html: string): string {
+  return removeBlockquotes(html.replace(/<(head|style|script)[\s\S]*?<\/\1>/gi, ''))
+    .replace(/<div[^>]+class="[^"]*gmail_quote[\s\S]*$/i, '')
+    .replace(/<div[^>]+id="(?:appendonsend|divRplyFwdMsg)"[\s\S]*$/i, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) {
+        return decodeCodePoint(parseInt(code.slice(2), 16));
+      }
+      if (code.startsWith('#')) {
+        return decodeCodePoint(parseInt(code.slice(1), 10));
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function cutAtFirstMatch(text: string, patterns: RegExp[]): string {
+  let end = text.length;
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (match && match.index < end) {
+      end = match.index;
+    }
+  }
+  return text.slice(0, end);
+}
+
+/**
+ * Extract just the new content of an email reply: quoted history and the
+ * sender's signature are removed. Falls back to the full text when stripping
+ * would leave nothing (e.g. a reply typed inline between quoted lines).
+ */
+export function extractReplyText(text: string): string {
+  const normalized = text.replace(/\r\n?/g, '\n');
+
+  let reply = cutAtFirstMatch(normalized, QUOTE_HEADER_PATTERNS);
+  reply = cutAtFirstMatch(reply, SIGNATURE_PATTERNS);
+
+  // Drop ">"-quoted lines that trail the reply
+  const lines = reply.split('\n');
+  while (lines.length && (lines[lines.length - 1].trim() === '' || lines[lines.length - 1].startsWith('>'))) {
+    lines.pop();
+  }
+  reply = lines.join('\n').trim();
+
+  return reply || normalized.trim();
+}
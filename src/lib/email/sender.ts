@@ -0,0 +1,39 @@
+import { getOrgSupportAddress } from '@/lib/email/addresses';
+import type { EmailBranding } from '@/lib/email/templates';
+
+export interface SenderOrg {
+  name: string;
+  slug: string;
+  email?: {
+    branding?: {
+      fromName?: string | null;
+      logoUrl?: string | null;
+      primaryColor?: string | null;
+      signature?: string | null;
+      footer?: string | null;
+    } | null;
+  } | null;
+}
+
+/**
+ * From header and template branding for email an org sends to its customers.
+ * Null when no sender address is configured (EMAIL_FROM_ADDRESS or inbound domain).
+ */
+export function getOrgEmailSender(org: SenderOrg): { from: string; branding: EmailBranding } | null {
+  const fromAddress = process.env.EMAIL_FROM_ADDRESS || getOrgSupportAddress(org.slug);
+  if (!fromAddress) {
+    return null;
+  }
+
+  const branding: EmailBranding = {
+    orgName: org.name,
+    fromName: org.email?.branding?.fromName ?? '',
+    logoUrl: org.email?.branding?.logoUrl ?? '',
+    primaryColor: org.email?.branding?.primaryColor ?? '',
+    signature: org.email?.branding?.signature ?? '',
+    footer: org.email?.branding?.footer ?? ''
+  };
+  const fromName = (branding.fromName || org.name).replace(/["\\\r\n]/g, '');
+
+  return { from: `"${fromName}" <${fromAddress}>`, branding };
+}
@@ -0,0 +1,163 @@
+import type { TicketStatus } from '@/lib/ticket-workflow';
+
+export interface EmailBranding {
+  orgName: string;
+  fromName: string;
+  logoUrl: string;
+  primaryColor: string;
+  signature: string;
+  footer: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplateTicket {
+  subject: string;
+  requesterName?: string | null;
+}
+
+// How each status reads in a customer email
+const STATUS_DESCRIPTIONS: Record<TicketStatus, string> = {
+  'new': 'has been received',
+  'open': 'is being worked on',
+  'pending-customer': 'is waiting for your reply',
+  'on-hold': 'is on hold',
+  'solved': 'has been solved',
+  'closed': 'has been closed'
+};
+
+const DEFAULT_PRIMARY_COLOR = '#2563eb';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Plain text to HTML paragraphs, keeping single line breaks
+ */
+function textToHtml(text: string): string {
+  return text
+    .trim()
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p style="margin:0 0 16px">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
+
+function greeting(ticket: TemplateTicket): string {
+  return ticket.requesterName ? `Hi ${ticket.requesterName},` : 'Hi,';
+}
+
+/**
+ * Wrap the message in the org's branded layout (logo, accent color, signature, footer)
+ */
+function renderLayout(
+  branding: EmailBranding,
+  content: { subject: string; text: string; replyHint: string }
+): RenderedEmail {
+  const name = branding.fromName || branding.orgName;
+  const color = /^#[0-9a-fA-F]{6}$/.test(branding.primaryColor) ? branding.primaryColor : DEFAULT_PRIMARY_COLOR;
+  const signature = branding.signature || `The ${name} team`;
+
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(name)}" style="max-height:40px">`
+    : `<strong style="font-size:18px;color:${color}">${escapeHtml(name)}</strong>`;
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html><body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">',
+    '<div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden">',
+    `<div style="padding:20px 24px;border-bottom:3px solid ${color}">${header}</div>`,
+    `<div style="padding:24px;font-size:15px;line-height:1.5">${textToHtml(content.text)}${textToHtml(signature)}</div>`,
+    `<div style="padding:16px 24px;background:#fafafa;font-size:12px;color:#71717a">`,
+    `<p style="margin:0 0 8px">${escapeHtml(content.replyHint)}</p>`,
+    branding.footer ? textToHtml(branding.footer) : '',
+    '</div></div></body></html>'
+  ].join('');
+
+  const text = [
+    content.text.trim(),
+    signature,
+    '---',
+    content.replyHint,
+    ...(branding.footer ? [branding.footer] : [])
+  ].join('\n\n');
+
+  return { subject: content.subject, html, text };
+}
+
+/**
+ * Acknowledgement sent when a ticket is opened
+ */
+export function renderTicketCreatedEmail(branding: EmailBranding, ticket: TemplateTicket): RenderedEmail {
+  return renderLayout(branding, {
+    subject: `We received your request: ${ticket.subject}`,
+    text: [
+      greeting(ticket),
+      `Thanks for contacting ${branding.orgName}. We've received your request "${ticket.subject}" and will get back to you as soon as we can.`
+    ].join('\n\n'),
+    replyHint: 'Reply to this email to add more details to your request.'
+  });
+}
+
+/**
+ * A public reply from an agent (or the AI assistant) on the ticket
+ */
+export function renderAgentReplyEmail(
+  branding: EmailBranding,
+  ticket: TemplateTicket,
+  reply: { body: string }
+): RenderedEmail {
+  return renderLayout(branding, {
+    subject: `Re: ${ticket.subject}`,
+    text: reply.body,
+    replyHint: 'Reply to this email to respond.'
+  });
+}
+
+/**
+ * Notice that the ticket's status changed
+ */
+export function renderStatusChangeEmail(
+  branding: EmailBranding,
+  ticket: TemplateTicket,
+  status: TicketStatus
+): RenderedEmail {
+  const closed = status === 'closed';
+  return renderLayout(branding, {
+    subject: `Your request ${STATUS_DESCRIPTIONS[status]}: ${ticket.subject}`,
+    text: [
+      greeting(ticket),
+      `Your request "${ticket.subject}" ${STATUS_DESCRIPTIONS[status]}.`
+    ].join('\n\n'),
+    replyHint: closed
+      ? 'This request is closed. Replying to this email will open a new request.'
+      : 'Reply to this email if you need anything else on this request.'
+  });
+}
+
+/**
+ * Magic link that signs a customer in to the help center
+ */
+export function renderMagicLinkEmail(
+  branding: EmailBranding,
+  link: { url: string; expiresInMinutes: number }
+): RenderedEmail {
+  return renderLayout(branding, {
+    subject: `Sign in to ${branding.orgName} support`,
+    text: [
+      'Hi,',
+      `Use this link to sign in and see your requests. It expires in ${link.expiresInMinutes} minutes and works once:`,
+      link.url
+    ].join('\n\n'),
+    replyHint: "If you didn't ask to sign in, you can ignore this email."
+  });
+}
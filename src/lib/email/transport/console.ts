@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+import type { EmailTransport, OutgoingEmail } from './types';
+
+/**
+ * Logs emails to the console instead of sending them (local development)
+ */
+export class ConsoleTransport implements EmailTransport {
+  async send(email: OutgoingEmail): Promise<{ id: string }> {
+    const id = crypto.randomUUID();
+    console.log([
+      `[email ${id}]`,
+      `From: ${email.from}`,
+      `To: ${email.to}`,
+      ...(email.replyTo ? [`Reply-To: ${email.replyTo}`] : []),
+      `Subject: ${email.subject}`,
+      ...(email.attachments?.length
+        ? [`Attachments: ${email.attachments.map((attachment) => attachment.filename).join(', ')}`]
+        : []),
+      '',
+      email.text
+    ].join('\n'));
+    return { id };
+  }
+}
@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmailTransport, OutgoingEmail } from './types';
+
+/**
+ * Writes each email to a JSON file instead of sending it (dev and tests).
+ * Attachment bodies are stored base64-encoded.
+ */
+export class FileTransport implements EmailTransport {
+  constructor(private readonly outDir: string) {}
+
+  async send(email: OutgoingEmail): Promise<{ id: string }> {
+    const id = `${Date.now()}-${crypto.randomUUID()}`;
+    await fs.mkdir(this.outDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.outDir, `${id}.json`),
+      JSON.stringify({
+        ...email,
+        attachments: email.attachments?.map((attachment) => ({
+          ...attachment,
+          content: attachment.content.toString('base64')
+        }))
+      }, null, 2)
+    );
+    return { id };
+  }
+}
@@ -0,0 +1,45 @@
+import path from 'path';
+import { ResendTransport } from './resend';
+import { FileTransport } from './file';
+import { ConsoleTransport } from './console';
+import type { EmailTransport } from './types';
+
+export type { EmailTransport, OutgoingEmail, OutgoingAttachment } from './types';
+export { ResendTransport } from './resend';
+export { FileTransport } from './file';
+export { ConsoleTransport } from './console';
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Email transport selected by EMAIL_TRANSPORT ('resend', 'file' or 'console').
+ * Defaults to Resend when RESEND_API_KEY is set, otherwise the console.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (transport) {
+    return transport;
+  }
+
+  const kind = process.env.EMAIL_TRANSPORT || (process.env.RESEND_API_KEY ? 'resend' : 'console');
+  if (kind === 'resend') {
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not defined');
+    }
+    transport = new ResendTransport(process.env.RESEND_API_KEY);
+  } else if (kind === 'file') {
+    transport = new FileTransport(
+      process.env.EMAIL_FILE_DIR || path.join(process.cwd(), '.emails')
+    );
+  } else {
+    transport = new ConsoleTransport();
+  }
+
+  return transport;
+}
+
+/**
+ * Override the email transport (tests)
+ */
+export function setEmailTransport(emailTransport: EmailTransport | null): void {
+  transport = emailTransport;
+}
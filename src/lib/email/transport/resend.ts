@@ -0,0 +1,34 @@
+import { Resend } from 'resend';
+import type { EmailTransport, OutgoingEmail } from './types';
+
+/**
+ * Sends email through the Resend API
+ */
+export class ResendTransport implements EmailTransport {
+  private readonly client: Resend;
+
+  constructor(apiKey: string) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(email: OutgoingEmail): Promise<{ id: string }> {
+    const { data, error } = await this.client.emails.send({
+      from: email.from,
+      to: email.to,
+      replyTo: email.replyTo,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers,
+      attachments: email.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: attachment.content
+      }))
+    });
+    if (error) {
+      throw new Error(`Resend error: ${error.message}`);
+    }
+    return { id: data.id };
+  }
+}
@@ -0,0 +1,24 @@
+export interface OutgoingAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  // Extra headers, e.g. Message-ID / In-Reply-To / References for threading
+  headers?: Record<string, string>;
+  attachments?: OutgoingAttachment[];
+}
+
+/**
+ * Delivers outgoing email. Returns the transport's id for the sent message.
+ */
+export interface EmailTransport {
+  send(email: OutgoingEmail): Promise<{ id: string }>;
+}
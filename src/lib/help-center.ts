@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+import Ticket from '@/models/Ticket';
+import RateLimitCounter from '@/models/RateLimitCounter';
+
+// Forms submitted faster than a person could type are treated as bots
+const MIN_FORM_FILL_SECONDS = 3;
+const FORM_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+export type PublicSubmissionKind = 'ticket' | 'login-link' | 'chat' | 'chat-message';
+
+// Hourly submission limits per client IP, by kind, and per requester email.
+// Chat messages each cost a stored message, a webhook and possibly an AI call.
+const IP_SUBMISSION_LIMITS: Record<PublicSubmissionKind, number> = {
+  'ticket': 10,
+  'login-link': 10,
+  'chat': 10,
+  'chat-message': 120
+};
+const EMAIL_SUBMISSION_LIMIT = 5;
+const SUBMISSION_WINDOW_MS = 60 * 60 * 1000;
+
+function formTokenSecret(): string {
+  return process.env.JWT_SECRET || 'fallback-secret-key';
+}
+
+function signFormToken(orgId: string, issuedAt: number): string {
+  return crypto
+    .createHmac('sha256', formTokenSecret())
+    .update(`help-form:${orgId}:${issuedAt}`)
+    .digest('base64url');
+}
+
+/**
+ * Token embedded in the help center ticket form when it is rendered
+ */
+export function createHelpFormToken(orgId: string): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  return `${issuedAt}.${signFormToken(orgId, issuedAt)}`;
+}
+
+/**
+ * Check a submitted form token: signed for this org, not reused from long ago,
+ * and not submitted implausibly fast. Returns an error message or null.
+ */
+export function checkHelpFormToken(orgId: string, token: string): string | null {
+  const [issued, signature] = token.split('.');
+  const issuedAt = Number(issued);
+  if (!Number.isInteger(issuedAt) || !signature) {
+    return 'Invalid form token';
+  }
+
+  const expected = Buffer.from(signFormToken(orgId, issuedAt));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return 'Invalid form token';
+  }
+
+  const age = Math.floor(Date.now() / 1000) - issuedAt;
+  if (age > FORM_TOKEN_TTL_SECONDS) {
+    return 'The form has expired, please reload the page';
+  }
+  if (age < MIN_FORM_FILL_SECONDS) {
+    return 'Please take a moment to fill in the form';
+  }
+  return null;
+}
+
+/**
+ * Best-effort client IP from the proxy headers
+ */
+export function getClientIp(request: NextRequest): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown';
+}
+
+/**
+ * Record a submission from this IP; false once it is over the hourly limit.
+ * Each kind of public submission (ticket, sign-in link, new chat, chat
+ * message) is counted separately. Counts live in MongoDB so every server
+ * instance shares them.
+ */
+export async function consumeIpSubmission(
+  orgId: string,
+  ip: string,
+  kind: PublicSubmissionKind = 'ticket',
+  now: number = Date.now()
+): Promise<boolean> {
+  const windowStart = now - (now % SUBMISSION_WINDOW_MS);
+  const counter = await RateLimitCounter.findOneAndUpdate(
+    { key: `${kind}:${orgId}:${ip}:${windowStart}` },
+    {
+      $inc: { count: 1 },
+      $setOnInsert: { expiresAt: new Date(windowStart + SUBMISSION_WINDOW_MS) }
+    },
+    { upsert: true, new: true }
+  );
+  return counter.count <= IP_SUBMISSION_LIMITS[kind];
+}
+
+/**
+ * Whether this email already opened too many help center tickets in the last hour
+ */
+export async function isEmailOverSubmissionLimit(orgId: string, email: string): Promise<boolean> {
+  const count = await Ticket.countDocuments({
+    orgId,
+    'requester.email': email,
+    channel: 'help-center',
+    createdAt: { $gte: new Date(Date.now() - SUBMISSION_WINDOW_MS) }
+  });
+  return count >= EMAIL_SUBMISSION_LIMIT;
+}
@@ -0,0 +1,230 @@
+import Org from '@/models/Org';
+import Ticket, { type TicketDocument } from '@/models/Ticket';
+import TicketMessage, { type TicketMessageDocument } from '@/models/TicketMessage';
+import type { InboundEmailData } from '@/lib/validations';
+import {
+  isAutoGeneratedEmail,
+  parseMessageIds,
+  type EmailAddress,
+  type ParsedEmail
+} from '@/lib/email/mime';
+import { htmlToText, extractReplyText } from '@/lib/email/reply-parser';
+import { parseSupportAddress, verifyReplyToken } from '@/lib/email/addresses';
+import { findTicketForOrg } from '@/lib/tickets';
+import { storeAttachment, validateAttachmentUpload } from '@/lib/attachments';
+import { createCustomerTicket, addCustomerReply } from '@/lib/ticket-intake';
+
+export interface RejectedAttachment {
+  filename: string;
+  error: string;
+}
+
+export type InboundEmailResult =
+  | { status: 'created'; ticket: TicketDocument; rejectedAttachments: RejectedAttachment[] }
+  | {
+      status: 'replied';
+      ticket: TicketDocument;
+      message: TicketMessageDocument;
+      rejectedAttachments: RejectedAttachment[];
+    }
+  | { status: 'ignored'; reason: string };
+
+// Message body for replies that only carry attachments
+const ATTACHMENTS_ONLY_BODY = '(attachments only)';
+
+/**
+ * Normalize a JSON inbound-email payload to the same shape as a parsed MIME message
+ */
+export function inboundEmailFromJson(data: InboundEmailData): ParsedEmail {
+  const headers = new Map(
+    Object.entries(data.headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  const toAddress = (address: { name?: string | null; email: string }): EmailAddress => ({
+    name: address.name || null,
+    email: address.email
+  });
+  // Accept ids with or without angle brackets
+  const messageIds = (value: string | null | undefined) =>
+    value ? (parseMessageIds(value).length ? parseMessageIds(value) : [value.trim()]) : [];
+
+  return {
+    from: toAddress(data.from),
+    to: data.to.map(toAddress),
+    cc: data.cc.map(toAddress),
+    deliveredTo: [],
+    subject: data.subject.trim(),
+    messageId: messageIds(data.messageId)[0] ?? null,
+    inReplyTo: messageIds(data.inReplyTo),
+    references: data.references.flatMap(messageIds),
+    text: data.text ?? null,
+    html: data.html ?? null,
+    attachments: data.attachments.map((attachment) => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: Buffer.from(attachment.content, 'base64')
+    })),
+    autoGenerated: isAutoGeneratedEmail((name) => headers.get(name))
+  };
+}
+
+/**
+ * The first recipient that is an org support mailbox (support@<slug>.<domain>)
+ */
+function findSupportRecipient(email: ParsedEmail) {
+  for (const recipient of [...email.deliveredTo, ...email.to, ...email.cc]) {
+    const mailbox = parseSupportAddress(recipient.email);
+    if (mailbox) {
+      return mailbox;
+    }
+  }
+  return null;
+}
+
+/**
+ * The ticket an email replies to: via the signed reply token in the recipient
+ * address, else via In-Reply-To/References matching a message we received or
+ * sent. Message ids aren't secret, so header threading only applies when the
+ * sender is the ticket's requester.
+ */
+async function findThreadTicket(
+  orgId: string,
+  replyToken: string | null,
+  email: ParsedEmail,
+  senderEmail: string
+): Promise<TicketDocument | null> {
+  const tokenTicketId = replyToken ? verifyReplyToken(replyToken) : null;
+  if (tokenTicketId) {
+    const ticket = await findTicketForOrg(tokenTicketId, orgId);
+    if (ticket) {
+      return ticket;
+    }
+  }
+
+  const referencedIds = [...new Set([...email.inReplyTo, ...email.references])];
+  if (referencedIds.length === 0) {
+    return null;
+  }
+
+  const message = await TicketMessage.findOne({
+    orgId,
+    emailMessageId: { $in: referencedIds }
+  }).sort({ createdAt: -1 });
+  const ticket: TicketDocument | null = message
+    ? await findTicketForOrg(message.ticketId.toString(), orgId)
+    : await Ticket.findOne({ orgId, emailMessageId: { $in: referencedIds }, deletedAt: null });
+
+  const isRequester = ticket?.requester?.email?.toLowerCase() === senderEmail.toLowerCase();
+  return isRequester ? ticket : null;
+}
+
+async function isDuplicateEmail(orgId: string, messageId: string | null): Promise<boolean> {
+  if (!messageId) {
+    return false;
+  }
+  const [message, ticket] = await Promise.all([
+    TicketMessage.exists({ orgId, emailMessageId: messageId }),
+    Ticket.exists({ orgId, emailMessageId: messageId })
+  ]);
+  return !!message || !!ticket;
+}
+
+/**
+ * Save the email's attachments that the org's plan allows; the rest are reported back
+ */
+async function storeEmailAttachments(
+  email: ParsedEmail,
+  ticket: TicketDocument,
+  plan: string | null | undefined,
+  messageId: TicketMessageDocument['_id'] | null
+): Promise<RejectedAttachment[]> {
+  const rejected: RejectedAttachment[] = [];
+  for (const attachment of email.attachments) {
+    const error = validateAttachmentUpload(plan, attachment.content.length, attachment.contentType);
+    if (error) {
+      rejected.push({ filename: attachment.filename, error });
+      continue;
+    }
+    await storeAttachment({
+      orgId: ticket.orgId.toString(),
+      ticketId: ticket._id,
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      body: attachment.content,
+      messageId
+    });
+  }
+  return rejected;
+}
+
+/**
+ * Turn an inbound email into a ticket, or into a customer reply on the ticket it
+ * threads onto. Emails that can't be routed (no org mailbox among the recipients,
+ * auto-replies, redeliveries) are ignored rather than rejected, so mail providers
+ * don't keep retrying them.
+ */
+export async function processInboundEmail(email: ParsedEmail): Promise<InboundEmailResult> {
+  if (!email.from) {
+    return { status: 'ignored', reason: 'Missing sender' };
+  }
+  if (email.autoGenerated) {
+    return { status: 'ignored', reason: 'Auto-generated email' };
+  }
+  // Never answer our own mailboxes, which would loop
+  if (parseSupportAddress(email.from.email)) {
+    return { status: 'ignored', reason: 'Sent from a support mailbox' };
+  }
+
+  const mailbox = findSupportRecipient(email);
+  if (!mailbox) {
+    return { status: 'ignored', reason: 'No support mailbox among the recipients' };
+  }
+  const org = await Org.findOne({ slug: mailbox.orgSlug });
+  if (!org) {
+    return { status: 'ignored', reason: 'Unknown organization' };
+  }
+  const orgId = org._id.toString();
+
+  if (await isDuplicateEmail(orgId, email.messageId)) {
+    return { status: 'ignored', reason: 'Email already processed' };
+  }
+
+  const fullText = email.text ?? (email.html ? htmlToText(email.html) : '');
+
+  // Closed tickets are final; a reply to one starts a new ticket, as does a
+  // reply from someone other than the requester
+  const thread = await findThreadTicket(orgId, mailbox.replyToken, email, email.from.email);
+  if (thread && thread.status !== 'closed') {
+    // Only replies drop the quoted thread and signature
+    const body = extractReplyText(fullText);
+    if (!body && email.attachments.length === 0) {
+      return { status: 'ignored', reason: 'Empty reply' };
+    }
+
+    let rejectedAttachments: RejectedAttachment[] = [];
+    const message = await addCustomerReply(thread, {
+      name: email.from.name,
+      email: email.from.email,
+      body: body || ATTACHMENTS_ONLY_BODY,
+      emailMessageId: email.messageId
+    }, async (created) => {
+      rejectedAttachments = await storeEmailAttachments(email, thread, org.plan, created._id);
+    });
+
+    return { status: 'replied', ticket: thread, message, rejectedAttachments };
+  }
+
+  // A new ticket keeps everything, e.g. the message a customer forwarded
+  let rejectedAttachments: RejectedAttachment[] = [];
+  const ticket = await createCustomerTicket({
+    orgId,
+    subject: email.subject || '(no subject)',
+    description: fullText.trim(),
+    requester: { name: email.from.name, email: email.from.email },
+    channel: 'email',
+    emailMessageId: email.messageId
+  }, async (created) => {
+    rejectedAttachments = await storeEmailAttachments(email, created, org.plan, null);
+  });
+
+  return { status: 'created', ticket, rejectedAttachments };
+}
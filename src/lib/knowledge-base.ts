@@ -0,0 +1,225 @@
+import { isValidObjectId } from 'mongoose';
+import KbArticle, { type KbArticleDocument } from '@/models/KbArticle';
+import type { AIProvider } from '@/lib/ai/provider';
+import { getOrgAIProvider } from '@/lib/org-ai';
+import { getVectorStore } from '@/lib/vector-store';
+
+// Target chunk size; small enough to keep retrieved context focused
+const MAX_CHUNK_CHARS = 1200;
+
+export interface KbSearchResult {
+  articleId: string;
+  title: string;
+  category: string | null;
+  /** Best matching passage of the article */
+  excerpt: string;
+  score: number;
+}
+
+/**
+ * Split text into pieces of at most `max` characters, preferring sentence boundaries
+ */
+function splitLongText(text: string, max: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of text.match(/[^.!?]+[.!?]*\s*/g) ?? [text]) {
+    if (current && (current + sentence).length > max) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+    while (current.length > max) {
+      pieces.push(current.slice(0, max).trim());
+      current = current.slice(max);
+    }
+  }
+  if (current.trim()) {
+    pieces.push(current.trim());
+  }
+  return pieces;
+}
+
+/**
+ * Split an article body into chunks, packing whole paragraphs together where possible
+ */
+export function chunkArticleBody(body: string, max: number = MAX_CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  
+  const paragraphs = body.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+  for (const paragraph of paragraphs.flatMap((p) => splitLongText(p, max))) {
+    if (current && current.length + paragraph.length + 2 > max) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Bring the vector index in line with an article: published articles are
+ * re-chunked and re-embedded, drafts are removed. Returns false when the
+ * article could not be embedded (no AI provider configured or the call failed).
+ */
+export async function indexKbArticle(
+  article: KbArticleDocument,
+  userId: string | null = null
+): Promise<boolean> {
+  const orgId = article.orgId.toString();
+  const articleId = article._id.toString();
+  const store = getVectorStore();
+  
+  if (article.status !== 'published') {
+    await store.deleteArticle(orgId, articleId);
+    return true;
+  }
+  
+  try {
+    const provider = await getOrgAIProvider(orgId, { feature: 'kb-index', userId });
+    if (!provider) {
+      return false;
+    }
+    
+    const contents = chunkArticleBody(article.body);
+    // The title is embedded with every chunk so each passage carries its topic
+    const { embeddings, model } = await provider.embed({
+      input: contents.map((content) => `${article.title}\n\n${content}`)
+    });
+    
+    await store.upsertArticle(orgId, articleId, model, contents.map((content, position) => ({
+      position,
+      content,
+      embedding: embeddings[position]
+    })));
+    return true;
+  } catch (error) {
+    console.error('Knowledge base indexing failed:', error);
+    return false;
+  }
+}
+
+export async function removeKbArticleFromIndex(article: KbArticleDocument): Promise<void> {
+  await getVectorStore().deleteArticle(article.orgId.toString(), article._id.toString());
+}
+
+/**
+ * Semantic search over the org's published articles, best article first.
+ * The query is embedded with the caller's provider so usage is attributed to it.
+ */
+export async function searchKnowledgeBase(
+  provider: AIProvider,
+  orgId: string,
+  query: string,
+  limit: number = 5
+): Promise<KbSearchResult[]> {
+  const { embeddings, model } = await provider.embed({ input: [query] });
+  // Fetch extra chunks since several may come from the same article
+  const matches = await getVectorStore().query({
+    orgId,
+    embedding: embeddings[0],
+    model,
+    limit: limit * 3
+  });
+  
+  // Matches are sorted, so the first one per article is its best passage
+  const bestByArticle = new Map<string, (typeof matches)[number]>();
+  for (const match of matches) {
+    if (!bestByArticle.has(match.articleId)) {
+      bestByArticle.set(match.articleId, match);
+    }
+  }
+  
+  // Re-check against the articles themselves in case the index is stale
+  const articles: KbArticleDocument[] = await KbArticle.find({
+    _id: { $in: [...bestByArticle.keys()] },
+    orgId,
+    status: 'published'
+  });
+  const articlesById = new Map(articles.map((article) => [article._id.toString(), article]));
+  
+  const results: KbSearchResult[] = [];
+  for (const [articleId, match] of bestByArticle) {
+    const article = articlesById.get(articleId);
+    if (article && results.length < limit) {
+      results.push({
+        articleId,
+        title: article.title,
+        category: article.category ?? null,
+        excerpt: match.content,
+        score: match.score
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Find an article by id, scoped to the organization (null for malformed ids)
+ */
+export async function findKbArticleForOrg(
+  articleId: string,
+  orgId: string
+): Promise<KbArticleDocument | null> {
+  if (!isValidObjectId(articleId)) {
+    return null;
+  }
+  
+  return KbArticle.findOne({ _id: articleId, orgId });
+}
+
+/**
+ * Shape an article for API responses
+ */
+export function serializeKbArticle(article: KbArticleDocument) {
+  return {
+    id: article._id,
+    title: article.title,
+    body: article.body,
+    category: article.category,
+    status: article.status,
+    publishedAt: article.publishedAt,
+    createdBy: article.createdBy,
+    updatedBy: article.updatedBy,
+    createdAt: article.createdAt,
+    updatedAt: article.updatedAt
+  };
+}
+
+/**
+ * Published articles for the public help center, optionally filtered by
+ * category and a plain-text match on title/body (no AI calls for anonymous visitors)
+ */
+export async function listPublishedKbArticles(
+  orgId: string,
+  filter: { category?: string; q?: string } = {}
+): Promise<KbArticleDocument[]> {
+  const query: Record<string, unknown> = { orgId, status: 'published' };
+  if (filter.category) {
+    query.category = filter.category;
+  }
+  if (filter.q) {
+    const pattern = new RegExp(filter.q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    query.$or = [{ title: pattern }, { body: pattern }];
+  }
+  return KbArticle.find(query).sort({ category: 1, title: 1 }).limit(200);
+}
+
+/**
+ * Shape an article for the public help center (no authoring details)
+ */
+export function serializePublicKbArticle(article: KbArticleDocument, options: { full?: boolean } = {}) {
+  return {
+    id: article._id,
+    title: article.title,
+    category: article.category,
+    ...(options.full
+      ? { body: article.body }
+      : { excerpt: article.body.slice(0, 200) }),
+    publishedAt: article.publishedAt,
+    updatedAt: article.updatedAt
+  };
+}
@@ -0,0 +1,145 @@
+import Org from '@/models/Org';
+import type { TicketDocument } from '@/models/Ticket';
+import type { TicketMessageDocument } from '@/models/TicketMessage';
+import { listTicketMessages } from '@/lib/tickets';
+import { getOrgAIProvider } from '@/lib/org-ai';
+import { AIQuotaExceededError } from '@/lib/ai-usage';
+import { translateText } from '@/lib/ai/translate';
+
+// Bound the work (and AI usage) of translating one thread
+const MAX_TRANSLATIONS_PER_REQUEST = 20;
+
+export interface MessageTranslation {
+  language: string;
+  body: string;
+  model: string;
+  translatedAt: Date;
+}
+
+async function getTranslationSettings(orgId: string) {
+  const org = await Org.findById(orgId).select('ai.translation');
+  return {
+    enabled: org?.ai?.translation?.enabled ?? true,
+    agentLanguage: org?.ai?.translation?.agentLanguage || 'en'
+  };
+}
+
+/**
+ * Make sure the customer's messages on a ticket have a translation into the
+ * agents' language. Missing ones (new messages, or messages that arrived before
+ * the language was detected) are translated and saved. Failures are logged and
+ * leave the message untranslated.
+ */
+export async function translateInboundMessages(
+  ticket: TicketDocument,
+  messages: TicketMessageDocument[],
+  userId: string | null = null
+): Promise<void> {
+  const language = ticket.language;
+  if (!language) {
+    return;
+  }
+  
+  const orgId = ticket.orgId.toString();
+  const settings = await getTranslationSettings(orgId);
+  if (!settings.enabled || language === settings.agentLanguage) {
+    return;
+  }
+  
+  const pending = messages
+    .filter((message) => message.authorType === 'requester')
+    .filter((message) => message.translation?.language !== settings.agentLanguage)
+    .slice(0, MAX_TRANSLATIONS_PER_REQUEST);
+  if (pending.length === 0) {
+    return;
+  }
+  
+  const provider = await getOrgAIProvider(orgId, { feature: 'translation', userId });
+  if (!provider) {
+    return;
+  }
+  
+  for (const message of pending) {
+    try {
+      const result = await translateText(provider, message.body, {
+        from: language,
+        to: settings.agentLanguage
+      });
+      message.language = language;
+      message.translation = {
+        language: settings.agentLanguage,
+        body: result.text,
+        model: result.model,
+        translatedAt: new Date()
+      };
+      await message.save();
+    } catch (error) {
+      console.error('Message translation failed:', error);
+      if (error instanceof AIQuotaExceededError) {
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Translate the customer messages already on a ticket, e.g. once an agent sets
+ * its language. Meant to run after the response is sent; failures are logged.
+ */
+export async function translateTicketThread(
+  ticket: TicketDocument,
+  userId: string | null = null
+): Promise<void> {
+  try {
+    const messages = await listTicketMessages(ticket._id.toString(), ticket.orgId.toString(), 'agent');
+    await translateInboundMessages(ticket, messages, userId);
+  } catch (error) {
+    console.error('Thread translation failed:', error);
+  }
+}
+
+/**
+ * Translate an agent's reply into the ticket's language. The translation is
+ * null when the customer already speaks the agents' language.
+ */
+export async function translateAgentReply(
+  ticket: TicketDocument,
+  body: string,
+  userId: string
+): Promise<
+  | { language: string; translation: MessageTranslation | null }
+  | { error: string; status: number }
+> {
+  if (!ticket.language) {
+    return { error: "The ticket's language is not known", status: 422 };
+  }
+  
+  const orgId = ticket.orgId.toString();
+  const settings = await getTranslationSettings(orgId);
+  if (!settings.enabled) {
+    return { error: 'Translation is turned off for this organization', status: 422 };
+  }
+  if (ticket.language === settings.agentLanguage) {
+    return { language: settings.agentLanguage, translation: null };
+  }
+  
+  const provider = await getOrgAIProvider(orgId, { feature: 'translation', userId });
+  if (!provider) {
+    return { error: 'AI features are not configured', status: 503 };
+  }
+  
+  const result = await translateText(provider, body, {
+    from: settings.agentLanguage,
+    to: ticket.language
+  });
+  
+  return {
+    language: settings.agentLanguage,
+    translation: {
+      language: ticket.language,
+      body: result.text,
+      model: result.model,
+      translatedAt: new Date()
+    }
+  };
+}
@@ -159,6 +159,36 @@ export async function validateOrgContext(
   return { org };
 }
 
+/**
+ * Resolve the org for public, unauthenticated routes (help center) from the
+ * subdomain alone. No user context is read, so roles never apply here.
+ */
+export async function validatePublicOrgContext(
+  request: NextRequest
+): Promise<{ org: OrgContext } | { error: NextResponse }> {
+  const { subdomain } = getOrgFromRequest(request);
+  if (!subdomain) {
+    return {
+      error: NextResponse.json(
+        { error: 'Organization subdomain required' },
+        { status: 400 }
+      )
+    };
+  }
+  
+  const org = await validateOrgSubdomain(subdomain);
+  if (!org) {
+    return {
+      error: NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      )
+    };
+  }
+  
+  return { org };
+}
+
 /**
  * Validate user has required role
  */
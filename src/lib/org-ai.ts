@@ -0,0 +1,57 @@
+import Org from '@/models/Org';
+import { getAIProvider, type AIProvider } from '@/lib/ai/provider';
+import { RedactingAIProvider } from '@/lib/ai/redacting';
+import { ConfiguredAIProvider, type ModelSettings } from '@/lib/ai/configured';
+import { MeteredAIProvider, type AIUsageContext } from '@/lib/ai-usage';
+import {
+  BUILT_IN_REDACTION_RULES,
+  compileCustomRules,
+  type CustomRedactionRule
+} from '@/lib/ai/redaction';
+
+/**
+ * Model settings for a feature: the feature's overrides on top of the org-wide settings
+ */
+function resolveModelSettings(
+  orgSettings: ModelSettings | null | undefined,
+  featureSettings: ModelSettings | null | undefined
+): ModelSettings {
+  return {
+    model: featureSettings?.model || orgSettings?.model || null,
+    temperature: featureSettings?.temperature ?? orgSettings?.temperature ?? null,
+    fallbackModels: featureSettings?.fallbackModels?.length
+      ? featureSettings.fallbackModels
+      : orgSettings?.fallbackModels ?? []
+  };
+}
+
+/**
+ * The AI provider to use for an org's data: using the org's model settings for
+ * the feature, metered against the org's quota, with PII redaction applied.
+ * Returns null when no provider is configured.
+ */
+export async function getOrgAIProvider(
+  orgId: string,
+  context: AIUsageContext
+): Promise<AIProvider | null> {
+  const provider = getAIProvider();
+  if (!provider) {
+    return null;
+  }
+  
+  const org = await Org.findById(orgId).select('ai.redaction ai.models ai.featureModels');
+  
+  let configured: AIProvider = new ConfiguredAIProvider(
+    provider,
+    resolveModelSettings(org?.ai?.models, org?.ai?.featureModels?.get(context.feature))
+  );
+  
+  const redaction = org?.ai?.redaction;
+  if (redaction?.enabled !== false) {
+    // Org rules run first so they can claim values the built-in detectors would also match
+    const customRules = compileCustomRules((redaction?.rules ?? []) as CustomRedactionRule[]);
+    configured = new RedactingAIProvider(configured, [...customRules, ...BUILT_IN_REDACTION_RULES]);
+  }
+  
+  return new MeteredAIProvider(configured, orgId, context);
+}
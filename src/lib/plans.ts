@@ -0,0 +1,53 @@
+export type OrgPlan = 'FREE' | 'PRO';
+
+export interface PlanLimits {
+  /** Largest single attachment, in bytes */
+  maxAttachmentBytes: number;
+  /** Allowed MIME types; `type/*` matches any subtype */
+  attachmentContentTypes: string[];
+  /** LLM + embedding tokens per calendar month (UTC) */
+  monthlyAITokens: number;
+}
+
+const MB = 1024 * 1024;
+
+const COMMON_CONTENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv'
+];
+
+export const PLAN_LIMITS: Record<OrgPlan, PlanLimits> = {
+  FREE: {
+    maxAttachmentBytes: 5 * MB,
+    attachmentContentTypes: COMMON_CONTENT_TYPES,
+    monthlyAITokens: 200_000
+  },
+  PRO: {
+    maxAttachmentBytes: 25 * MB,
+    attachmentContentTypes: [
+      ...COMMON_CONTENT_TYPES,
+      'image/*',
+      'video/mp4',
+      'application/zip',
+      'application/json',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'message/rfc822'
+    ],
+    monthlyAITokens: 5_000_000
+  }
+};
+
+/**
+ * Limits for an org's plan (unknown plans get FREE limits)
+ */
+export function getPlanLimits(plan: string | null | undefined): PlanLimits {
+  return PLAN_LIMITS[plan as OrgPlan] ?? PLAN_LIMITS.FREE;
+}
@@ -0,0 +1,39 @@
+import Org from '@/models/Org';
+import type { TicketDocument } from '@/models/Ticket';
+import { listTicketMessages } from '@/lib/tickets';
+import { searchKnowledgeBase } from '@/lib/knowledge-base';
+import { buildReplyPrompt } from '@/lib/ai/reply';
+import type { AIProvider, ChatMessage } from '@/lib/ai/provider';
+
+// Knowledge base passages included in the prompt
+const SNIPPET_LIMIT = 3;
+
+/**
+ * Assemble the reply-drafting prompt for a ticket: its full thread (including
+ * internal notes, labelled as such), the org's tone settings and the most
+ * relevant knowledge base passages
+ */
+export async function buildSuggestionPrompt(
+  provider: AIProvider,
+  ticket: TicketDocument,
+  orgId: string,
+  instructions?: string
+): Promise<ChatMessage[]> {
+  const [org, messages] = await Promise.all([
+    Org.findById(orgId),
+    listTicketMessages(ticket._id.toString(), orgId, 'agent')
+  ]);
+  
+  // Search with the subject and the customer's latest message
+  const lastRequesterMessage = [...messages].reverse().find((m) => m.authorType === 'requester');
+  const query = [ticket.subject, lastRequesterMessage?.body ?? ticket.description].join('\n');
+  const results = await searchKnowledgeBase(provider, orgId, query, SNIPPET_LIMIT);
+  
+  return buildReplyPrompt({
+    ticket,
+    thread: messages,
+    tone: org?.ai?.tone ?? {},
+    snippets: results.map((result) => ({ title: result.title, content: result.excerpt })),
+    instructions
+  });
+}
@@ -0,0 +1,88 @@
+import { isValidObjectId } from 'mongoose';
+import SavedView, { type SavedViewDocument } from '@/models/SavedView';
+import Ticket from '@/models/Ticket';
+import { hasMinimumRole, type UserRole } from '@/lib/multi-tenant';
+import { buildTicketFilter } from '@/lib/ticket-search';
+import { ticketFilterSchema } from '@/lib/validations';
+
+/**
+ * Query for the views a user can see: their own personal views plus the org's shared views
+ */
+function accessibleViewsQuery(orgId: string, userId: string) {
+  return {
+    orgId,
+    $or: [
+      { scope: 'shared' },
+      { scope: 'personal', ownerId: userId }
+    ]
+  };
+}
+
+/**
+ * List views visible to the user, shared views first
+ */
+export async function listAccessibleViews(
+  orgId: string,
+  userId: string
+): Promise<SavedViewDocument[]> {
+  return SavedView.find(accessibleViewsQuery(orgId, userId))
+    .sort({ scope: -1, position: 1, createdAt: 1 });
+}
+
+/**
+ * Find a view the user can see. Returns null for other users' personal views.
+ */
+export async function findAccessibleView(
+  viewId: string,
+  orgId: string,
+  userId: string
+): Promise<SavedViewDocument | null> {
+  if (!isValidObjectId(viewId)) {
+    return null;
+  }
+  
+  return SavedView.findOne({ _id: viewId, ...accessibleViewsQuery(orgId, userId) });
+}
+
+/**
+ * Personal views can only be changed by their owner; shared views by ADMIN+
+ */
+export function canManageView(
+  view: SavedViewDocument,
+  userId: string,
+  userRole: UserRole | null
+): boolean {
+  if (view.scope === 'shared') {
+    return !!userRole && hasMinimumRole(userRole, 'ADMIN');
+  }
+  return view.ownerId.toString() === userId;
+}
+
+/**
+ * Number of tickets currently matching a view, evaluated for the requesting user
+ */
+export async function countViewTickets(
+  view: SavedViewDocument,
+  orgId: string,
+  userId: string
+): Promise<number> {
+  const filter = ticketFilterSchema.parse(view.filter ?? {});
+  const query = await buildTicketFilter(orgId, userId, filter);
+  return Ticket.countDocuments(query);
+}
+
+/**
+ * Shape a saved view for API responses
+ */
+export function serializeSavedView(view: SavedViewDocument) {
+  return {
+    id: view._id,
+    name: view.name,
+    scope: view.scope,
+    ownerId: view.ownerId,
+    filter: view.filter,
+    position: view.position,
+    createdAt: view.createdAt,
+    updatedAt: view.updatedAt
+  };
+}
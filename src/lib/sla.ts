@@ -0,0 +1,364 @@
+import type { TicketDocument } from '@/models/Ticket';
+import type { TicketStatus } from '@/lib/ticket-workflow';
+
+export type TicketPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface SlaTarget {
+  priority: TicketPriority;
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+}
+
+export interface BusinessHours {
+  enabled: boolean;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:mm, local to the policy timezone
+  end: string;
+}
+
+export interface SlaPolicy {
+  enabled: boolean;
+  timezone: string;
+  nearBreachPercent: number;
+  businessHours?: BusinessHours;
+  targets: SlaTarget[];
+}
+
+export interface SlaClock {
+  targetMinutes: number;
+  dueAt: Date | null; // null while the clock is paused short of its target
+  completedAt: Date | null;
+  elapsedMinutes: number;
+  breached: boolean;
+  nearBreach: boolean;
+}
+
+export interface TicketSla {
+  paused: boolean;
+  firstResponse: SlaClock;
+  resolution: SlaClock;
+}
+
+// The SLA clock doesn't run while we're waiting on the customer or the ticket is done
+const PAUSED_STATUSES: TicketStatus[] = ['pending-customer', 'solved', 'closed'];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// Upper bound when projecting due dates forward through business hours.
+// Elapsed time is always counted over the ticket's whole age.
+const MAX_PROJECTION_DAYS = 366;
+
+/**
+ * Resolve the SLA policy for an org document (null when SLAs are disabled)
+ */
+export function getOrgSlaPolicy(org: { sla?: SlaPolicy } | null): SlaPolicy | null {
+  if (!org?.sla?.enabled) {
+    return null;
+  }
+  return org.sla;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+// Building a formatter is far slower than using one
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(time: number, timeZone: string) {
+  const parts = getZonedFormatter(timeZone).formatToParts(new Date(time));
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+/**
+ * Convert a wall-clock time in the given timezone to a UTC timestamp
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): number {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const local = getZonedParts(guess, timeZone);
+  const offset =
+    Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - guess;
+  return guess - offset;
+}
+
+function parseTimeOfDay(value: string): [number, number] {
+  const [hour, minute] = value.split(':').map(Number);
+  return [hour, minute];
+}
+
+/**
+ * Business-hour windows for each local day, starting with the day containing
+ * `from`. Endless unless `maxDays` is given; callers stop once past their range.
+ */
+function* businessWindows(from: number, policy: SlaPolicy, maxDays = Infinity): Generator<Interval> {
+  const hours = policy.businessHours;
+  if (!hours?.enabled) {
+    yield { start: from, end: Infinity };
+    return;
+  }
+  if (hours.days.length === 0) {
+    return;
+  }
+
+  const [startHour, startMinute] = parseTimeOfDay(hours.start);
+  const [endHour, endMinute] = parseTimeOfDay(hours.end);
+  const local = getZonedParts(from, policy.timezone);
+  const firstDay = Date.UTC(local.year, local.month - 1, local.day);
+
+  for (let i = 0; i < maxDays; i++) {
+    const day = new Date(firstDay + i * DAY_MS);
+    if (!hours.days.includes(day.getUTCDay())) {
+      continue;
+    }
+
+    const y = day.getUTCFullYear();
+    const m = day.getUTCMonth() + 1;
+    const d = day.getUTCDate();
+    yield {
+      start: zonedTimeToUtc(y, m, d, startHour, startMinute, policy.timezone),
+      end: zonedTimeToUtc(y, m, d, endHour, endMinute, policy.timezone)
+    };
+  }
+}
+
+/**
+ * Business time (ms) in one local week. Windows that contain a DST change are
+ * counted at their wall-clock length.
+ */
+function businessMsPerWeek(hours: BusinessHours): number {
+  const [startHour, startMinute] = parseTimeOfDay(hours.start);
+  const [endHour, endMinute] = parseTimeOfDay(hours.end);
+  const dayMs = Math.max(0, (endHour - startHour) * 60 + endMinute - startMinute) * MINUTE_MS;
+  return new Set(hours.days).size * dayMs;
+}
+
+/**
+ * Business time (ms) elapsed within an interval. Whole local weeks are counted
+ * in closed form, so only the final partial week is walked day by day; list
+ * reads compute this for every ticket on the page, however old.
+ */
+function businessMsBetween(interval: Interval, policy: SlaPolicy): number {
+  const hours = policy.businessHours;
+  if (!hours?.enabled) {
+    return interval.end - interval.start;
+  }
+
+  let total = 0;
+  let from = interval.start;
+  let weeks = Math.floor((interval.end - interval.start) / WEEK_MS);
+  if (weeks > 0) {
+    // The same local time `weeks` later, which can be an hour off the UTC
+    // week across DST changes
+    const local = getZonedParts(interval.start, policy.timezone);
+    const sameLocalTime = (count: number) =>
+      zonedTimeToUtc(
+        local.year,
+        local.month,
+        local.day + count * 7,
+        local.hour,
+        local.minute,
+        policy.timezone
+      ) + (interval.start % MINUTE_MS);
+    let weeksEnd = sameLocalTime(weeks);
+    if (weeksEnd > interval.end) {
+      weeks -= 1;
+      weeksEnd = sameLocalTime(weeks);
+    }
+    total = weeks * businessMsPerWeek(hours);
+    from = weeksEnd;
+  }
+
+  for (const window of businessWindows(from, policy)) {
+    if (window.start >= interval.end) {
+      break;
+    }
+    const start = Math.max(window.start, from);
+    const end = Math.min(window.end, interval.end);
+    if (end > start) {
+      total += end - start;
+    }
+  }
+  return total;
+}
+
+/**
+ * Instant at which `ms` of business time has passed after `from`, or null when
+ * that is more than MAX_PROJECTION_DAYS away
+ */
+function addBusinessMs(from: number, ms: number, policy: SlaPolicy): number | null {
+  let remaining = ms;
+  for (const window of businessWindows(from, policy, MAX_PROJECTION_DAYS)) {
+    const start = Math.max(window.start, from);
+    if (window.end <= start) {
+      continue;
+    }
+    if (start + remaining <= window.end) {
+      return start + remaining;
+    }
+    remaining -= window.end - start;
+  }
+  return null;
+}
+
+/**
+ * Periods during which the SLA clock was running, clipped to `until`
+ */
+function getRunningIntervals(ticket: TicketDocument, until: number): Interval[] {
+  const intervals: Interval[] = [];
+  let status = 'new' as TicketStatus;
+  let since = (ticket.createdAt ?? new Date(until)).getTime();
+
+  const close = (at: number) => {
+    if (!PAUSED_STATUSES.includes(status) && at > since) {
+      intervals.push({ start: since, end: Math.min(at, until) });
+    }
+  };
+
+  for (const entry of ticket.statusHistory) {
+    const at = entry.at.getTime();
+    if (at >= until) {
+      break;
+    }
+    if (entry.from) {
+      close(at);
+    }
+    status = entry.to as TicketStatus;
+    since = at;
+  }
+  close(until);
+
+  return intervals.filter((interval) => interval.end > interval.start);
+}
+
+function computeClock(
+  ticket: TicketDocument,
+  policy: SlaPolicy,
+  targetMinutes: number,
+  completedAt: Date | null,
+  now: number
+): SlaClock {
+  const targetMs = targetMinutes * MINUTE_MS;
+  const until = completedAt ? completedAt.getTime() : now;
+  const intervals = getRunningIntervals(ticket, until);
+  const running = !completedAt && !PAUSED_STATUSES.includes(ticket.status as TicketStatus);
+
+  let elapsed = 0;
+  let dueAt: number | null = null;
+  for (const interval of intervals) {
+    const ms = businessMsBetween(interval, policy);
+    if (dueAt === null && elapsed + ms >= targetMs) {
+      dueAt = addBusinessMs(interval.start, targetMs - elapsed, policy);
+    }
+    elapsed += ms;
+  }
+
+  // Project the due date forward unless the clock is currently paused
+  if (dueAt === null && (running || completedAt)) {
+    dueAt = addBusinessMs(until, targetMs - elapsed, policy);
+  }
+
+  const breached = elapsed >= targetMs;
+  const nearBreach =
+    !breached && !completedAt && elapsed >= targetMs * (policy.nearBreachPercent / 100);
+
+  return {
+    targetMinutes,
+    dueAt: dueAt === null ? null : new Date(dueAt),
+    completedAt,
+    elapsedMinutes: Math.floor(elapsed / MINUTE_MS),
+    breached,
+    nearBreach
+  };
+}
+
+/**
+ * When the ticket was last solved or closed (null if it is still active)
+ */
+function getResolvedAt(ticket: TicketDocument): Date | null {
+  const resolvedStatuses = ['solved', 'closed'];
+  if (!resolvedStatuses.includes(ticket.status)) {
+    return null;
+  }
+  // Measure from when it entered solved/closed, so solved -> closed doesn't move it
+  for (let i = ticket.statusHistory.length - 1; i >= 0; i--) {
+    const entry = ticket.statusHistory[i];
+    if (resolvedStatuses.includes(entry.to) && !resolvedStatuses.includes(entry.from ?? '')) {
+      return entry.at;
+    }
+  }
+  return ticket.updatedAt ?? null;
+}
+
+/**
+ * Compute first-response and resolution SLA state for a ticket.
+ * Returns null when the org has no policy or no target for the ticket's priority.
+ */
+export function computeTicketSla(
+  ticket: TicketDocument,
+  policy: SlaPolicy | null,
+  now: Date = new Date()
+): TicketSla | null {
+  if (!policy) {
+    return null;
+  }
+
+  const target = policy.targets.find((t) => t.priority === ticket.priority);
+  if (!target) {
+    return null;
+  }
+
+  return {
+    paused: PAUSED_STATUSES.includes(ticket.status as TicketStatus),
+    firstResponse: computeClock(
+      ticket,
+      policy,
+      target.firstResponseMinutes,
+      ticket.firstRespondedAt ?? null,
+      now.getTime()
+    ),
+    resolution: computeClock(
+      ticket,
+      policy,
+      target.resolutionMinutes,
+      getResolvedAt(ticket),
+      now.getTime()
+    )
+  };
+}
@@ -0,0 +1,43 @@
+import path from 'path';
+import { LocalStorageDriver } from './local';
+import { S3StorageDriver } from './s3';
+import type { StorageDriver } from './types';
+
+export type { StorageDriver, StoredObject } from './types';
+export { LocalStorageDriver } from './local';
+export { S3StorageDriver } from './s3';
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Storage driver selected by STORAGE_DRIVER ('s3' or 'local', default 'local')
+ */
+export function getStorage(): StorageDriver {
+  if (driver) {
+    return driver;
+  }
+
+  if (process.env.STORAGE_DRIVER === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET environment variable is not defined');
+    }
+    driver = new S3StorageDriver({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION,
+      endpoint: process.env.S3_ENDPOINT
+    });
+  } else {
+    driver = new LocalStorageDriver(
+      process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), '.storage')
+    );
+  }
+
+  return driver;
+}
+
+/**
+ * Override the storage driver (tests)
+ */
+export function setStorage(storage: StorageDriver | null): void {
+  driver = storage;
+}
@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StorageDriver, StoredObject } from './types';
+
+/**
+ * Stores objects on the local filesystem (dev and tests).
+ * Content type is kept in a sidecar `.meta.json` file next to each object.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    // Never allow keys to escape the storage root
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const filePath = this.resolve(key);
+    try {
+      const [body, meta] = await Promise.all([
+        fs.readFile(filePath),
+        fs.readFile(`${filePath}.meta.json`, 'utf8')
+      ]);
+      return { body, contentType: JSON.parse(meta).contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.meta.json`, { force: true });
+  }
+}
@@ -0,0 +1,13 @@
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Blob storage used for attachments. Keys are always prefixed with the orgId.
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
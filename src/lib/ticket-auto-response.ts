@@ -0,0 +1,150 @@
+import Org from '@/models/Org';
+import TicketMessage from '@/models/TicketMessage';
+import type { TicketDocument } from '@/models/Ticket';
+import { getOrgAIProvider } from '@/lib/org-ai';
+import { buildReplyPrompt } from '@/lib/ai/reply';
+import { searchKnowledgeBase } from '@/lib/knowledge-base';
+import { autoAssignTicket } from '@/lib/assignment';
+import { applyStatusTransition } from '@/lib/ticket-workflow';
+import { notifyAgentReply } from '@/lib/ticket-notifications';
+import { emitMessageWebhook } from '@/lib/webhooks';
+
+// Tags agents can filter on to find tickets the AI handed over
+export const AI_NEEDS_REVIEW_TAG = 'ai-needs-review';
+export const AI_ESCALATED_TAG = 'ai-escalated';
+
+export const AI_AUTHOR_NAME = 'AI Assistant';
+
+// Knowledge base passages the AI may answer from
+const SNIPPET_LIMIT = 3;
+
+const HUMAN_HANDOFF_PATTERNS = [
+  /\b(talk|speak|chat)\s+(to|with)\s+(a|an|the)?\s*(human|person|real person|agent|someone|representative)\b/i,
+  /\b(human|real person|live agent)\s*,?\s*please\b/i,
+  /^\s*(human|agent|representative)\s*[.!]?\s*$/i
+];
+
+// A negation a few words before the request ("I don't want to talk to an agent")
+const NEGATED_BEFORE = /\b(?:not|never|don'?t|doesn'?t|didn'?t|won'?t|wouldn'?t|no need to)(?:\s+[\w']+){0,3}\s*$/i;
+
+/**
+ * Whether a customer message asks to be handed to a person ("talk to a human")
+ */
+export function isHumanHandoffRequest(text: string): boolean {
+  return HUMAN_HANDOFF_PATTERNS.some((pattern) => {
+    const match = pattern.exec(text);
+    return !!match && !NEGATED_BEFORE.test(text.slice(0, match.index));
+  });
+}
+
+/**
+ * Tag the ticket for agents and make sure someone owns it (using the org's
+ * assignment strategy even when auto-assignment is off)
+ */
+async function routeToHuman(ticket: TicketDocument, tag: string): Promise<void> {
+  ticket.tags = [...new Set([...ticket.tags, tag])];
+  if (!ticket.assigneeId) {
+    const assigneeId = await autoAssignTicket(ticket.orgId.toString(), { force: true });
+    ticket.set('assigneeId', assigneeId);
+  }
+}
+
+/**
+ * Let the AI agent answer a new ticket on its own when the org opted in and the
+ * knowledge base covers the question well enough (top retrieval score at or above
+ * the org's threshold). Otherwise, or when moderation flags the message, the
+ * ticket is tagged for review and routed to a person. Failures never block
+ * ticket creation.
+ */
+export async function autoRespondToNewTicket(ticket: TicketDocument): Promise<void> {
+  try {
+    const orgId = ticket.orgId.toString();
+    const provider = await getOrgAIProvider(orgId, { feature: 'auto-response' });
+    if (!provider) {
+      return;
+    }
+    
+    const org = await Org.findById(orgId);
+    const settings = org?.ai?.autoResponse;
+    if (!settings?.enabled) {
+      return;
+    }
+    
+    const question = `${ticket.subject}\n${ticket.description}`;
+    const [moderation, results] = await Promise.all([
+      provider.moderate({ input: [question] }),
+      searchKnowledgeBase(provider, orgId, question, SNIPPET_LIMIT)
+    ]);
+    const confidence = results[0]?.score ?? 0;
+    
+    // Abusive or unsafe messages always go to a person
+    let answer = '';
+    let model = '';
+    if (!moderation.results[0]?.flagged && confidence >= settings.confidenceThreshold) {
+      const completion = await provider.chat({
+        temperature: 0.3,
+        messages: buildReplyPrompt({
+          ticket,
+          thread: [],
+          tone: org.ai.tone ?? {},
+          snippets: results.map((result) => ({ title: result.title, content: result.excerpt })),
+          autonomous: true
+        })
+      });
+      answer = completion.content.trim();
+      model = completion.model;
+    }
+    
+    if (!answer) {
+      await routeToHuman(ticket, AI_NEEDS_REVIEW_TAG);
+      ticket.aiAutoResponse = { status: 'needs-review', confidence };
+      await ticket.save();
+      return;
+    }
+    
+    const message = await TicketMessage.create({
+      orgId,
+      ticketId: ticket._id,
+      authorType: 'ai',
+      authorName: AI_AUTHOR_NAME,
+      body: answer,
+      visibility: 'public',
+      ai: {
+        model,
+        confidence,
+        articleIds: results.map((result) => result.articleId)
+      }
+    });
+    
+    // firstRespondedAt is left for a human; the SLA clock pauses while we wait on
+    // the customer and resumes if they ask for a person
+    ticket.aiAutoResponse = { status: 'answered', confidence, respondedAt: new Date() };
+    applyStatusTransition(ticket, 'pending-customer', null);
+    await ticket.save();
+    
+    await emitMessageWebhook(ticket, message);
+    await notifyAgentReply(ticket, message);
+  } catch (error) {
+    console.error('AI auto-response failed:', error);
+  }
+}
+
+/**
+ * Hand an AI-answered ticket to a person when the customer's reply asks for one.
+ * Returns true when the ticket was escalated.
+ */
+export async function escalateOnHumanRequest(
+  ticket: TicketDocument,
+  replyBody: string
+): Promise<boolean> {
+  if (ticket.aiAutoResponse?.status !== 'answered' || !isHumanHandoffRequest(replyBody)) {
+    return false;
+  }
+  
+  await routeToHuman(ticket, AI_ESCALATED_TAG);
+  ticket.aiAutoResponse.status = 'escalated';
+  ticket.aiAutoResponse.escalatedAt = new Date();
+  applyStatusTransition(ticket, 'open', null);
+  await ticket.save();
+  return true;
+}
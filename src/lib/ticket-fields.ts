@@ -0,0 +1,183 @@
+import TicketField, { type TicketFieldDocument } from '@/models/TicketField';
+
+export type TicketFieldType = 'text' | 'number' | 'dropdown' | 'checkbox' | 'date';
+
+const MAX_TEXT_LENGTH = 1000;
+
+/**
+ * Org field definitions in display order
+ */
+export async function listTicketFields(orgId: string): Promise<TicketFieldDocument[]> {
+  return TicketField.find({ orgId }).sort({ position: 1, createdAt: 1 });
+}
+
+/**
+ * Check a single value against its field definition.
+ * Returns the normalized value to store, or an error message.
+ */
+function normalizeFieldValue(
+  field: TicketFieldDocument,
+  value: unknown
+): { value: unknown } | { error: string } {
+  switch (field.type as TicketFieldType) {
+    case 'text':
+      if (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH) {
+        return { error: `${field.label} must be text of at most ${MAX_TEXT_LENGTH} characters` };
+      }
+      return { value: value.trim() };
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { error: `${field.label} must be a number` };
+      }
+      return { value };
+    case 'dropdown':
+      if (typeof value !== 'string' || !field.options.includes(value)) {
+        return { error: `${field.label} must be one of: ${field.options.join(', ')}` };
+      }
+      return { value };
+    case 'checkbox':
+      if (typeof value !== 'boolean') {
+        return { error: `${field.label} must be true or false` };
+      }
+      return { value };
+    case 'date': {
+      const date = typeof value === 'string' ? new Date(value) : null;
+      if (!date || Number.isNaN(date.getTime())) {
+        return { error: `${field.label} must be a valid date` };
+      }
+      return { value: date };
+    }
+    default:
+      return { error: `${field.label} has an unsupported type` };
+  }
+}
+
+/**
+ * Validate custom field values for a ticket against the org's TicketField definitions.
+ * A null value clears the field. With `current`, required fields may be satisfied by
+ * values already on the ticket (used for updates).
+ */
+export async function validateCustomFields(
+  orgId: string,
+  input: Record<string, unknown>,
+  current?: Map<string, unknown>
+): Promise<{ values: Record<string, unknown> } | { errors: string[] }> {
+  const fields = await listTicketFields(orgId);
+  const byKey = new Map(fields.map((field) => [field.key, field]));
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(input)) {
+    const field = byKey.get(key);
+    if (!field) {
+      errors.push(`Unknown custom field: ${key}`);
+      continue;
+    }
+    if (value === null) {
+      values[key] = null;
+      continue;
+    }
+    const result = normalizeFieldValue(field, value);
+    if ('error' in result) {
+      errors.push(result.error);
+    } else {
+      values[key] = result.value;
+    }
+  }
+
+  for (const field of fields) {
+    if (!field.required) {
+      continue;
+    }
+    const next = field.key in values ? values[field.key] : current?.get(field.key);
+    if (next === undefined || next === null || next === '') {
+      errors.push(`${field.label} is required`);
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { values };
+}
+
+/**
+ * Apply validated values to a ticket's customFields map (null removes the entry)
+ */
+export function applyCustomFields(
+  customFields: Map<string, unknown>,
+  values: Record<string, unknown>
+): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null) {
+      customFields.delete(key);
+    } else {
+      customFields.set(key, value);
+    }
+  }
+}
+
+/**
+ * Build Mongo conditions for cf.<key> filters, coercing values by field type.
+ * Unknown field keys match nothing.
+ */
+export async function buildCustomFieldFilter(
+  orgId: string,
+  filters: Record<string, string[]>
+): Promise<Record<string, unknown>> {
+  const keys = Object.keys(filters);
+  if (keys.length === 0) {
+    return {};
+  }
+
+  const fields: TicketFieldDocument[] = await TicketField.find({ orgId, key: { $in: keys } });
+  const byKey = new Map(fields.map((field) => [field.key, field]));
+  const conditions: Record<string, unknown> = {};
+
+  for (const [key, rawValues] of Object.entries(filters)) {
+    const path = `customFields.${key}`;
+    const field = byKey.get(key);
+    if (!field) {
+      conditions[path] = { $in: [] };
+      continue;
+    }
+
+    switch (field.type as TicketFieldType) {
+      case 'number':
+        conditions[path] = { $in: rawValues.map(Number).filter(Number.isFinite) };
+        break;
+      case 'checkbox':
+        conditions[path] = { $in: rawValues.map((value) => value === 'true') };
+        break;
+      case 'date': {
+        // Match the whole (UTC) day of the given date
+        const day = new Date(rawValues[0]);
+        if (Number.isNaN(day.getTime())) {
+          conditions[path] = { $in: [] };
+          break;
+        }
+        const start = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+        conditions[path] = { $gte: new Date(start), $lt: new Date(start + 24 * 60 * 60 * 1000) };
+        break;
+      }
+      default:
+        conditions[path] = { $in: rawValues };
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Shape a field definition for API responses
+ */
+export function serializeTicketField(field: TicketFieldDocument) {
+  return {
+    id: field._id,
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    options: field.options,
+    required: field.required,
+    position: field.position,
+    createdAt: field.createdAt,
+    updatedAt: field.updatedAt
+  };
+}
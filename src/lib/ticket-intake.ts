@@ -0,0 +1,126 @@
+import { after } from 'next/server';
+import Ticket, { type TicketDocument } from '@/models/Ticket';
+import TicketMessage, { type TicketMessageDocument } from '@/models/TicketMessage';
+import { autoAssignTicket } from '@/lib/assignment';
+import { triageNewTicket } from '@/lib/ticket-triage';
+import { notifyTicketCreated } from '@/lib/ticket-notifications';
+import { autoRespondToNewTicket, escalateOnHumanRequest } from '@/lib/ticket-auto-response';
+import { applyStatusTransition } from '@/lib/ticket-workflow';
+import { refreshTicketSummary } from '@/lib/ticket-summary';
+import { translateInboundMessages } from '@/lib/message-translation';
+import { emitMessageWebhook, emitTicketWebhook } from '@/lib/webhooks';
+
+export type CustomerChannel = 'email' | 'help-center' | 'chat';
+
+// A customer writing back moves these tickets back into the agents' queue
+const REOPEN_ON_REPLY_STATUSES = ['pending-customer', 'solved'];
+
+export interface CustomerTicketInput {
+  orgId: string;
+  subject: string;
+  description: string;
+  requester: { name?: string | null; email: string };
+  channel: CustomerChannel;
+  emailMessageId?: string | null;
+}
+
+/**
+ * The automation every new ticket goes through: AI triage, the ticket.created
+ * webhook, the acknowledgement email and, when the org opted in, an AI first
+ * response. It runs after the response is sent, so slow or failing AI calls
+ * never hold up or fail ticket creation.
+ */
+export function scheduleNewTicketAutomation(
+  ticket: TicketDocument,
+  options: { priorityProvided: boolean }
+): void {
+  after(async () => {
+    try {
+      await triageNewTicket(ticket, options);
+      await emitTicketWebhook('ticket.created', ticket);
+      await notifyTicketCreated(ticket);
+      await autoRespondToNewTicket(ticket);
+    } catch (error) {
+      console.error('New ticket automation failed:', error);
+    }
+  });
+}
+
+/**
+ * Open a ticket on behalf of a customer (no user session). It goes through the
+ * same pipeline as tickets created in the app: auto-assignment, then (after
+ * the response) AI triage, an acknowledgement email and, when the org opted
+ * in, an AI first response. `beforeAutomation` runs once the ticket exists,
+ * e.g. to store attachments the AI should see.
+ */
+export async function createCustomerTicket(
+  input: CustomerTicketInput,
+  beforeAutomation?: (ticket: TicketDocument) => Promise<void>
+): Promise<TicketDocument> {
+  const assigneeId = await autoAssignTicket(input.orgId);
+  const ticket = await Ticket.create({
+    orgId: input.orgId,
+    subject: input.subject,
+    description: input.description,
+    requester: { name: input.requester.name ?? undefined, email: input.requester.email },
+    assigneeId,
+    channel: input.channel,
+    emailMessageId: input.emailMessageId ?? null,
+    status: 'new',
+    statusHistory: [{ from: null, to: 'new', actorId: null }]
+  });
+
+  if (beforeAutomation) {
+    await beforeAutomation(ticket);
+  }
+
+  scheduleNewTicketAutomation(ticket, { priorityProvided: false });
+
+  return ticket;
+}
+
+/**
+ * Add a customer's reply to their ticket. Reopens tickets that were waiting on
+ * the customer or solved and hands AI-answered tickets to a person when asked;
+ * the translation and summary are updated after the response.
+ * `beforeAutomation` runs once the message exists (e.g. to store attachments
+ * against it). Callers must not pass closed tickets: those are final.
+ */
+export async function addCustomerReply(
+  ticket: TicketDocument,
+  reply: { name?: string | null; email: string; body: string; emailMessageId?: string | null },
+  beforeAutomation?: (message: TicketMessageDocument) => Promise<void>
+): Promise<TicketMessageDocument> {
+  const message = await TicketMessage.create({
+    orgId: ticket.orgId,
+    ticketId: ticket._id,
+    authorType: 'requester',
+    authorName: reply.name ?? undefined,
+    authorEmail: reply.email,
+    body: reply.body,
+    visibility: 'public',
+    emailMessageId: reply.emailMessageId ?? null
+  });
+
+  if (beforeAutomation) {
+    await beforeAutomation(message);
+  }
+
+  const reopened = REOPEN_ON_REPLY_STATUSES.includes(ticket.status);
+  if (reopened) {
+    applyStatusTransition(ticket, 'open', null);
+  }
+  await ticket.save();
+
+  await emitMessageWebhook(ticket, message);
+  if (reopened) {
+    await emitTicketWebhook('ticket.updated', ticket, ['status']);
+  }
+
+  // Customer asked the AI agent for a person
+  await escalateOnHumanRequest(ticket, reply.body);
+  after(() => translateInboundMessages(ticket, [message]));
+  after(() => refreshTicketSummary(ticket, message));
+
+  return message;
+}
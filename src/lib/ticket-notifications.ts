@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import Org from '@/models/Org';
+import Attachment, { type AttachmentDocument } from '@/models/Attachment';
+import TicketMessage, { type TicketMessageDocument } from '@/models/TicketMessage';
+import type { TicketDocument } from '@/models/Ticket';
+import type { TicketStatus } from '@/lib/ticket-workflow';
+import { customerFacingBody } from '@/lib/tickets';
+import { getStorage } from '@/lib/storage';
+import { getEmailTransport, type OutgoingAttachment } from '@/lib/email/transport';
+import { getInboundEmailDomain, getOrgSupportAddress, parseSupportAddress } from '@/lib/email/addresses';
+import { getOrgEmailSender } from '@/lib/email/sender';
+import {
+  renderTicketCreatedEmail,
+  renderAgentReplyEmail,
+  renderStatusChangeEmail,
+  type EmailBranding,
+  type RenderedEmail
+} from '@/lib/email/templates';
+
+type NotificationEvent = 'ticketCreated' | 'agentReply' | 'statusChange';
+
+// Keep well under the provider's per-email size limit
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// Status changes worth telling the customer about (moves to pending-customer
+// come with a reply, which is emailed on its own)
+const NOTIFIED_STATUSES: TicketStatus[] = ['on-hold', 'solved', 'closed'];
+
+// Chat visitors see these live in the widget, so they aren't emailed as well
+const CHAT_SILENT_EVENTS: NotificationEvent[] = ['ticketCreated', 'agentReply'];
+
+/**
+ * Sender, reply-to and branding for an org's customer emails.
+ * Null when the org has this event turned off or no sender address is configured.
+ */
+async function loadEmailContext(ticket: TicketDocument, event: NotificationEvent) {
+  const org = await Org.findById(ticket.orgId);
+  if (!org || org.email?.notifyOn?.[event] === false) {
+    return null;
+  }
+
+  const sender = getOrgEmailSender(org);
+  if (!sender) {
+    return null;
+  }
+
+  return {
+    orgSlug: org.slug as string,
+    ...sender,
+    // Replies come back to the ticket through the inbound email webhook
+    replyTo: getOrgSupportAddress(org.slug, ticket._id.toString()) ?? undefined
+  };
+}
+
+/**
+ * Message-ID for an outgoing email, plus In-Reply-To/References so mail clients
+ * keep the conversation in one thread
+ */
+async function buildThreadingHeaders(ticket: TicketDocument, orgSlug: string) {
+  const domain = getInboundEmailDomain() ?? 'localhost';
+  const messageId = `${ticket._id}.${crypto.randomUUID()}@${orgSlug}.${domain}`;
+
+  const lastInbound = await TicketMessage.findOne({
+    orgId: ticket.orgId,
+    ticketId: ticket._id,
+    authorType: 'requester',
+    emailMessageId: { $ne: null }
+  }).sort({ createdAt: -1 });
+  const references = [...new Set([ticket.emailMessageId, lastInbound?.emailMessageId].filter(Boolean))];
+
+  const headers: Record<string, string> = { 'Message-ID': `<${messageId}>` };
+  if (references.length) {
+    headers['In-Reply-To'] = `<${references[references.length - 1]}>`;
+    headers['References'] = references.map((id) => `<${id}>`).join(' ');
+  }
+  return { messageId, headers };
+}
+
+/**
+ * Load a message's attachments from storage, up to the size cap
+ */
+async function loadMessageAttachments(message: TicketMessageDocument): Promise<OutgoingAttachment[]> {
+  const attachments: AttachmentDocument[] = await Attachment.find({
+    orgId: message.orgId,
+    messageId: message._id
+  }).sort({ createdAt: 1 });
+
+  const loaded: OutgoingAttachment[] = [];
+  let total = 0;
+  for (const attachment of attachments) {
+    if (total + attachment.size > MAX_ATTACHMENT_BYTES) {
+      console.warn(`Attachment ${attachment._id} left out of email: size limit reached`);
+      continue;
+    }
+    const object = await getStorage().get(attachment.storageKey);
+    if (object) {
+      loaded.push({ filename: attachment.filename, contentType: object.contentType, content: object.body });
+      total += attachment.size;
+    }
+  }
+  return loaded;
+}
+
+/**
+ * Email the ticket's requester. Returns the Message-ID sent, or null when the
+ * email was skipped or failed (failures are logged and never block the caller).
+ */
+async function sendToRequester(
+  ticket: TicketDocument,
+  event: NotificationEvent,
+  render: (branding: EmailBranding) => RenderedEmail,
+  attachments: () => Promise<OutgoingAttachment[]> = async () => []
+): Promise<string | null> {
+  try {
+    // Never email our own mailboxes, which would loop
+    if (!ticket.requester?.email || parseSupportAddress(ticket.requester.email)) {
+      return null;
+    }
+    if (ticket.channel === 'chat' && CHAT_SILENT_EVENTS.includes(event)) {
+      return null;
+    }
+
+    const context = await loadEmailContext(ticket, event);
+    if (!context) {
+      return null;
+    }
+
+    const { messageId, headers } = await buildThreadingHeaders(ticket, context.orgSlug);
+    await getEmailTransport().send({
+      from: context.from,
+      to: ticket.requester.email,
+      replyTo: context.replyTo,
+      ...render(context.branding),
+      headers,
+      attachments: await attachments()
+    });
+    return messageId;
+  } catch (error) {
+    console.error(`Ticket ${event} email failed:`, error);
+    return null;
+  }
+}
+
+function templateTicket(ticket: TicketDocument) {
+  return { subject: ticket.subject, requesterName: ticket.requester?.name };
+}
+
+/**
+ * Acknowledge a new ticket to the requester
+ */
+export async function notifyTicketCreated(ticket: TicketDocument): Promise<void> {
+  await sendToRequester(ticket, 'ticketCreated', (branding) =>
+    renderTicketCreatedEmail(branding, templateTicket(ticket))
+  );
+}
+
+/**
+ * Email a public agent or AI reply (with its attachments) to the requester.
+ * The sent Message-ID is kept on the message so the customer's answer threads onto it.
+ */
+export async function notifyAgentReply(
+  ticket: TicketDocument,
+  message: TicketMessageDocument
+): Promise<void> {
+  if (message.visibility !== 'public' || message.authorType === 'requester') {
+    return;
+  }
+
+  const messageId = await sendToRequester(
+    ticket,
+    'agentReply',
+    (branding) => renderAgentReplyEmail(branding, templateTicket(ticket), { body: customerFacingBody(message) }),
+    () => loadMessageAttachments(message)
+  );
+  if (messageId) {
+    message.emailMessageId = messageId;
+    await message.save();
+  }
+}
+
+/**
+ * Tell the requester about an agent's status change: on hold, solved, closed,
+ * or reopened after being solved/closed
+ */
+export async function notifyStatusChange(
+  ticket: TicketDocument,
+  from: TicketStatus,
+  to: TicketStatus
+): Promise<void> {
+  const reopened = to === 'open' && (from === 'solved' || from === 'closed');
+  if (!reopened && !NOTIFIED_STATUSES.includes(to)) {
+    return;
+  }
+
+  await sendToRequester(ticket, 'statusChange', (branding) =>
+    renderStatusChangeEmail(branding, templateTicket(ticket), to)
+  );
+}
@@ -0,0 +1,183 @@
+import { Types } from 'mongoose';
+import Ticket, { type TicketDocument } from '@/models/Ticket';
+import TicketMessage from '@/models/TicketMessage';
+import type { TicketFilter, TicketQuery } from '@/lib/validations';
+import { buildCustomFieldFilter } from '@/lib/ticket-fields';
+
+type SearchParamsObject = Record<string, string> & { customFields?: Record<string, string> };
+
+interface CursorPosition {
+  sort: TicketQuery['sort'];
+  value: string;
+  id: string;
+}
+
+// Most relevant text matches taken from tickets and from messages, which keeps
+// the id list handed to the ticket query bounded for large orgs
+const TEXT_MATCH_LIMIT = 1000;
+
+/**
+ * Flatten URL search params into a plain object for zod parsing.
+ * Repeated keys (?status=new&status=open) are joined into a comma-separated list,
+ * and custom field filters (?cf.plan=gold) are collected under `customFields`.
+ */
+export function searchParamsToObject(searchParams: URLSearchParams): SearchParamsObject {
+  const result: SearchParamsObject = {};
+  for (const key of new Set(searchParams.keys())) {
+    const value = searchParams.getAll(key).join(',');
+    if (key.startsWith('cf.')) {
+      result.customFields = { ...result.customFields, [key.slice(3)]: value };
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * The position a cursor points at, or null when it was tampered with or made
+ * for another sort order: the value must be a valid date and the id a
+ * 24-character hex ObjectId
+ */
+function decodeCursor(
+  cursor: string,
+  sort: TicketQuery['sort']
+): { value: Date; id: Types.ObjectId } | null {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof position?.value !== 'string' || typeof position?.id !== 'string') {
+      return null;
+    }
+    if (position.sort !== sort) {
+      return null;
+    }
+    const value = new Date(position.value);
+    if (Number.isNaN(value.getTime()) || !/^[0-9a-f]{24}$/i.test(position.id)) {
+      return null;
+    }
+    return { value, id: new Types.ObjectId(position.id) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ticket ids whose subject, description or any message matches the search text,
+ * at most TEXT_MATCH_LIMIT of the best matches from each
+ */
+async function findTicketIdsMatchingText(orgId: string, text: string): Promise<Types.ObjectId[]> {
+  const [ticketMatches, messageMatches] = await Promise.all([
+    Ticket.find(
+      { orgId, deletedAt: null, $text: { $search: text } },
+      { score: { $meta: 'textScore' } }
+    )
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(TEXT_MATCH_LIMIT)
+      .select('_id'),
+    TicketMessage.aggregate<{ _id: Types.ObjectId }>([
+      { $match: { orgId: new Types.ObjectId(orgId), $text: { $search: text } } },
+      { $group: { _id: '$ticketId', score: { $max: { $meta: 'textScore' } } } },
+      { $sort: { score: -1 } },
+      { $limit: TEXT_MATCH_LIMIT },
+      { $project: { _id: 1 } }
+    ])
+  ]);
+
+  const ids = new Map<string, Types.ObjectId>();
+  for (const { _id } of [...ticketMatches, ...messageMatches]) {
+    ids.set(_id.toString(), _id);
+  }
+  return [...ids.values()];
+}
+
+/**
+ * Build the Mongo filter for a ticket query. Always scoped to the org.
+ */
+export async function buildTicketFilter(
+  orgId: string,
+  userId: string,
+  filter: TicketFilter
+): Promise<Record<string, unknown>> {
+  const query: Record<string, unknown> = { orgId, deletedAt: null };
+
+  if (filter.status?.length) {
+    query.status = { $in: filter.status };
+  }
+  if (filter.priority?.length) {
+    query.priority = { $in: filter.priority };
+  }
+  if (filter.assignee === 'me') {
+    query.assigneeId = userId;
+  } else if (filter.assignee === 'none') {
+    query.assigneeId = null;
+  } else if (filter.assignee) {
+    query.assigneeId = filter.assignee;
+  }
+  if (filter.tag?.length) {
+    query.tags = { $in: filter.tag };
+  }
+  if (filter.createdAfter || filter.createdBefore) {
+    query.createdAt = {
+      ...(filter.createdAfter && { $gte: filter.createdAfter }),
+      ...(filter.createdBefore && { $lte: filter.createdBefore })
+    };
+  }
+  if (filter.customFields) {
+    Object.assign(query, await buildCustomFieldFilter(orgId, filter.customFields));
+  }
+  if (filter.q) {
+    query._id = { $in: await findTicketIdsMatchingText(orgId, filter.q) };
+  }
+
+  return query;
+}
+
+/**
+ * Run a filtered, sorted, cursor-paginated ticket query.
+ * Ordering is (sort field, _id) so pages are stable even when timestamps collide.
+ */
+export async function searchTickets(
+  orgId: string,
+  userId: string,
+  params: TicketQuery
+): Promise<{ tickets: TicketDocument[]; nextCursor: string | null } | { error: string }> {
+  const query = await buildTicketFilter(orgId, userId, params);
+
+  const descending = params.sort.startsWith('-');
+  const field = params.sort.replace(/^-/, '') as 'createdAt' | 'updatedAt';
+  const direction = descending ? -1 : 1;
+
+  if (params.cursor) {
+    const position = decodeCursor(params.cursor, params.sort);
+    if (!position) {
+      return { error: 'Invalid cursor' };
+    }
+    const { value, id } = position;
+    const op = descending ? '$lt' : '$gt';
+    query.$or = [
+      { [field]: { [op]: value } },
+      { [field]: value, _id: { [op]: id } }
+    ];
+  }
+
+  // Fetch one extra row to know whether there is another page
+  const rows: TicketDocument[] = await Ticket.find(query)
+    .sort({ [field]: direction, _id: direction })
+    .limit(params.limit + 1);
+
+  const tickets = rows.slice(0, params.limit);
+  const last = tickets[tickets.length - 1];
+  const nextCursor = rows.length > params.limit && last
+    ? encodeCursor({
+        sort: params.sort,
+        value: (last[field] as Date).toISOString(),
+        id: last._id.toString()
+      })
+    : null;
+
+  return { tickets, nextCursor };
+}
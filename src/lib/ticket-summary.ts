@@ -0,0 +1,73 @@
+import Org from '@/models/Org';
+import TicketMessage, { type TicketMessageDocument } from '@/models/TicketMessage';
+import type { TicketDocument } from '@/models/Ticket';
+import { listTicketMessages } from '@/lib/tickets';
+import type { AIProvider } from '@/lib/ai/provider';
+import { getOrgAIProvider } from '@/lib/org-ai';
+import { summarizeThread } from '@/lib/ai/summary';
+
+// Short threads are easy enough to read; summarize automatically from this length on
+const AUTO_SUMMARY_MIN_MESSAGES = 4;
+// Once summarized, refresh after this many new messages rather than on every one
+const SUMMARY_REFRESH_MIN_NEW_MESSAGES = 3;
+
+/**
+ * Summarize the ticket's whole thread (internal notes included) and store it on the ticket
+ */
+export async function generateTicketSummary(
+  provider: AIProvider,
+  ticket: TicketDocument
+): Promise<NonNullable<TicketDocument['aiSummary']>> {
+  const orgId = ticket.orgId.toString();
+  const messages = await listTicketMessages(ticket._id.toString(), orgId, 'agent');
+  const summary = await summarizeThread(provider, ticket, messages);
+  
+  ticket.aiSummary = {
+    ...summary,
+    messageCount: messages.length,
+    summarizedAt: new Date()
+  };
+  await ticket.save();
+  
+  return ticket.aiSummary;
+}
+
+/**
+ * Keep the stored summary current after a new message. Runs once a thread is
+ * long enough, then again every few messages, unless the org turned it off.
+ * Internal notes don't trigger a refresh (they're included in the next one).
+ * Meant to run after the response is sent; failures are logged.
+ */
+export async function refreshTicketSummary(
+  ticket: TicketDocument,
+  message: TicketMessageDocument
+): Promise<void> {
+  try {
+    if (message.visibility === 'internal') {
+      return;
+    }
+    
+    const orgId = ticket.orgId.toString();
+    const messageCount = await TicketMessage.countDocuments({ orgId, ticketId: ticket._id });
+    const isDue = ticket.aiSummary
+      ? messageCount - (ticket.aiSummary.messageCount ?? 0) >= SUMMARY_REFRESH_MIN_NEW_MESSAGES
+      : messageCount >= AUTO_SUMMARY_MIN_MESSAGES;
+    if (!isDue) {
+      return;
+    }
+    
+    const org = await Org.findById(orgId);
+    if (org?.ai?.autoSummarize === false) {
+      return;
+    }
+    
+    const provider = await getOrgAIProvider(orgId, { feature: 'summary' });
+    if (!provider) {
+      return;
+    }
+    
+    await generateTicketSummary(provider, ticket);
+  } catch (error) {
+    console.error('Ticket summarization failed:', error);
+  }
+}
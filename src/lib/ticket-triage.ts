@@ -0,0 +1,112 @@
+import { Types } from 'mongoose';
+import Org from '@/models/Org';
+import Ticket, { type TicketDocument } from '@/models/Ticket';
+import TicketField from '@/models/TicketField';
+import { getOrgAIProvider } from '@/lib/org-ai';
+import { classifyTicket, type TriageTaxonomy } from '@/lib/ai/triage';
+import type { TriageOverrideData } from '@/lib/validations';
+
+// Dropdown TicketField whose options are the org's ticket categories
+export const CATEGORY_FIELD_KEY = 'category';
+
+/**
+ * The org's categories (options of the `category` dropdown field) and tags in use
+ */
+export async function loadTriageTaxonomy(orgId: string): Promise<TriageTaxonomy> {
+  const [categoryField, tags] = await Promise.all([
+    TicketField.findOne({ orgId, key: CATEGORY_FIELD_KEY, type: 'dropdown' }),
+    Ticket.distinct('tags', { orgId: new Types.ObjectId(orgId), deletedAt: null })
+  ]);
+  
+  return {
+    categories: categoryField?.options ?? [],
+    tags: tags as string[]
+  };
+}
+
+/**
+ * Classify a newly created ticket and apply the suggestions.
+ * Explicit values from the creator win: AI priority only applies when none was given,
+ * and the category is only filled in when empty. Skipped when no provider is
+ * configured or the org has auto-triage turned off; failures never block ticket creation.
+ */
+export async function triageNewTicket(
+  ticket: TicketDocument,
+  options: { priorityProvided: boolean }
+): Promise<void> {
+  try {
+    const orgId = ticket.orgId.toString();
+    const provider = await getOrgAIProvider(orgId, { feature: 'triage' });
+    if (!provider) {
+      return;
+    }
+    
+    const org = await Org.findById(orgId);
+    if (org?.ai?.autoTriage === false) {
+      return;
+    }
+    
+    const taxonomy = await loadTriageTaxonomy(orgId);
+    const result = await classifyTicket(provider, ticket, taxonomy);
+    
+    ticket.aiTriage = { ...result, triagedAt: new Date() };
+    ticket.language = result.language.value;
+    if (!options.priorityProvided) {
+      ticket.priority = result.priority.value;
+    }
+    ticket.tags = [...new Set([...ticket.tags, ...result.tags.value])];
+    if (result.category.value && !ticket.customFields.get(CATEGORY_FIELD_KEY)) {
+      ticket.customFields.set(CATEGORY_FIELD_KEY, result.category.value);
+    }
+    
+    await ticket.save();
+  } catch (error) {
+    console.error('Ticket triage failed:', error);
+  }
+}
+
+/**
+ * Apply an agent's corrections to the triage result (confidence 1, source 'agent')
+ * and to the ticket fields they drive. Returns an error message for invalid values.
+ */
+export async function applyTriageOverride(
+  ticket: TicketDocument,
+  overrides: TriageOverrideData
+): Promise<string | null> {
+  const orgId = ticket.orgId.toString();
+  const triage = ticket.aiTriage ?? {};
+  const agentValue = <T>(value: T) => ({ value, confidence: 1, source: 'agent' as const });
+  
+  if (overrides.category !== undefined) {
+    if (overrides.category !== null) {
+      const { categories } = await loadTriageTaxonomy(orgId);
+      if (!categories.includes(overrides.category)) {
+        return `Unknown category: ${overrides.category}`;
+      }
+      ticket.customFields.set(CATEGORY_FIELD_KEY, overrides.category);
+    } else {
+      ticket.customFields.delete(CATEGORY_FIELD_KEY);
+    }
+    triage.category = agentValue(overrides.category);
+  }
+  if (overrides.tags !== undefined) {
+    // Replace the previously suggested tags with the agent's choice
+    const previous = new Set(triage.tags?.value ?? []);
+    ticket.tags = [...new Set([...ticket.tags.filter((tag) => !previous.has(tag)), ...overrides.tags])];
+    triage.tags = agentValue(overrides.tags);
+  }
+  if (overrides.priority !== undefined) {
+    ticket.priority = overrides.priority;
+    triage.priority = agentValue(overrides.priority);
+  }
+  if (overrides.sentiment !== undefined) {
+    triage.sentiment = agentValue(overrides.sentiment);
+  }
+  if (overrides.language !== undefined) {
+    ticket.language = overrides.language;
+    triage.language = agentValue(overrides.language);
+  }
+  
+  ticket.aiTriage = triage;
+  return null;
+}
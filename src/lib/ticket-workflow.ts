@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server';
+import type { Types } from 'mongoose';
+import type { TicketDocument } from '@/models/Ticket';
+import { hasMinimumRole, type UserRole } from '@/lib/multi-tenant';
+
+export type TicketStatus =
+  | 'new'
+  | 'open'
+  | 'pending-customer'
+  | 'on-hold'
+  | 'solved'
+  | 'closed';
+
+export const TICKET_STATUSES: TicketStatus[] = [
+  'new',
+  'open',
+  'pending-customer',
+  'on-hold',
+  'solved',
+  'closed'
+];
+
+export interface StatusTransition {
+  from: TicketStatus;
+  to: TicketStatus;
+  minimumRole: UserRole;
+}
+
+const ACTIVE_STATUSES: TicketStatus[] = ['new', 'open', 'pending-customer', 'on-hold'];
+
+/**
+ * Default lifecycle used when an org hasn't configured its own table.
+ * Any active status can move to any other active status or be solved/closed;
+ * solved tickets can be reopened by agents, closed tickets only by ADMIN+.
+ */
+export const DEFAULT_TICKET_TRANSITIONS: StatusTransition[] = [
+  ...ACTIVE_STATUSES.flatMap((from) =>
+    [...ACTIVE_STATUSES.filter((to) => to !== 'new'), 'solved' as const, 'closed' as const]
+      .filter((to) => to !== from)
+      .map((to) => ({ from, to, minimumRole: 'AGENT' as UserRole }))
+  ),
+  { from: 'solved', to: 'open', minimumRole: 'AGENT' },
+  { from: 'solved', to: 'closed', minimumRole: 'AGENT' },
+  { from: 'closed', to: 'open', minimumRole: 'ADMIN' }
+];
+
+/**
+ * Resolve the transition table for an org document
+ */
+export function getOrgTransitions(
+  org: { ticketTransitions?: StatusTransition[] } | null
+): StatusTransition[] {
+  if (org?.ticketTransitions && org.ticketTransitions.length > 0) {
+    return org.ticketTransitions;
+  }
+  return DEFAULT_TICKET_TRANSITIONS;
+}
+
+/**
+ * Validate a status change against the transition table and the user's role
+ */
+export function validateStatusTransition(
+  transitions: StatusTransition[],
+  from: TicketStatus,
+  to: TicketStatus,
+  userRole: UserRole | null
+): { allowed: boolean; error?: NextResponse } {
+  if (from === to) {
+    return { allowed: true };
+  }
+  
+  const transition = transitions.find((t) => t.from === from && t.to === to);
+  if (!transition) {
+    return {
+      allowed: false,
+      error: NextResponse.json(
+        { error: `Cannot change ticket status from ${from} to ${to}` },
+        { status: 422 }
+      )
+    };
+  }
+  
+  if (!userRole || !hasMinimumRole(userRole, transition.minimumRole)) {
+    return {
+      allowed: false,
+      error: NextResponse.json(
+        { error: `Requires ${transition.minimumRole} role or higher to change status from ${from} to ${to}` },
+        { status: 403 }
+      )
+    };
+  }
+  
+  return { allowed: true };
+}
+
+/**
+ * Set the ticket's status and record the change in its history.
+ * Does not validate or save - callers run validateStatusTransition first.
+ */
+export function applyStatusTransition(
+  ticket: TicketDocument,
+  to: TicketStatus,
+  actorId: string | Types.ObjectId | null
+): void {
+  if (ticket.status === to) {
+    return;
+  }
+  
+  ticket.statusHistory.push({
+    from: ticket.status,
+    to,
+    actorId,
+    at: new Date()
+  });
+  ticket.status = to;
+}
+
+/**
+ * Total milliseconds the ticket has spent in each status, based on its history
+ */
+export function computeTimeInStatus(
+  ticket: TicketDocument,
+  now: Date = new Date()
+): Partial<Record<TicketStatus, number>> {
+  const totals: Partial<Record<TicketStatus, number>> = {};
+  
+  let currentStatus = 'new' as TicketStatus;
+  let enteredAt = ticket.createdAt ?? now;
+  
+  for (const entry of ticket.statusHistory) {
+    if (!entry.from) {
+      // Initial entry recorded at creation
+      currentStatus = entry.to as TicketStatus;
+      enteredAt = entry.at;
+      continue;
+    }
+    totals[currentStatus] = (totals[currentStatus] ?? 0) + (entry.at.getTime() - enteredAt.getTime());
+    currentStatus = entry.to as TicketStatus;
+    enteredAt = entry.at;
+  }
+  
+  totals[currentStatus] = (totals[currentStatus] ?? 0) + (now.getTime() - enteredAt.getTime());
+  
+  return totals;
+}
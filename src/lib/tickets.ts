@@ -0,0 +1,153 @@
+import { isValidObjectId } from 'mongoose';
+import Ticket, { type TicketDocument } from '@/models/Ticket';
+import TicketMessage, { type TicketMessageDocument } from '@/models/TicketMessage';
+
+export type MessageAudience = 'agent' | 'customer';
+
+/**
+ * Find a non-deleted ticket by id, scoped to the organization.
+ * Returns null for malformed ids and for tickets belonging to other orgs.
+ */
+export async function findTicketForOrg(
+  ticketId: string,
+  orgId: string
+): Promise<TicketDocument | null> {
+  if (!isValidObjectId(ticketId)) {
+    return null;
+  }
+  
+  return Ticket.findOne({
+    _id: ticketId,
+    orgId,
+    deletedAt: null
+  });
+}
+
+/**
+ * A customer's own ticket (they requested it), scoped to the organization.
+ * Returns null for tickets requested by anyone else.
+ */
+export async function findCustomerTicket(
+  ticketId: string,
+  orgId: string,
+  email: string
+): Promise<TicketDocument | null> {
+  const ticket = await findTicketForOrg(ticketId, orgId);
+  return ticket?.requester?.email === email ? ticket : null;
+}
+
+/**
+ * A customer's tickets, most recently active first
+ */
+export async function listCustomerTickets(orgId: string, email: string): Promise<TicketDocument[]> {
+  return Ticket.find({ orgId, 'requester.email': email, deletedAt: null })
+    .sort({ updatedAt: -1 })
+    .limit(100);
+}
+
+/**
+ * Shape a ticket document for API responses
+ */
+export function serializeTicket(ticket: TicketDocument) {
+  return {
+    id: ticket._id,
+    subject: ticket.subject,
+    description: ticket.description,
+    requester: {
+      name: ticket.requester?.name,
+      email: ticket.requester?.email
+    },
+    status: ticket.status,
+    priority: ticket.priority,
+    assigneeId: ticket.assigneeId,
+    tags: ticket.tags,
+    customFields: Object.fromEntries(ticket.customFields ?? []),
+    language: ticket.language,
+    aiTriage: ticket.aiTriage,
+    aiSummary: ticket.aiSummary,
+    aiAutoResponse: ticket.aiAutoResponse,
+    channel: ticket.channel,
+    createdBy: ticket.createdBy,
+    firstRespondedAt: ticket.firstRespondedAt,
+    createdAt: ticket.createdAt,
+    updatedAt: ticket.updatedAt
+  };
+}
+
+/**
+ * List a ticket's conversation in chronological order.
+ * Internal notes are only ever returned to the 'agent' audience.
+ */
+export async function listTicketMessages(
+  ticketId: string,
+  orgId: string,
+  audience: MessageAudience
+): Promise<TicketMessageDocument[]> {
+  const query: Record<string, unknown> = { ticketId, orgId };
+  if (audience !== 'agent') {
+    query.visibility = 'public';
+  }
+  
+  return TicketMessage.find(query).sort({ createdAt: 1 });
+}
+
+/**
+ * The text the customer sees: agent replies translated into the customer's
+ * language are sent as the translation, everything else as written
+ */
+export function customerFacingBody(message: TicketMessageDocument): string {
+  return message.authorType === 'agent' && message.translation
+    ? message.translation.body
+    : message.body;
+}
+
+/**
+ * Shape a ticket message for API responses
+ */
+export function serializeTicketMessage(message: TicketMessageDocument) {
+  return {
+    id: message._id,
+    ticketId: message.ticketId,
+    authorType: message.authorType,
+    authorId: message.authorId,
+    authorName: message.authorName,
+    authorEmail: message.authorEmail,
+    body: message.body,
+    visibility: message.visibility,
+    ai: message.ai,
+    language: message.language,
+    translation: message.translation,
+    createdAt: message.createdAt
+  };
+}
+
+/**
+ * Shape a ticket for its requester in the help center: no internal fields
+ * (assignee, tags, AI metadata)
+ */
+export function serializeCustomerTicket(ticket: TicketDocument) {
+  return {
+    id: ticket._id,
+    subject: ticket.subject,
+    description: ticket.description,
+    status: ticket.status,
+    channel: ticket.channel,
+    createdAt: ticket.createdAt,
+    updatedAt: ticket.updatedAt
+  };
+}
+
+/**
+ * Shape a public message for the requester: agents appear by name only, and
+ * translated replies are shown as the translation
+ */
+export function serializeCustomerTicketMessage(message: TicketMessageDocument) {
+  return {
+    id: message._id,
+    authorType: message.authorType,
+    authorName: message.authorName,
+    body: customerFacingBody(message),
+    ai: !!message.ai,
+    createdAt: message.createdAt
+  };
+}
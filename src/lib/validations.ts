@@ -1,4 +1,5 @@
 import { z } from "zod"
+import { checkRedactionPattern } from "@/lib/ai/redaction"
 
 export const loginSchema = z.object({
   email: z
@@ -44,5 +45,485 @@ export const registerFormSchema = registerSchema.extend({
   path: ["confirmPassword"],
 })
 
+export const objectIdSchema = z
+  .string()
+  .regex(/^[a-f\d]{24}$/i, "Invalid id")
+
+export const ticketStatusSchema = z.enum(["new", "open", "pending-customer", "on-hold", "solved", "closed"])
+export const ticketPrioritySchema = z.enum(["low", "normal", "high", "urgent"])
+
+export const createTicketSchema = z.object({
+  subject: z
+    .string()
+    .trim()
+    .min(1, "Subject is required")
+    .max(200, "Subject must be at most 200 characters"),
+  description: z
+    .string()
+    .max(20000, "Description must be at most 20000 characters")
+    .default(""),
+  requester: z.object({
+    name: z.string().trim().optional(),
+    email: z
+      .string()
+      .min(1, "Requester email is required")
+      .email("Please enter a valid email address"),
+  }),
+  priority: ticketPrioritySchema.optional(),
+  assigneeId: objectIdSchema.nullable().optional(),
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20).optional(),
+  // Validated against the org's TicketField definitions in the route
+  customFields: z.record(z.string(), z.unknown()).optional(),
+})
+
+export const updateTicketSchema = createTicketSchema
+  .omit({ description: true })
+  .extend({
+    description: z
+      .string()
+      .max(20000, "Description must be at most 20000 characters"),
+    status: ticketStatusSchema,
+  })
+  .partial()
+
+export const createTicketMessageSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, "Message body is required")
+    .max(20000, "Message must be at most 20000 characters"),
+  visibility: z.enum(["public", "internal"]).default("public"),
+  attachmentIds: z.array(objectIdSchema).max(10, "At most 10 attachments per message").default([]),
+  // Translate a public reply into the ticket's language before sending
+  translate: z.boolean().default(false),
+})
+
+export const ticketWorkflowSchema = z.object({
+  transitions: z
+    .array(
+      z.object({
+        from: ticketStatusSchema,
+        to: ticketStatusSchema,
+        minimumRole: z.enum(["OWNER", "ADMIN", "AGENT"]).default("AGENT"),
+      }).refine((data) => data.from !== data.to, {
+        message: "A transition must change the status",
+        path: ["to"],
+      })
+    ),
+})
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format")
+
+export const slaPolicySchema = z.object({
+  enabled: z.boolean(),
+  timezone: z
+    .string()
+    .refine((tz) => {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: tz })
+        return true
+      } catch {
+        return false
+      }
+    }, "Unknown timezone")
+    .default("UTC"),
+  nearBreachPercent: z.number().int().min(1).max(99).default(80),
+  businessHours: z.object({
+    enabled: z.boolean(),
+    days: z.array(z.number().int().min(0).max(6)).min(1, "Select at least one business day"),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  }).refine((data) => data.start < data.end, {
+    message: "Business hours must end after they start",
+    path: ["end"],
+  }).optional(),
+  targets: z.array(
+    z.object({
+      priority: ticketPrioritySchema,
+      firstResponseMinutes: z.number().int().positive(),
+      resolutionMinutes: z.number().int().positive(),
+    })
+  ).refine((targets) => new Set(targets.map((t) => t.priority)).size === targets.length, {
+    message: "Each priority can only have one target",
+  }),
+})
+
+export const autoAssignmentSchema = z.object({
+  enabled: z.boolean(),
+  strategy: z.enum(["round-robin", "least-open"]).default("round-robin"),
+})
+
+// Custom field keys are also used as document paths (customFields.<key>)
+const ticketFieldKeyPattern = /^[a-z][a-z0-9_]*$/
+
+// Accepts repeated query params or a comma-separated list
+const listParam = <T extends z.ZodType>(item: T) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",").map((v) => v.trim()).filter(Boolean) : value),
+    z.array(item)
+  )
+
+export const ticketFilterSchema = z.object({
+  status: listParam(ticketStatusSchema).optional(),
+  priority: listParam(ticketPrioritySchema).optional(),
+  assignee: z.union([objectIdSchema, z.enum(["me", "none"])]).optional(),
+  tag: listParam(z.string().trim().min(1)).optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  customFields: z.record(
+    z.string().regex(ticketFieldKeyPattern, "Invalid custom field key"),
+    listParam(z.string())
+  ).optional(),
+  sort: z.enum(["createdAt", "-createdAt", "updatedAt", "-updatedAt"]).default("-createdAt"),
+})
+
+export const ticketQuerySchema = ticketFilterSchema.extend({
+  view: objectIdSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().optional(),
+})
+
+export const createSavedViewSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "View name is required")
+    .max(100, "View name must be at most 100 characters"),
+  scope: z.enum(["personal", "shared"]).default("personal"),
+  filter: ticketFilterSchema,
+  position: z.number().int().min(0).optional(),
+})
+
+export const updateSavedViewSchema = createSavedViewSchema.omit({ scope: true }).partial()
+
+export const createTicketFieldSchema = z.object({
+  key: z
+    .string()
+    .trim()
+    .min(1, "Field key is required")
+    .max(50, "Field key must be at most 50 characters")
+    .regex(ticketFieldKeyPattern, "Field key must be lowercase letters, numbers and underscores"),
+  label: z
+    .string()
+    .trim()
+    .min(1, "Field label is required")
+    .max(100, "Field label must be at most 100 characters"),
+  type: z.enum(["text", "number", "dropdown", "checkbox", "date"]),
+  options: z.array(z.string().trim().min(1).max(100)).max(100).default([]),
+  required: z.boolean().default(false),
+  position: z.number().int().min(0).optional(),
+}).refine((data) => data.type !== "dropdown" || data.options.length > 0, {
+  message: "Dropdown fields need at least one option",
+  path: ["options"],
+})
+
+export const updateTicketFieldSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .min(1, "Field label is required")
+    .max(100, "Field label must be at most 100 characters"),
+  options: z.array(z.string().trim().min(1).max(100)).max(100),
+  required: z.boolean(),
+  position: z.number().int().min(0),
+}).partial()
+
+export const triageOverrideSchema = z.object({
+  category: z.string().trim().min(1).nullable(),
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20),
+  priority: ticketPrioritySchema,
+  sentiment: z.enum(["positive", "neutral", "negative"]),
+  language: z.string().trim().toLowerCase().min(2).max(10),
+}).partial()
+
+// AI features whose chat model can be configured
+export const aiModelFeatureSchema = z.enum(["triage", "reply-suggestion", "summary", "auto-response", "translation"])
+
+const modelNameSchema = z.string().trim().min(1).max(100)
+
+const modelSettingsSchema = z.object({
+  model: modelNameSchema.nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  fallbackModels: z.array(modelNameSchema).max(3, "At most 3 fallback models are allowed").optional(),
+})
+
+const redactionRuleSchema = z
+  .object({
+    name: z.string().trim().min(1, "Rule name is required").max(50, "Rule name must be at most 50 characters"),
+    pattern: z.string().min(1, "Pattern is required"),
+    flags: z.string().regex(/^[imsu]*$/, "Flags may only contain i, m, s and u").default(""),
+  })
+  .superRefine((rule, ctx) => {
+    const unsafe = checkRedactionPattern(rule.pattern)
+    if (unsafe) {
+      ctx.addIssue({ code: "custom", message: unsafe, path: ["pattern"] })
+    }
+  })
+  .refine(
+    (rule) => {
+      try {
+        new RegExp(rule.pattern, rule.flags)
+        return true
+      } catch {
+        return false
+      }
+    },
+    { message: "Pattern is not a valid regular expression", path: ["pattern"] }
+  )
+
+export const aiSettingsSchema = z.object({
+  autoTriage: z.boolean(),
+  autoSummarize: z.boolean(),
+  autoResponse: z.object({
+    enabled: z.boolean(),
+    confidenceThreshold: z.number().min(0).max(1),
+  }).partial(),
+  translation: z.object({
+    enabled: z.boolean(),
+    agentLanguage: z.string().trim().toLowerCase().regex(/^[a-z]{2}$/, "Use a two-letter ISO 639-1 code"),
+  }).partial(),
+  redaction: z.object({
+    enabled: z.boolean(),
+    rules: z.array(redactionRuleSchema).max(20, "At most 20 custom redaction rules are allowed"),
+  }).partial(),
+  models: modelSettingsSchema,
+  featureModels: z.partialRecord(aiModelFeatureSchema, modelSettingsSchema),
+  tone: z.object({
+    style: z.enum(["friendly", "professional", "formal", "concise"]),
+    instructions: z.string().trim().max(2000, "Instructions must be at most 2000 characters"),
+    signature: z.string().trim().max(500, "Signature must be at most 500 characters"),
+  }).partial(),
+}).partial()
+
+export const emailSettingsSchema = z.object({
+  branding: z.object({
+    fromName: z.string().trim().max(100, "From name must be at most 100 characters"),
+    logoUrl: z.union([z.url({ protocol: /^https$/ }), z.literal("")]),
+    primaryColor: z.string().trim().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color like #2563eb"),
+    signature: z.string().trim().max(1000, "Signature must be at most 1000 characters"),
+    footer: z.string().trim().max(1000, "Footer must be at most 1000 characters"),
+  }).partial(),
+  notifyOn: z.object({
+    ticketCreated: z.boolean(),
+    agentReply: z.boolean(),
+    statusChange: z.boolean(),
+  }).partial(),
+}).partial()
+
+// Origins are compared exactly, so normalize to scheme://host[:port]
+const widgetOriginSchema = z
+  .url({ protocol: /^https?$/, error: "Enter an origin like https://www.example.com" })
+  .transform((value) => new URL(value).origin)
+
+export const chatWidgetSettingsSchema = z.object({
+  enabled: z.boolean(),
+  allowedOrigins: z
+    .array(widgetOriginSchema)
+    .max(20, "At most 20 origins")
+    .transform((origins) => [...new Set(origins)]),
+  title: z.string().trim().max(100, "Title must be at most 100 characters"),
+  greeting: z.string().trim().max(500, "Greeting must be at most 500 characters"),
+  primaryColor: z.string().trim().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color like #2563eb"),
+}).partial()
+
+export const webhookEventSchema = z.enum(["ticket.created", "ticket.updated", "ticket.deleted", "message.created", "user.invited"])
+
+export const createWebhookSchema = z.object({
+  url: z.url({ protocol: /^https?$/, error: "Enter an http(s) URL" }).max(2000),
+  events: z
+    .array(webhookEventSchema)
+    .min(1, "Choose at least one event")
+    .transform((events) => [...new Set(events)]),
+  description: z.string().trim().max(200, "Description must be at most 200 characters").default(""),
+  enabled: z.boolean().default(true),
+})
+
+export const updateWebhookSchema = z.object({
+  url: createWebhookSchema.shape.url,
+  events: createWebhookSchema.shape.events,
+  description: z.string().trim().max(200, "Description must be at most 200 characters"),
+  enabled: z.boolean(),
+  // Issue a new signing secret (returned once in the response)
+  rotateSecret: z.boolean(),
+}).partial()
+
+export const webhookDeliveryQuerySchema = z.object({
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+  event: webhookEventSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+export const suggestReplySchema = z.object({
+  count: z.number().int().min(1).max(3).default(1),
+  stream: z.boolean().default(false),
+  instructions: z.string().trim().max(1000).optional(),
+})
+
+export const kbArticleStatusSchema = z.enum(["draft", "published"])
+
+const kbArticleFieldsSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(200, "Title must be at most 200 characters"),
+  body: z
+    .string()
+    .trim()
+    .min(1, "Body is required")
+    .max(50000, "Body must be at most 50000 characters"),
+  category: z.string().trim().max(100, "Category must be at most 100 characters").nullable(),
+  status: kbArticleStatusSchema,
+})
+
+export const createKbArticleSchema = kbArticleFieldsSchema.extend({
+  category: kbArticleFieldsSchema.shape.category.optional(),
+  status: kbArticleStatusSchema.default("draft"),
+})
+
+export const updateKbArticleSchema = kbArticleFieldsSchema.partial()
+
+export const kbArticleQuerySchema = z.object({
+  status: kbArticleStatusSchema.optional(),
+  category: z.string().trim().min(1).optional(),
+})
+
+export const kbSearchSchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(1000),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+})
+
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), "Invalid date")
+
+export const aiUsageQuerySchema = z
+  .object({
+    from: isoDateSchema.optional(),
+    to: isoDateSchema.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from must not be after to",
+    path: ["from"],
+  })
+
+export const helpArticleQuerySchema = z.object({
+  category: z.string().trim().min(1).optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+})
+
+// Ticket form on the public help center (no user account)
+export const helpTicketSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be at most 100 characters"),
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(1, "Email is required")
+    .email("Please enter a valid email address"),
+  subject: createTicketSchema.shape.subject,
+  description: z
+    .string()
+    .trim()
+    .min(1, "Please describe your issue")
+    .max(5000, "Description must be at most 5000 characters"),
+  // Signed when the form was rendered (see /api/help/form)
+  formToken: z.string().min(1, "Form token is required"),
+  // Honeypot: hidden from people, filled in by bots
+  website: z.string().optional(),
+})
+
+export const customerLoginSchema = z.object({
+  email: helpTicketSchema.shape.email,
+})
+
+export const customerVerifySchema = z.object({
+  token: z.string().min(1, "Token is required").max(200),
+})
+
+export const customerReplySchema = z.object({
+  body: createTicketMessageSchema.shape.body,
+})
+
+export const startChatSchema = z.object({
+  name: helpTicketSchema.shape.name,
+  email: helpTicketSchema.shape.email,
+  message: createTicketMessageSchema.shape.body,
+})
+
+export const chatMessagesQuerySchema = z.object({
+  // Only messages after this one (the last the widget has)
+  after: objectIdSchema.optional(),
+})
+
+const emailAddressSchema = z.object({
+  name: z.string().trim().max(200).nullish(),
+  email: z.string().trim().toLowerCase().email(),
+})
+
+// Parsed-email payload, for mail providers that deliver JSON instead of raw MIME
+export const inboundEmailSchema = z.object({
+  from: emailAddressSchema,
+  to: z.array(emailAddressSchema).min(1),
+  cc: z.array(emailAddressSchema).default([]),
+  subject: z.string().max(998).default(""),
+  text: z.string().nullish(),
+  html: z.string().nullish(),
+  messageId: z.string().max(998).nullish(),
+  inReplyTo: z.string().max(998).nullish(),
+  references: z.array(z.string().max(998)).default([]),
+  headers: z.record(z.string(), z.string()).default({}),
+  attachments: z
+    .array(
+      z.object({
+        filename: z.string().trim().min(1).max(255),
+        contentType: z.string().trim().min(1).max(255),
+        // base64-encoded file body
+        content: z.base64(),
+      })
+    )
+    .max(20)
+    .default([]),
+})
+
 export type LoginFormData = z.infer<typeof loginSchema>
 export type RegisterFormData = z.infer<typeof registerFormSchema>
+export type CreateTicketData = z.infer<typeof createTicketSchema>
+export type UpdateTicketData = z.infer<typeof updateTicketSchema>
+export type TicketFilter = z.infer<typeof ticketFilterSchema>
+export type TicketQuery = z.infer<typeof ticketQuerySchema>
+export type AISettingsData = z.infer<typeof aiSettingsSchema>
+export type EmailSettingsData = z.infer<typeof emailSettingsSchema>
+export type ChatWidgetSettingsData = z.infer<typeof chatWidgetSettingsSchema>
+export type CreateWebhookData = z.infer<typeof createWebhookSchema>
+export type UpdateWebhookData = z.infer<typeof updateWebhookSchema>
+export type WebhookDeliveryQueryData = z.infer<typeof webhookDeliveryQuerySchema>
+export type SuggestReplyData = z.infer<typeof suggestReplySchema>
+export type CreateKbArticleData = z.infer<typeof createKbArticleSchema>
+export type UpdateKbArticleData = z.infer<typeof updateKbArticleSchema>
+export type KbSearchData = z.infer<typeof kbSearchSchema>
+export type HelpTicketData = z.infer<typeof helpTicketSchema>
+export type CustomerLoginData = z.infer<typeof customerLoginSchema>
+export type CustomerVerifyData = z.infer<typeof customerVerifySchema>
+export type CustomerReplyData = z.infer<typeof customerReplySchema>
+export type StartChatData = z.infer<typeof startChatSchema>
+export type ChatMessagesQueryData = z.infer<typeof chatMessagesQuerySchema>
+export type AIUsageQueryData = z.infer<typeof aiUsageQuerySchema>
+export type InboundEmailData = z.infer<typeof inboundEmailSchema>
+export type TriageOverrideData = z.infer<typeof triageOverrideSchema>
+export type CreateTicketFieldData = z.infer<typeof createTicketFieldSchema>
+export type UpdateTicketFieldData = z.infer<typeof updateTicketFieldSchema>
+export type CreateSavedViewData = z.infer<typeof createSavedViewSchema>
+export type UpdateSavedViewData = z.infer<typeof updateSavedViewSchema>
+export type AutoAssignmentData = z.infer<typeof autoAssignmentSchema>
+export type SlaPolicyData = z.infer<typeof slaPolicySchema>
+export type TicketWorkflowData = z.infer<typeof ticketWorkflowSchema>
+export type CreateTicketMessageData = z.infer<typeof createTicketMessageSchema>
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryVectorStore } from '@/lib/vector-store';
+
+const chunk = (position: number, embedding: number[]) => ({
+  position,
+  content: `chunk ${position}`,
+  embedding
+});
+
+describe('InMemoryVectorStore', () => {
+  it('returns the most similar chunks first, up to the limit', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsertArticle('org-1', 'a', 'model', [chunk(0, [1, 0]), chunk(1, [0, 1])]);
+    await store.upsertArticle('org-1', 'b', 'model', [chunk(0, [1, 1])]);
+
+    const matches = await store.query({ orgId: 'org-1', embedding: [1, 0.1], model: 'model', limit: 2 });
+
+    expect(matches.map((match) => [match.articleId, match.position])).toEqual([['a', 0], ['b', 0]]);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+
+  it('only searches the querying org', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsertArticle('org-1', 'a', 'model', [chunk(0, [1, 0])]);
+    await store.upsertArticle('org-2', 'b', 'model', [chunk(0, [1, 0])]);
+
+    const matches = await store.query({ orgId: 'org-2', embedding: [1, 0], model: 'model', limit: 5 });
+
+    expect(matches.map((match) => match.articleId)).toEqual(['b']);
+  });
+
+  it('ignores vectors from another embedding model', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsertArticle('org-1', 'a', 'old-model', [chunk(0, [1, 0])]);
+
+    expect(await store.query({ orgId: 'org-1', embedding: [1, 0], model: 'model', limit: 5 })).toEqual([]);
+  });
+
+  it('replaces an article on upsert and forgets it on delete', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsertArticle('org-1', 'a', 'model', [chunk(0, [1, 0]), chunk(1, [1, 0])]);
+    await store.upsertArticle('org-1', 'a', 'model', [chunk(0, [1, 0])]);
+
+    const query = { orgId: 'org-1', embedding: [1, 0], model: 'model', limit: 5 };
+    expect(await store.query(query)).toHaveLength(1);
+
+    await store.deleteArticle('org-1', 'a');
+    expect(await store.query(query)).toEqual([]);
+  });
+});
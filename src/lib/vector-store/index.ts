@@ -0,0 +1,31 @@
+import { InMemoryVectorStore } from './memory';
+import { MongoVectorStore } from './mongo';
+import type { VectorStore } from './types';
+
+export type { VectorStore, VectorChunk, VectorQuery, VectorMatch } from './types';
+export { InMemoryVectorStore } from './memory';
+export { MongoVectorStore } from './mongo';
+
+let store: VectorStore | null = null;
+
+/**
+ * Vector store selected by VECTOR_STORE ('mongo' or 'memory', default 'mongo')
+ */
+export function getVectorStore(): VectorStore {
+  if (store) {
+    return store;
+  }
+
+  store = process.env.VECTOR_STORE === 'memory'
+    ? new InMemoryVectorStore()
+    : new MongoVectorStore({ searchIndex: process.env.MONGODB_VECTOR_INDEX });
+
+  return store;
+}
+
+/**
+ * Override the vector store (tests use an InMemoryVectorStore)
+ */
+export function setVectorStore(override: VectorStore | null): void {
+  store = override;
+}
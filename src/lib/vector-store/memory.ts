@@ -0,0 +1,44 @@
+import { cosineSimilarity, insertTopMatch } from './similarity';
+import type { VectorChunk, VectorMatch, VectorQuery, VectorStore } from './types';
+
+interface StoredArticle {
+  model: string;
+  chunks: VectorChunk[];
+}
+
+/**
+ * Keeps vectors in process memory (tests and local experiments)
+ */
+export class InMemoryVectorStore implements VectorStore {
+  // orgId -> articleId -> chunks
+  private readonly orgs = new Map<string, Map<string, StoredArticle>>();
+
+  async upsertArticle(orgId: string, articleId: string, model: string, chunks: VectorChunk[]): Promise<void> {
+    if (!this.orgs.has(orgId)) {
+      this.orgs.set(orgId, new Map());
+    }
+    this.orgs.get(orgId)!.set(articleId, { model, chunks: chunks.map((chunk) => ({ ...chunk })) });
+  }
+
+  async deleteArticle(orgId: string, articleId: string): Promise<void> {
+    this.orgs.get(orgId)?.delete(articleId);
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    const matches: VectorMatch[] = [];
+    for (const [articleId, article] of this.orgs.get(query.orgId) ?? []) {
+      if (article.model !== query.model) {
+        continue;
+      }
+      for (const chunk of article.chunks) {
+        insertTopMatch(matches, {
+          articleId,
+          position: chunk.position,
+          content: chunk.content,
+          score: cosineSimilarity(query.embedding, chunk.embedding)
+        }, query.limit);
+      }
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,86 @@
+import { Types } from 'mongoose';
+import KbChunk from '@/models/KbChunk';
+import { cosineSimilarity, insertTopMatch } from './similarity';
+import type { VectorChunk, VectorMatch, VectorQuery, VectorStore } from './types';
+
+export interface MongoVectorStoreOptions {
+  /**
+   * Name of an Atlas Vector Search index on kbchunks.embedding (cosine similarity,
+   * with orgId and model as filter fields). Without one, the org's chunks are
+   * scanned and scored in process, which is fine for small knowledge bases.
+   */
+  searchIndex?: string;
+}
+
+interface ChunkRow {
+  articleId: Types.ObjectId;
+  position: number;
+  content: string;
+  embedding: number[];
+}
+
+/**
+ * Stores vectors in the kbchunks collection
+ */
+export class MongoVectorStore implements VectorStore {
+  constructor(private readonly options: MongoVectorStoreOptions = {}) {}
+
+  async upsertArticle(orgId: string, articleId: string, model: string, chunks: VectorChunk[]): Promise<void> {
+    await KbChunk.deleteMany({ orgId, articleId });
+    if (chunks.length > 0) {
+      await KbChunk.insertMany(chunks.map((chunk) => ({ ...chunk, orgId, articleId, model })));
+    }
+  }
+
+  async deleteArticle(orgId: string, articleId: string): Promise<void> {
+    await KbChunk.deleteMany({ orgId, articleId });
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    return this.options.searchIndex
+      ? this.queryWithSearchIndex(query, this.options.searchIndex)
+      : this.queryByScan(query);
+  }
+
+  private async queryWithSearchIndex(query: VectorQuery, index: string): Promise<VectorMatch[]> {
+    const rows: (Omit<ChunkRow, 'embedding'> & { score: number })[] = await KbChunk.aggregate([
+      {
+        $vectorSearch: {
+          index,
+          path: 'embedding',
+          queryVector: query.embedding,
+          numCandidates: query.limit * 20,
+          limit: query.limit,
+          filter: { orgId: new Types.ObjectId(query.orgId), model: query.model }
+        }
+      },
+      { $project: { articleId: 1, position: 1, content: 1, score: { $meta: 'vectorSearchScore' } } }
+    ]);
+    
+    return rows.map((row) => ({
+      articleId: row.articleId.toString(),
+      position: row.position,
+      content: row.content,
+      // Atlas reports cosine scores normalised to 0..1; map back to -1..1
+      score: row.score * 2 - 1
+    }));
+  }
+
+  private async queryByScan(query: VectorQuery): Promise<VectorMatch[]> {
+    const matches: VectorMatch[] = [];
+    const cursor = KbChunk.find({ orgId: query.orgId, model: query.model })
+      .select('articleId position content embedding')
+      .lean<ChunkRow>()
+      .cursor();
+    
+    for await (const row of cursor) {
+      insertTopMatch(matches, {
+        articleId: row.articleId.toString(),
+        position: row.position,
+        content: row.content,
+        score: cosineSimilarity(query.embedding, row.embedding)
+      }, query.limit);
+    }
+    return matches;
+  }
+}
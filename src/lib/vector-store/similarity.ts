@@ -0,0 +1,28 @@
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Keep the `limit` best matches seen so far (sorted, highest score first)
+ */
+export function insertTopMatch<T extends { score: number }>(matches: T[], match: T, limit: number): void {
+  if (matches.length >= limit && match.score <= matches[matches.length - 1].score) {
+    return;
+  }
+  const index = matches.findIndex((existing) => match.score > existing.score);
+  matches.splice(index === -1 ? matches.length : index, 0, match);
+  if (matches.length > limit) {
+    matches.pop();
+  }
+}
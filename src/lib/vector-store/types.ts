@@ -0,0 +1,32 @@
+export interface VectorChunk {
+  position: number;
+  content: string;
+  embedding: number[];
+}
+
+export interface VectorQuery {
+  orgId: string;
+  embedding: number[];
+  /** Embedding model the query vector came from; vectors from other models are ignored */
+  model: string;
+  limit: number;
+}
+
+export interface VectorMatch {
+  articleId: string;
+  position: number;
+  content: string;
+  /** Cosine similarity, -1..1 */
+  score: number;
+}
+
+/**
+ * Embedding index for knowledge-base chunks. Every operation is scoped to an org.
+ */
+export interface VectorStore {
+  /** Replace all indexed chunks of an article */
+  upsertArticle(orgId: string, articleId: string, model: string, chunks: VectorChunk[]): Promise<void>;
+  deleteArticle(orgId: string, articleId: string): Promise<void>;
+  /** Most similar chunks first */
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+}
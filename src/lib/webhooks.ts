@@ -0,0 +1,420 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { isValidObjectId } from 'mongoose';
+import WebhookEndpoint, { type WebhookEndpointDocument } from '@/models/WebhookEndpoint';
+import WebhookDelivery, { type WebhookDeliveryDocument } from '@/models/WebhookDelivery';
+import type { TicketDocument } from '@/models/Ticket';
+import type { TicketMessageDocument } from '@/models/TicketMessage';
+import { serializeTicket, serializeTicketMessage } from '@/lib/tickets';
+import { webhookEventSchema } from '@/lib/validations';
+
+export const WEBHOOK_EVENTS = webhookEventSchema.options;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Attempts per delivery, retried after 1, 2, 4, ... 64 minutes
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery is left alone by other workers for this long
+const CLAIM_LEASE_MS = 60 * 1000;
+const SWEEP_BATCH_SIZE = 20;
+
+// Loopback, private, link-local (cloud metadata), shared and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges; NAT64
+// (64:ff9b::/96) and 6to4 (2002::/16) addresses can embed any IPv4 address,
+// so they are refused outright.
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * A new signing secret for an endpoint
+ */
+export function createWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded. Receivers recompute it
+ * with their secret and reject old timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Endpoints on private networks are only allowed when WEBHOOK_ALLOW_PRIVATE_URLS
+ * is set, for local development
+ */
+function allowPrivateNetworks(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+}
+
+/**
+ * Whether an IP address is loopback, private or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why a URL can't receive webhooks, or null when it can. In production only
+ * https URLs are allowed. Hostnames are checked again when resolved at send time.
+ */
+export function checkWebhookUrl(url: string): string | null {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:' && (process.env.NODE_ENV === 'production' || protocol !== 'http:')) {
+    return 'Webhook URLs must use https';
+  }
+  if (allowPrivateNetworks()) {
+    return null;
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || isPrivateAddress(host)) {
+    return 'Webhook URLs must be publicly reachable';
+  }
+  return null;
+}
+
+/**
+ * DNS lookup for webhook requests that refuses hostnames resolving to a private
+ * address. Used by the connection itself, so a name can't pass a check and then
+ * resolve somewhere else.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true as const }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (!allowPrivateNetworks() && addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new Error(`${hostname} resolves to a private address`), '', 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * POST a body to a URL and resolve with the response status. The response body
+ * is discarded and redirects are not followed.
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  const client = target.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: publicOnlyLookup,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    }, (response) => {
+      response.resume();
+      response.on('end', () => resolve(response.statusCode ?? 0));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Find a webhook endpoint by id, scoped to the organization
+ */
+export async function findWebhookEndpoint(
+  endpointId: string,
+  orgId: string
+): Promise<WebhookEndpointDocument | null> {
+  if (!isValidObjectId(endpointId)) {
+    return null;
+  }
+  return WebhookEndpoint.findOne({ _id: endpointId, orgId });
+}
+
+/**
+ * Shape an endpoint for API responses. The secret is only included right
+ * after it is created or rotated.
+ */
+export function serializeWebhookEndpoint(endpoint: WebhookEndpointDocument, options: { withSecret?: boolean } = {}) {
+  return {
+    id: endpoint._id,
+    url: endpoint.url,
+    description: endpoint.description,
+    events: endpoint.events,
+    enabled: endpoint.enabled,
+    ...(options.withSecret
+      ? { secret: endpoint.secret }
+      : { secretHint: `whsec_…${endpoint.secret.slice(-4)}` }),
+    createdBy: endpoint.createdBy,
+    createdAt: endpoint.createdAt,
+    updatedAt: endpoint.updatedAt
+  };
+}
+
+/**
+ * Shape a delivery log entry for API responses
+ */
+export function serializeWebhookDelivery(delivery: WebhookDeliveryDocument, options: { withPayload?: boolean } = {}) {
+  const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+  return {
+    id: delivery._id,
+    endpointId: delivery.endpointId,
+    event: delivery.event,
+    status: delivery.status,
+    statusCode: lastAttempt?.statusCode ?? null,
+    attemptCount: delivery.attempts.length,
+    attempts: delivery.attempts.map((attempt) => ({
+      at: attempt.at,
+      statusCode: attempt.statusCode,
+      error: attempt.error,
+      durationMs: attempt.durationMs,
+      manual: attempt.manual
+    })),
+    nextAttemptAt: delivery.nextAttemptAt,
+    ...(options.withPayload ? { payload: delivery.payload } : {}),
+    createdAt: delivery.createdAt,
+    updatedAt: delivery.updatedAt
+  };
+}
+
+/**
+ * POST the delivery's payload to its endpoint once, signed with the endpoint's
+ * current secret. 2xx responses count as delivered. Only the status and timing
+ * are recorded, never the response body.
+ */
+async function sendDelivery(endpoint: WebhookEndpointDocument, delivery: WebhookDeliveryDocument) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  try {
+    // The URL was checked when saved; check again in case the rules changed
+    const urlError = checkWebhookUrl(endpoint.url);
+    if (urlError) {
+      throw new Error(urlError);
+    }
+
+    const statusCode = await postWebhook(endpoint.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'AI-Desk-Webhooks/1.0',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': delivery._id.toString(),
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, body)}`
+    }, body);
+    const ok = statusCode >= 200 && statusCode < 300;
+    return {
+      ok,
+      attempt: {
+        at: new Date(startedAt),
+        statusCode,
+        error: ok ? null : `HTTP ${statusCode}`,
+        durationMs: Date.now() - startedAt
+      }
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      attempt: {
+        at: new Date(startedAt),
+        statusCode: null,
+        error: error instanceof Error ? error.message : 'Request failed',
+        durationMs: Date.now() - startedAt
+      }
+    };
+  }
+}
+
+/**
+ * Retry a failed delivery after its backoff delay. Timers are lost when the
+ * server restarts; the /api/cron/webhooks sweep picks those up.
+ */
+function scheduleRetry(deliveryId: string, at: Date): void {
+  const timer = setTimeout(() => {
+    attemptWebhookDelivery(deliveryId).catch((error) => {
+      console.error('Webhook retry failed:', error);
+    });
+  }, Math.max(at.getTime() - Date.now(), 0));
+  timer.unref?.();
+}
+
+/**
+ * Make the next automatic attempt at a pending delivery. The delivery is
+ * claimed first so a timer and a sweep never send it twice.
+ */
+export async function attemptWebhookDelivery(deliveryId: string): Promise<void> {
+  const now = new Date();
+  const delivery: WebhookDeliveryDocument | null = await WebhookDelivery.findOneAndUpdate(
+    { _id: deliveryId, status: 'pending', nextAttemptAt: { $lte: now } },
+    { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) },
+    { new: true }
+  );
+  if (!delivery) {
+    return;
+  }
+
+  const endpoint: WebhookEndpointDocument | null = await WebhookEndpoint.findById(delivery.endpointId);
+  if (!endpoint || !endpoint.enabled) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = null;
+    await delivery.save();
+    return;
+  }
+
+  const { ok, attempt } = await sendDelivery(endpoint, delivery);
+  delivery.attempts.push(attempt);
+  const automaticAttempts = delivery.attempts.filter((previous) => !previous.manual).length;
+
+  if (ok) {
+    delivery.status = 'succeeded';
+    delivery.nextAttemptAt = null;
+  } else if (automaticAttempts >= MAX_ATTEMPTS) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = null;
+  } else {
+    const delay = BASE_RETRY_DELAY_MS * 2 ** (automaticAttempts - 1);
+    delivery.nextAttemptAt = new Date(Date.now() + delay);
+  }
+  await delivery.save();
+
+  if (delivery.status === 'pending' && delivery.nextAttemptAt) {
+    scheduleRetry(delivery._id.toString(), delivery.nextAttemptAt);
+  }
+}
+
+/**
+ * Send a delivery again now, from the delivery log. Works for delivered and
+ * failed deliveries alike, and doesn't count towards the automatic retries.
+ */
+export async function redeliverWebhook(
+  delivery: WebhookDeliveryDocument,
+  endpoint: WebhookEndpointDocument
+): Promise<WebhookDeliveryDocument> {
+  const { ok, attempt } = await sendDelivery(endpoint, delivery);
+  delivery.attempts.push({ ...attempt, manual: true });
+  if (ok) {
+    delivery.status = 'succeeded';
+    delivery.nextAttemptAt = null;
+  } else if (delivery.status === 'succeeded') {
+    delivery.status = 'failed';
+  }
+  await delivery.save();
+  return delivery;
+}
+
+/**
+ * Attempt pending deliveries whose retry is due (e.g. after a restart lost
+ * their timers). Returns how many were attempted.
+ */
+export async function retryDueWebhookDeliveries(limit = SWEEP_BATCH_SIZE): Promise<number> {
+  const due: WebhookDeliveryDocument[] = await WebhookDelivery.find({
+    status: 'pending',
+    nextAttemptAt: { $lte: new Date() }
+  }).sort({ nextAttemptAt: 1 }).limit(limit).select('_id');
+
+  for (const delivery of due) {
+    await attemptWebhookDelivery(delivery._id.toString());
+  }
+  return due.length;
+}
+
+/**
+ * Queue an event for every enabled endpoint of the org subscribed to it and
+ * deliver it in the background. Failures are logged and never block the caller.
+ */
+export async function emitWebhookEvent(
+  orgId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const endpoints: WebhookEndpointDocument[] = await WebhookEndpoint.find({
+      orgId,
+      enabled: true,
+      events: event
+    });
+
+    if (endpoints.length > 0) {
+      const payload = {
+        id: crypto.randomUUID(),
+        type: event,
+        createdAt: new Date().toISOString(),
+        orgId,
+        data
+      };
+      const deliveries: WebhookDeliveryDocument[] = await WebhookDelivery.insertMany(
+        endpoints.map((endpoint) => ({
+          orgId,
+          endpointId: endpoint._id,
+          event,
+          payload,
+          nextAttemptAt: new Date()
+        }))
+      );
+
+      for (const delivery of deliveries) {
+        attemptWebhookDelivery(delivery._id.toString()).catch((error) => {
+          console.error('Webhook delivery failed:', error);
+        });
+      }
+    }
+
+    // Catch up on retries that are overdue
+    retryDueWebhookDeliveries().catch((error) => {
+      console.error('Webhook retry sweep failed:', error);
+    });
+  } catch (error) {
+    console.error(`Webhook ${event} event failed:`, error);
+  }
+}
+
+/**
+ * ticket.created / ticket.updated / ticket.deleted, with the fields that
+ * changed on updates
+ */
+export async function emitTicketWebhook(
+  event: 'ticket.created' | 'ticket.updated' | 'ticket.deleted',
+  ticket: TicketDocument,
+  changes: string[] = []
+): Promise<void> {
+  await emitWebhookEvent(ticket.orgId.toString(), event, {
+    ticket: serializeTicket(ticket),
+    ...(event === 'ticket.updated' ? { changes } : {})
+  });
+}
+
+/**
+ * message.created for any new message on a ticket, internal notes included
+ */
+export async function emitMessageWebhook(
+  ticket: TicketDocument,
+  message: TicketMessageDocument
+): Promise<void> {
+  await emitWebhookEvent(ticket.orgId.toString(), 'message.created', {
+    ticket: { id: ticket._id, subject: ticket.subject, status: ticket.status },
+    message: serializeTicketMessage(message)
+  });
+}
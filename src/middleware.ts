@@ -2,6 +2,9 @@ import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { jwtVerify } from 'jose';
 
+// Set by this middleware only; routes trust them for org and role checks
+const ORG_CONTEXT_HEADERS = ['x-org-subdomain', 'x-user-orgid', 'x-user-role'];
+
 // Extract subdomain from hostname
 function getSubdomain(hostname: string): string | null {
   // For development: localhost, 127.0.0.1
@@ -43,6 +46,24 @@ export async function middleware(request: NextRequest) {
   const authApiRoutes = ['/api/auth/login', '/api/auth/register', '/api/auth/logout'];
   const isAuthApi = authApiRoutes.includes(pathname);
   
+  // Signed attachment downloads carry their own authorization (verified in the route)
+  const isSignedDownload = pathname.startsWith('/api/attachments/') &&
+    request.nextUrl.searchParams.has('signature');
+  
+  // Public help center: pages and APIs for customers, who never have an auth-token
+  const isHelpCenter = pathname === '/help' || pathname.startsWith('/help/') ||
+    pathname.startsWith('/api/help/');
+  
+  // Inbound mail webhooks authenticate with a shared secret (verified in the route)
+  const isInboundWebhook = pathname.startsWith('/api/inbound/');
+  
+  // Scheduled jobs authenticate with CRON_SECRET (verified in the route)
+  const isCronJob = pathname.startsWith('/api/cron/');
+  
+  // Chat widget script and API, called from the org's own websites (origin and
+  // conversation token are checked in the routes)
+  const isChatWidget = pathname === '/widget.js' || pathname.startsWith('/api/widget/');
+  
   // Get auth token
   const token = request.cookies.get('auth-token')?.value;
   
@@ -64,15 +85,31 @@ export async function middleware(request: NextRequest) {
     }
   }
   
-  // Create response and add headers for org context
-  const response = NextResponse.next();
+  // Org context is forwarded to routes as request headers. Drop any the client
+  // sent so roles only ever come from a verified agent token (customer
+  // sessions are signed with a different key and never verify here).
+  const requestHeaders = new Headers(request.headers);
+  for (const header of ORG_CONTEXT_HEADERS) {
+    requestHeaders.delete(header);
+  }
   
-  // Add subdomain to headers for API routes to use
+  // Add subdomain and user org context to the headers routes read. They must
+  // be set before NextResponse.next(), which copies the request headers.
   if (subdomain) {
-    response.headers.set('x-org-subdomain', subdomain);
+    requestHeaders.set('x-org-subdomain', subdomain);
+  }
+  if (userOrgId) {
+    requestHeaders.set('x-user-orgid', userOrgId);
+  }
+  if (userRole) {
+    requestHeaders.set('x-user-role', userRole);
   }
   
-  // Add user org context to headers
+  // Create response and add headers for org context
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  if (subdomain) {
+    response.headers.set('x-org-subdomain', subdomain);
+  }
   if (userOrgId) {
     response.headers.set('x-user-orgid', userOrgId);
   }
@@ -81,15 +118,15 @@ export async function middleware(request: NextRequest) {
   }
   
   // Skip org validation for auth routes
-  if (isAuthApi || isPublicRoute) {
+  if (isAuthApi || isPublicRoute || isSignedDownload || isInboundWebhook || isHelpCenter || isChatWidget || isCronJob) {
     // For public routes, just check authentication
     if (isPublicRoute) {
       // If already logged in, redirect to dashboard
       if (token && userOrgId) {
         // Redirect to their org's subdomain if not already there
-        return NextResponse.next();
+        return response;
       }
-      return NextResponse.next();
+      return response;
     }
     return response;
   }
@@ -0,0 +1,22 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+// One record per LLM/embedding call, for quotas and usage reporting
+const aiUsageSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true },
+    // null for calls made automatically (triage, summaries, auto-response)
+    userId: { type: Types.ObjectId, ref: "User", default: null },
+    feature: { type: String, required: true },
+    operation: { type: String, enum: ["chat", "embedding", "moderation"], required: true },
+    model: { type: String, required: true },
+    promptTokens: { type: Number, default: 0 },
+    completionTokens: { type: Number, default: 0 },
+    totalTokens: { type: Number, default: 0 },
+    // Estimated from list prices; null for models without a known price
+    costUsd: { type: Number, default: null },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+aiUsageSchema.index({ orgId: 1, createdAt: -1 });
+
+export type AiUsageDocument = HydratedDocument<InferSchemaType<typeof aiUsageSchema>>;
+
+export default models.AiUsage || model("AiUsage", aiUsageSchema);
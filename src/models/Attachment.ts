@@ -0,0 +1,18 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+const attachmentSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true, index: true },
+    ticketId: { type: Types.ObjectId, ref: "Ticket", required: true, index: true },
+    // Set once the upload is attached to a message. Files from the customer's
+    // original request never get one (and have no uploadedBy).
+    messageId: { type: Types.ObjectId, ref: "TicketMessage", default: null, index: true },
+    filename: { type: String, required: true, trim: true },
+    contentType: { type: String, required: true },
+    size: { type: Number, required: true },
+    storageKey: { type: String, required: true },
+    uploadedBy: { type: Types.ObjectId, ref: "User", default: null },
+}, { timestamps: true });
+
+export type AttachmentDocument = HydratedDocument<InferSchemaType<typeof attachmentSchema>>;
+
+export default models.Attachment || model("Attachment", attachmentSchema);
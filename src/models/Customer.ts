@@ -0,0 +1,17 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+// End users of an org who contact support. Separate from User: customers have
+// no role and can only see their own tickets.
+const customerSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true, index: true },
+    email: { type: String, required: true, trim: true, lowercase: true },
+    name: { type: String, trim: true },
+    lastLoginAt: { type: Date, default: null },
+}, { timestamps: true });
+
+// The same person is a separate customer in each org
+customerSchema.index({ orgId: 1, email: 1 }, { unique: true });
+
+export type CustomerDocument = HydratedDocument<InferSchemaType<typeof customerSchema>>;
+
+export default models.Customer || model("Customer", customerSchema);
@@ -0,0 +1,17 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+// One-time magic-link tokens. Only a hash of the token is stored.
+const customerLoginTokenSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true },
+    customerId: { type: Types.ObjectId, ref: "Customer", required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null },
+}, { timestamps: true });
+
+// Expired tokens are removed by MongoDB
+customerLoginTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export type CustomerLoginTokenDocument = HydratedDocument<InferSchemaType<typeof customerLoginTokenSchema>>;
+
+export default models.CustomerLoginToken || model("CustomerLoginToken", customerLoginTokenSchema);
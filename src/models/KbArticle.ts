@@ -0,0 +1,20 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+const kbArticleSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true, index: true },
+    title: { type: String, required: true, trim: true },
+    body: { type: String, required: true },
+    category: { type: String, trim: true, default: null },
+    // Only published articles are indexed for search and used by the AI features
+    status: { type: String, enum: ["draft", "published"], default: "draft" },
+    publishedAt: { type: Date, default: null },
+    createdBy: { type: Types.ObjectId, ref: "User", required: true },
+    updatedBy: { type: Types.ObjectId, ref: "User", default: null },
+}, { timestamps: true });
+
+kbArticleSchema.index({ orgId: 1, status: 1, updatedAt: -1 });
+kbArticleSchema.index({ orgId: 1, category: 1 });
+
+export type KbArticleDocument = HydratedDocument<InferSchemaType<typeof kbArticleSchema>>;
+
+export default models.KbArticle || model("KbArticle", kbArticleSchema);
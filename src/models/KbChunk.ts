@@ -0,0 +1,17 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+// A slice of a published KB article together with its embedding
+const kbChunkSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true },
+    articleId: { type: Types.ObjectId, ref: "KbArticle", required: true },
+    position: { type: Number, required: true },
+    content: { type: String, required: true },
+    embedding: { type: [Number], required: true },
+    model: { type: String, required: true },
+}, { timestamps: true });
+
+kbChunkSchema.index({ orgId: 1, articleId: 1, position: 1 });
+
+export type KbChunkDocument = HydratedDocument<InferSchemaType<typeof kbChunkSchema>>;
+
+export default models.KbChunk || model("KbChunk", kbChunkSchema);
@@ -1,9 +1,112 @@
-import { Schema, model, models } from "mongoose";
+import { Schema, model, models, Types } from "mongoose";
+
+// Chat model choice for AI calls; unset values fall back to the provider defaults
+const modelSettingsSchema = new Schema({
+    model:{type:String, default:null},
+    temperature:{type:Number, min:0, max:2, default:null},
+    // Tried in order when the primary model fails
+    fallbackModels:{type:[String], default:[]},
+}, { _id: false });
 
 const orgSchema = new Schema({
     name:{type:String, required:true, trim:true},
     slug:{type:String, required:true, trim:true, unique:true, index:true},
     plan:{type:String, required:true, enum:["FREE", "PRO"], default:"FREE"},
+    // Custom ticket status transition table (falls back to the default workflow when empty)
+    ticketTransitions:[{
+        from:{type:String, required:true},
+        to:{type:String, required:true},
+        minimumRole:{type:String, enum:["OWNER", "ADMIN", "AGENT"], default:"AGENT"},
+        _id:false,
+    }],
+    // SLA targets per priority, measured in business minutes
+    sla:{
+        enabled:{type:Boolean, default:false},
+        timezone:{type:String, default:"UTC"},
+        nearBreachPercent:{type:Number, default:80},
+        businessHours:{
+            enabled:{type:Boolean, default:false},
+            days:{type:[Number], default:[1, 2, 3, 4, 5]},
+            start:{type:String, default:"09:00"},
+            end:{type:String, default:"17:00"},
+        },
+        targets:[{
+            priority:{type:String, enum:["low", "normal", "high", "urgent"], required:true},
+            firstResponseMinutes:{type:Number, required:true},
+            resolutionMinutes:{type:Number, required:true},
+            _id:false,
+        }],
+    },
+    // Automatic assignment of new tickets to AGENTs
+    autoAssignment:{
+        enabled:{type:Boolean, default:false},
+        strategy:{type:String, enum:["round-robin", "least-open"], default:"round-robin"},
+        lastAssignedUserId:{type:Types.ObjectId, ref:"User", default:null},
+    },
+    // Emails sent to requesters
+    email:{
+        // Branding applied to every customer email template
+        branding:{
+            fromName:{type:String, default:""},
+            logoUrl:{type:String, default:""},
+            primaryColor:{type:String, default:"#2563eb"},
+            signature:{type:String, default:""},
+            footer:{type:String, default:""},
+        },
+        // Which ticket events email the requester
+        notifyOn:{
+            ticketCreated:{type:Boolean, default:true},
+            agentReply:{type:Boolean, default:true},
+            statusChange:{type:Boolean, default:true},
+        },
+    },
+    // Embeddable chat widget for the org's own websites
+    chatWidget:{
+        enabled:{type:Boolean, default:false},
+        // Origins (scheme://host[:port]) allowed to load the widget and call its API
+        allowedOrigins:{type:[String], default:[]},
+        title:{type:String, default:""},
+        greeting:{type:String, default:"Hi! How can we help?"},
+        primaryColor:{type:String, default:"#2563eb"},
+    },
+    // AI feature settings
+    ai:{
+        autoTriage:{type:Boolean, default:true},
+        // Keep an AI handoff summary on longer ticket threads
+        autoSummarize:{type:Boolean, default:true},
+        // Let the AI answer new tickets when the knowledge base covers them
+        autoResponse:{
+            enabled:{type:Boolean, default:false},
+            // Minimum KB retrieval score (0-1) to answer without a human
+            confidenceThreshold:{type:Number, min:0, max:1, default:0.7},
+        },
+        // Translate customer messages for agents (and agent replies back on request)
+        translation:{
+            enabled:{type:Boolean, default:true},
+            // Language agents work in (ISO 639-1)
+            agentLanguage:{type:String, default:"en"},
+        },
+        // PII is replaced with placeholders before anything is sent to the LLM provider
+        redaction:{
+            enabled:{type:Boolean, default:true},
+            // Extra patterns on top of the built-in email/phone/card/address detectors
+            rules:[{
+                name:{type:String, required:true},
+                pattern:{type:String, required:true},
+                flags:{type:String, default:""},
+                _id:false,
+            }],
+        },
+        // Org-wide model settings, with per-feature overrides (keyed by feature name)
+        models:{type:modelSettingsSchema, default:{}},
+        featureModels:{type:Map, of:modelSettingsSchema, default:{}},
+        // Voice used for AI-drafted replies
+        tone:{
+            style:{type:String, enum:["friendly", "professional", "formal", "concise"], default:"friendly"},
+            instructions:{type:String, default:""},
+            signature:{type:String, default:""},
+        },
+    },
 }, { timestamps: true });
 
 export default models.Org || model("Org", orgSchema);
\ No newline at end of file
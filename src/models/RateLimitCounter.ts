@@ -0,0 +1,16 @@
+import { Schema, model, models, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+// Requests counted per key (e.g. form kind, org and client IP) in a fixed time window,
+// shared by every server instance
+const rateLimitCounterSchema = new Schema({
+    key: { type: String, required: true, unique: true },
+    count: { type: Number, required: true, default: 0 },
+    expiresAt: { type: Date, required: true },
+});
+
+// Counters for past windows are removed by MongoDB
+rateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export type RateLimitCounterDocument = HydratedDocument<InferSchemaType<typeof rateLimitCounterSchema>>;
+
+export default models.RateLimitCounter || model("RateLimitCounter", rateLimitCounterSchema);
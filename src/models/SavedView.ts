@@ -0,0 +1,18 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+const savedViewSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true, index: true },
+    name: { type: String, required: true, trim: true },
+    // Personal views belong to ownerId; shared views are visible to the whole org
+    scope: { type: String, enum: ["personal", "shared"], default: "personal" },
+    ownerId: { type: Types.ObjectId, ref: "User", required: true },
+    // Ticket filter/sort definition (see ticketFilterSchema)
+    filter: { type: Schema.Types.Mixed, default: {} },
+    position: { type: Number, default: 0 },
+}, { timestamps: true, minimize: false });
+
+savedViewSchema.index({ orgId: 1, scope: 1, ownerId: 1 });
+
+export type SavedViewDocument = HydratedDocument<InferSchemaType<typeof savedViewSchema>>;
+
+export default models.SavedView || model("SavedView", savedViewSchema);
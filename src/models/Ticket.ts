@@ -0,0 +1,78 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+// AI classification of the ticket; agents can override individual values
+const triageSchema = new Schema({
+    category: { value: String, confidence: Number, source: { type: String, enum: ["ai", "agent"] } },
+    tags: { value: [String], confidence: Number, source: { type: String, enum: ["ai", "agent"] } },
+    priority: { value: String, confidence: Number, source: { type: String, enum: ["ai", "agent"] } },
+    sentiment: { value: String, confidence: Number, source: { type: String, enum: ["ai", "agent"] } },
+    language: { value: String, confidence: Number, source: { type: String, enum: ["ai", "agent"] } },
+    model: { type: String },
+    triagedAt: { type: Date },
+}, { _id: false });
+
+// AI handoff notes for the conversation, refreshed as messages arrive
+const summarySchema = new Schema({
+    customerIssue: { type: String, default: "" },
+    stepsTaken: { type: [String], default: [] },
+    openQuestions: { type: [String], default: [] },
+    nextAction: { type: String, default: "" },
+    model: { type: String },
+    // Thread length the summary covers, to tell whether it is stale
+    messageCount: { type: Number, default: 0 },
+    summarizedAt: { type: Date },
+}, { _id: false });
+
+// Outcome of the AI agent's attempt to answer the ticket on its own
+const autoResponseSchema = new Schema({
+    status: { type: String, enum: ["answered", "needs-review", "escalated"], required: true },
+    confidence: { type: Number, default: 0 },
+    respondedAt: { type: Date, default: null },
+    escalatedAt: { type: Date, default: null },
+}, { _id: false });
+
+const ticketSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true, index: true },
+    subject: { type: String, required: true, trim: true },
+    description: { type: String, default: "" },
+    requester: {
+        name: { type: String, trim: true },
+        email: { type: String, required: true, trim: true, lowercase: true },
+    },
+    status: { type: String, enum: ["new", "open", "pending-customer", "on-hold", "solved", "closed"], default: "new" },
+    priority: { type: String, enum: ["low", "normal", "high", "urgent"], default: "normal" },
+    assigneeId: { type: Types.ObjectId, ref: "User", default: null },
+    tags: { type: [String], default: [] },
+    // Values for org-defined TicketFields, keyed by field key
+    customFields: { type: Map, of: Schema.Types.Mixed, default: {} },
+    // Customer's language (ISO 639-1), detected by triage or set by an agent
+    language: { type: String, default: null },
+    aiTriage: { type: triageSchema, default: null },
+    aiSummary: { type: summarySchema, default: null },
+    aiAutoResponse: { type: autoResponseSchema, default: null },
+    createdBy: { type: Types.ObjectId, ref: "User" },
+    // Where the ticket came from
+    channel: { type: String, enum: ["web", "email", "help-center", "chat"], default: "web" },
+    // Message-ID of the email that opened the ticket, for threading replies to it
+    emailMessageId: { type: String, default: null },
+    firstRespondedAt: { type: Date, default: null },
+    statusHistory: [{
+        from: { type: String, default: null },
+        to: { type: String, required: true },
+        actorId: { type: Types.ObjectId, ref: "User", default: null },
+        at: { type: Date, default: Date.now },
+        _id: false,
+    }],
+    deletedAt: { type: Date, default: null },
+}, { timestamps: true });
+
+ticketSchema.index({ orgId: 1, createdAt: -1, _id: -1 });
+ticketSchema.index({ orgId: 1, updatedAt: -1, _id: -1 });
+ticketSchema.index({ orgId: 1, status: 1, assigneeId: 1 });
+ticketSchema.index({ orgId: 1, tags: 1 });
+ticketSchema.index({ orgId: 1, emailMessageId: 1 });
+ticketSchema.index({ subject: "text", description: "text" });
+
+export type TicketDocument = HydratedDocument<InferSchemaType<typeof ticketSchema>>;
+
+export default models.Ticket || model("Ticket", ticketSchema);
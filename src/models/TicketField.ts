@@ -0,0 +1,18 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+const ticketFieldSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true, index: true },
+    // Stable identifier used in ticket.customFields and in filters (cf.<key>)
+    key: { type: String, required: true, trim: true },
+    label: { type: String, required: true, trim: true },
+    type: { type: String, enum: ["text", "number", "dropdown", "checkbox", "date"], required: true },
+    options: { type: [String], default: [] },
+    required: { type: Boolean, default: false },
+    position: { type: Number, default: 0 },
+}, { timestamps: true });
+
+ticketFieldSchema.index({ orgId: 1, key: 1 }, { unique: true });
+
+export type TicketFieldDocument = HydratedDocument<InferSchemaType<typeof ticketFieldSchema>>;
+
+export default models.TicketField || model("TicketField", ticketFieldSchema);
@@ -0,0 +1,44 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+// Provenance of messages written by the AI agent
+const aiAuthorSchema = new Schema({
+    model: { type: String },
+    // Top knowledge-base retrieval score the answer was based on
+    confidence: { type: Number },
+    articleIds: [{ type: Types.ObjectId, ref: "KbArticle" }],
+}, { _id: false });
+
+// Machine translation of the message body into another language
+const translationSchema = new Schema({
+    language: { type: String, required: true },
+    body: { type: String, required: true },
+    model: { type: String },
+    translatedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+const ticketMessageSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true, index: true },
+    ticketId: { type: Types.ObjectId, ref: "Ticket", required: true, index: true },
+    // "ai" messages were sent automatically by the AI agent
+    authorType: { type: String, enum: ["agent", "requester", "ai"], required: true },
+    authorId: { type: Types.ObjectId, ref: "User", default: null },
+    authorName: { type: String, trim: true },
+    authorEmail: { type: String, trim: true, lowercase: true },
+    body: { type: String, required: true },
+    visibility: { type: String, enum: ["public", "internal"], default: "public" },
+    ai: { type: aiAuthorSchema, default: null },
+    // Language of `body` as written by its author (ISO 639-1), when known
+    language: { type: String, default: null },
+    // Customer messages: translated for agents. Agent replies: the text sent to the customer.
+    translation: { type: translationSchema, default: null },
+    // Message-ID of the email this message arrived as or was sent as
+    emailMessageId: { type: String, default: null },
+}, { timestamps: true });
+
+ticketMessageSchema.index({ orgId: 1, ticketId: 1, createdAt: 1 });
+ticketMessageSchema.index({ body: "text" });
+ticketMessageSchema.index({ orgId: 1, emailMessageId: 1 });
+
+export type TicketMessageDocument = HydratedDocument<InferSchemaType<typeof ticketMessageSchema>>;
+
+export default models.TicketMessage || model("TicketMessage", ticketMessageSchema);
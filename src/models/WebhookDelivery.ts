@@ -0,0 +1,34 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+// One try at POSTing the event to the endpoint
+const deliveryAttemptSchema = new Schema({
+    at: { type: Date, required: true },
+    // HTTP status of the response; null when the request itself failed
+    statusCode: { type: Number, default: null },
+    error: { type: String, default: null },
+    durationMs: { type: Number, default: 0 },
+    // Redelivered by hand from the delivery log
+    manual: { type: Boolean, default: false },
+}, { _id: false });
+
+// An event queued for one endpoint, with every attempt made to deliver it
+const webhookDeliverySchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true },
+    endpointId: { type: Types.ObjectId, ref: "WebhookEndpoint", required: true },
+    event: { type: String, required: true },
+    // The JSON body sent (the same on every attempt)
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: { type: String, enum: ["pending", "succeeded", "failed"], default: "pending" },
+    attempts: { type: [deliveryAttemptSchema], default: [] },
+    // When the next automatic retry is due (null once delivered or given up)
+    nextAttemptAt: { type: Date, default: null },
+}, { timestamps: true, minimize: false });
+
+webhookDeliverySchema.index({ orgId: 1, endpointId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+// The delivery log keeps 30 days
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export type WebhookDeliveryDocument = HydratedDocument<InferSchemaType<typeof webhookDeliverySchema>>;
+
+export default models.WebhookDelivery || model("WebhookDelivery", webhookDeliverySchema);
@@ -0,0 +1,18 @@
+import { Schema, model, models, Types, type HydratedDocument, type InferSchemaType } from "mongoose";
+
+// An org's URL that receives signed event notifications
+const webhookEndpointSchema = new Schema({
+    orgId: { type: Types.ObjectId, ref: "Org", required: true, index: true },
+    url: { type: String, required: true, trim: true },
+    description: { type: String, trim: true, default: "" },
+    // Event types delivered to this endpoint (see WEBHOOK_EVENTS)
+    events: { type: [String], required: true },
+    // Signs each payload (HMAC-SHA256); only shown when created or rotated
+    secret: { type: String, required: true },
+    enabled: { type: Boolean, default: true },
+    createdBy: { type: Types.ObjectId, ref: "User" },
+}, { timestamps: true });
+
+export type WebhookEndpointDocument = HydratedDocument<InferSchemaType<typeof webhookEndpointSchema>>;
+
+export default models.WebhookEndpoint || model("WebhookEndpoint", webhookEndpointSchema);